@@ -1,10 +1,11 @@
 import { defineConfig } from 'drizzle-kit';
+import { config } from './src/config';
 
 export default defineConfig({
   out: './drizzle',
   schema: './drizzle/schema.ts',
   dialect: 'postgresql',
   dbCredentials: {
-    url: process.env.POSTGRES_URL!,
+    url: config.databaseUrl,
   },
 });
@@ -0,0 +1,3 @@
+CREATE TYPE "public"."task_priority" AS ENUM('low', 'normal', 'high', 'urgent');--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "priority" "task_priority" DEFAULT 'normal' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "categories" DROP CONSTRAINT "categories_name_key";--> statement-breakpoint
+ALTER TABLE "categories" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "previous_category_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_previous_category_id_fkey" FOREIGN KEY ("previous_category_id") REFERENCES "public"."categories"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "categories_name_key" ON "categories" USING btree ("owner_id","name") WHERE "categories"."deleted_at" is null;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TYPE "public"."activity_action" AS ENUM('create', 'update', 'toggle', 'rename', 'merge', 'trash', 'restore', 'purge');--> statement-breakpoint
+CREATE TYPE "public"."activity_entity" AS ENUM('task', 'category');--> statement-breakpoint
+CREATE TABLE "activity" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"entity" "activity_entity" NOT NULL,
+	"entity_id" integer NOT NULL,
+	"action" "activity_action" NOT NULL,
+	"before" jsonb,
+	"after" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "activity" ADD CONSTRAINT "activity_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "activity_user_id_created_at_idx" ON "activity" USING btree ("user_id","created_at");--> statement-breakpoint
+CREATE INDEX "activity_entity_idx" ON "activity" USING btree ("entity","entity_id");--> statement-breakpoint
+-- Keep the activity log append-only. Deletes cascading from a deleted user run one trigger level deeper and are allowed.
+CREATE FUNCTION "activity_append_only"() RETURNS trigger AS $$
+BEGIN
+	IF TG_OP = 'UPDATE' OR pg_trigger_depth() < 2 THEN
+		RAISE EXCEPTION 'activity is append-only';
+	END IF;
+	RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "activity_append_only" BEFORE UPDATE OR DELETE ON "activity" FOR EACH ROW EXECUTE FUNCTION "activity_append_only"();
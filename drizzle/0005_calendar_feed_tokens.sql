@@ -0,0 +1,2 @@
+ALTER TABLE "users" ADD COLUMN "feed_token_hash" text;--> statement-breakpoint
+ALTER TABLE "users" ADD CONSTRAINT "users_feed_token_hash_key" UNIQUE("feed_token_hash");
\ No newline at end of file
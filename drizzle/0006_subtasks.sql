@@ -0,0 +1,22 @@
+ALTER TABLE "tasks" ADD COLUMN "parent_id" integer;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "complete_with_subtasks" boolean DEFAULT false NOT NULL;--> statement-breakpoint
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "public"."tasks"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "tasks_parent_id_idx" ON "tasks" USING btree ("parent_id");--> statement-breakpoint
+-- Reject a parent that is the task itself or one of its subtasks, which would make a cycle
+CREATE FUNCTION "tasks_prevent_parent_cycles"() RETURNS trigger AS $$
+BEGIN
+	IF NEW.parent_id IS NOT NULL AND EXISTS (
+		WITH RECURSIVE ancestors(id, parent_id) AS (
+			SELECT id, parent_id FROM tasks WHERE id = NEW.parent_id
+			UNION
+			SELECT t.id, t.parent_id FROM tasks t JOIN ancestors a ON t.id = a.parent_id
+		)
+		SELECT 1 FROM ancestors WHERE id = NEW.id
+	) THEN
+		RAISE EXCEPTION 'task % cannot be a subtask of itself', NEW.id
+			USING ERRCODE = 'check_violation', CONSTRAINT = 'tasks_parent_id_cycle';
+	END IF;
+	RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "tasks_prevent_parent_cycles" BEFORE INSERT OR UPDATE OF "parent_id" ON "tasks" FOR EACH ROW EXECUTE FUNCTION "tasks_prevent_parent_cycles"();
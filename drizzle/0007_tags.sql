@@ -0,0 +1,17 @@
+CREATE TABLE "tags" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"name" varchar(50) NOT NULL,
+	"owner_id" integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "task_tags" (
+	"task_id" integer NOT NULL,
+	"tag_id" integer NOT NULL,
+	CONSTRAINT "task_tags_pkey" PRIMARY KEY("task_id","tag_id")
+);
+--> statement-breakpoint
+ALTER TABLE "tags" ADD CONSTRAINT "tags_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_tags" ADD CONSTRAINT "task_tags_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "public"."tasks"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "task_tags" ADD CONSTRAINT "task_tags_tag_id_fkey" FOREIGN KEY ("tag_id") REFERENCES "public"."tags"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "tags_name_key" ON "tags" USING btree ("owner_id",lower("name"));--> statement-breakpoint
+CREATE INDEX "task_tags_tag_id_idx" ON "task_tags" USING btree ("tag_id");
\ No newline at end of file
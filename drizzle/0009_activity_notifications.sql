@@ -0,0 +1,9 @@
+-- Tell listening app servers which user has new activity. Postgres delivers notifications when the
+-- transaction commits and drops those of rolled-back transactions.
+CREATE FUNCTION "activity_notify"() RETURNS trigger AS $$
+BEGIN
+	PERFORM pg_notify('activity', NEW.user_id::text);
+	RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "activity_notify" AFTER INSERT ON "activity" FOR EACH ROW EXECUTE FUNCTION "activity_notify"();
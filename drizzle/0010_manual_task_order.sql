@@ -0,0 +1,9 @@
+ALTER TYPE "public"."activity_action" ADD VALUE 'move';--> statement-breakpoint
+CREATE SEQUENCE "public"."tasks_position_seq" INCREMENT BY 1 MINVALUE 1 MAXVALUE 9223372036854775807 START WITH 1 CACHE 1;--> statement-breakpoint
+ALTER TABLE "tasks" ADD COLUMN "position" double precision DEFAULT nextval('tasks_position_seq') NOT NULL;--> statement-breakpoint
+-- Existing tasks start out in the order they were created in
+UPDATE "tasks" SET "position" = "ordered"."rank" FROM (
+	SELECT "id", row_number() OVER (ORDER BY "created_at", "id") AS "rank" FROM "tasks"
+) AS "ordered" WHERE "tasks"."id" = "ordered"."id";--> statement-breakpoint
+SELECT setval('tasks_position_seq', (SELECT count(*) FROM "tasks") + 1, false);--> statement-breakpoint
+CREATE INDEX "tasks_category_id_position_idx" ON "tasks" USING btree ("category_id","position");
\ No newline at end of file
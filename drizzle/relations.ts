@@ -1,13 +1,70 @@
 import { relations } from "drizzle-orm/relations";
-import { categories, tasks } from "./schema";
+import { categories, tasks, users, sessions, activity, tags, taskTags } from "./schema";
 
-export const tasksRelations = relations(tasks, ({one}) => ({
+export const tasksRelations = relations(tasks, ({one, many}) => ({
 	category: one(categories, {
 		fields: [tasks.categoryId],
 		references: [categories.id]
 	}),
+	parent: one(tasks, {
+		fields: [tasks.parentId],
+		references: [tasks.id],
+		relationName: "subtasks"
+	}),
+	subtasks: many(tasks, {
+		relationName: "subtasks"
+	}),
+	taskTags: many(taskTags),
+	owner: one(users, {
+		fields: [tasks.ownerId],
+		references: [users.id]
+	}),
+}));
+
+export const categoriesRelations = relations(categories, ({one, many}) => ({
+	tasks: many(tasks),
+	owner: one(users, {
+		fields: [categories.ownerId],
+		references: [users.id]
+	}),
 }));
 
-export const categoriesRelations = relations(categories, ({many}) => ({
+export const usersRelations = relations(users, ({many}) => ({
 	tasks: many(tasks),
-}));
\ No newline at end of file
+	categories: many(categories),
+	sessions: many(sessions),
+	activity: many(activity),
+	tags: many(tags),
+}));
+
+export const sessionsRelations = relations(sessions, ({one}) => ({
+	user: one(users, {
+		fields: [sessions.userId],
+		references: [users.id]
+	}),
+}));
+export const activityRelations = relations(activity, ({one}) => ({
+	user: one(users, {
+		fields: [activity.userId],
+		references: [users.id]
+	}),
+}));
+
+export const tagsRelations = relations(tags, ({one, many}) => ({
+	taskTags: many(taskTags),
+	owner: one(users, {
+		fields: [tags.ownerId],
+		references: [users.id]
+	}),
+}));
+
+export const taskTagsRelations = relations(taskTags, ({one}) => ({
+	task: one(tasks, {
+		fields: [taskTags.taskId],
+		references: [tasks.id]
+	}),
+	tag: one(tags, {
+		fields: [taskTags.tagId],
+		references: [tags.id]
+	}),
+}));
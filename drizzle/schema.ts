@@ -1,14 +1,81 @@
-import { pgTable, unique, serial, varchar, foreignKey, text, boolean, timestamp, integer } from 'drizzle-orm/pg-core';
+import {
+  pgTable,
+  pgEnum,
+  unique,
+  uniqueIndex,
+  serial,
+  varchar,
+  foreignKey,
+  text,
+  boolean,
+  timestamp,
+  integer,
+  jsonb,
+  index,
+  primaryKey,
+  doublePrecision,
+  pgSequence,
+} from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+
+export const taskPriority = pgEnum('task_priority', ['low', 'normal', 'high', 'urgent']);
+
+export const users = pgTable(
+  'users',
+  {
+    id: serial().primaryKey().notNull(),
+    email: varchar({ length: 255 }).notNull(),
+    passwordHash: text('password_hash').notNull(),
+    createdAt: timestamp('created_at', { mode: 'string' }).defaultNow(),
+    // SHA-256 hash of the token in the user's calendar feed URLs
+    feedTokenHash: text('feed_token_hash'),
+  },
+  (table) => [unique('users_email_key').on(table.email), unique('users_feed_token_hash_key').on(table.feedTokenHash)]
+);
+
+export const sessions = pgTable(
+  'sessions',
+  {
+    // SHA-256 hash of the token in the session cookie
+    id: text().primaryKey().notNull(),
+    userId: integer('user_id').notNull(),
+    expiresAt: timestamp('expires_at', { mode: 'string' }).notNull(),
+    createdAt: timestamp('created_at', { mode: 'string' }).defaultNow(),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.id],
+      name: 'sessions_user_id_fkey',
+    }).onDelete('cascade'),
+  ]
+);
 
 export const categories = pgTable(
   'categories',
   {
     id: serial().primaryKey().notNull(),
     name: varchar({ length: 100 }).notNull(),
+    ownerId: integer('owner_id'),
+    // Set while the category is in the trash
+    deletedAt: timestamp('deleted_at', { mode: 'string' }),
   },
-  (table) => [unique('categories_name_key').on(table.name)]
+  (table) => [
+    // Names only have to be unique among the categories that are not in the trash
+    uniqueIndex('categories_name_key')
+      .on(table.ownerId, table.name)
+      .where(sql`${table.deletedAt} is null`),
+    foreignKey({
+      columns: [table.ownerId],
+      foreignColumns: [users.id],
+      name: 'categories_owner_id_fkey',
+    }).onDelete('cascade'),
+  ]
 );
 
+// Hands out the positions of new tasks, so that they come last in the manual order of their category
+export const tasksPositionSeq = pgSequence('tasks_position_seq');
+
 export const tasks = pgTable(
   'tasks',
   {
@@ -17,6 +84,25 @@ export const tasks = pgTable(
     done: boolean().default(false),
     createdAt: timestamp('created_at', { mode: 'string' }).defaultNow(),
     categoryId: integer('category_id'),
+    dueAt: timestamp('due_at', { mode: 'string' }),
+    priority: taskPriority().default('normal').notNull(),
+    ownerId: integer('owner_id'),
+    // Set while the task is in the trash
+    deletedAt: timestamp('deleted_at', { mode: 'string' }),
+    // The category the task was taken out of when that category was moved to the trash
+    previousCategoryId: integer('previous_category_id'),
+    // Set for subtasks. A trigger from the migration rejects parents that would create a cycle.
+    parentId: integer('parent_id'),
+    // Whether the task is marked done once all of its subtasks are done
+    completeWithSubtasks: boolean('complete_with_subtasks').default(false).notNull(),
+    // The rule of a recurring task (see src/recurrence.ts). Completing the task creates the next
+    // occurrence, which takes the rule over, so only the open occurrence of a series carries it.
+    recurrence: jsonb(),
+    // Rank in the manual order of the task's category, lowest first. A task moved between two others
+    // gets the midpoint of their ranks, so a move only writes the moved row.
+    position: doublePrecision()
+      .default(sql`nextval('tasks_position_seq')`)
+      .notNull(),
   },
   (table) => [
     foreignKey({
@@ -24,5 +110,103 @@ export const tasks = pgTable(
       foreignColumns: [categories.id],
       name: 'tasks_category_id_fkey',
     }).onDelete('set null'),
+    foreignKey({
+      columns: [table.parentId],
+      foreignColumns: [table.id],
+      name: 'tasks_parent_id_fkey',
+    }).onDelete('set null'),
+    index('tasks_parent_id_idx').on(table.parentId),
+    index('tasks_category_id_position_idx').on(table.categoryId, table.position),
+    foreignKey({
+      columns: [table.previousCategoryId],
+      foreignColumns: [categories.id],
+      name: 'tasks_previous_category_id_fkey',
+    }).onDelete('set null'),
+    foreignKey({
+      columns: [table.ownerId],
+      foreignColumns: [users.id],
+      name: 'tasks_owner_id_fkey',
+    }).onDelete('cascade'),
+  ]
+);
+
+// Labels that can be put on any number of tasks, next to their single category
+export const tags = pgTable(
+  'tags',
+  {
+    id: serial().primaryKey().notNull(),
+    name: varchar({ length: 50 }).notNull(),
+    ownerId: integer('owner_id').notNull(),
+  },
+  (table) => [
+    // "Blocked" and "blocked" are the same tag
+    uniqueIndex('tags_name_key').on(table.ownerId, sql`lower(${table.name})`),
+    foreignKey({
+      columns: [table.ownerId],
+      foreignColumns: [users.id],
+      name: 'tags_owner_id_fkey',
+    }).onDelete('cascade'),
+  ]
+);
+
+export const taskTags = pgTable(
+  'task_tags',
+  {
+    taskId: integer('task_id').notNull(),
+    tagId: integer('tag_id').notNull(),
+  },
+  (table) => [
+    primaryKey({ columns: [table.taskId, table.tagId], name: 'task_tags_pkey' }),
+    foreignKey({
+      columns: [table.taskId],
+      foreignColumns: [tasks.id],
+      name: 'task_tags_task_id_fkey',
+    }).onDelete('cascade'),
+    foreignKey({
+      columns: [table.tagId],
+      foreignColumns: [tags.id],
+      name: 'task_tags_tag_id_fkey',
+    }).onDelete('cascade'),
+    index('task_tags_tag_id_idx').on(table.tagId),
+  ]
+);
+
+export const activityEntity = pgEnum('activity_entity', ['task', 'category']);
+
+export const activityAction = pgEnum('activity_action', [
+  'create',
+  'update',
+  'toggle',
+  'rename',
+  'merge',
+  'trash',
+  'restore',
+  'purge',
+  'move',
+]);
+
+// Append-only log of changes to tasks and categories. A trigger from the migration rejects
+// updates and deletes, except for the cascade when a user is deleted.
+export const activity = pgTable(
+  'activity',
+  {
+    id: serial().primaryKey().notNull(),
+    userId: integer('user_id').notNull(),
+    entity: activityEntity().notNull(),
+    // Not a foreign key, so the history outlives purged tasks and categories
+    entityId: integer('entity_id').notNull(),
+    action: activityAction().notNull(),
+    before: jsonb(),
+    after: jsonb(),
+    createdAt: timestamp('created_at', { mode: 'string' }).defaultNow().notNull(),
+  },
+  (table) => [
+    foreignKey({
+      columns: [table.userId],
+      foreignColumns: [users.id],
+      name: 'activity_user_id_fkey',
+    }).onDelete('cascade'),
+    index('activity_user_id_created_at_idx').on(table.userId, table.createdAt),
+    index('activity_entity_idx').on(table.entity, table.entityId),
   ]
 );
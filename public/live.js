@@ -0,0 +1,52 @@
+// Keeps the task list up to date with changes made in other tabs and by other app servers.
+// The page is the source of truth: on a change, it is fetched again and the rows that differ are
+// swapped in place, so rows that did not change keep their state.
+(() => {
+  const script = document.currentScript;
+  if (!script || !window.EventSource) return;
+
+  // Rows are matched by their data-key; other live regions are replaced as a whole
+  function patchRows(current, next) {
+    const rows = new Map([...current.children].map((row) => [row.dataset.key, row]));
+    const kept = new Set();
+    let previous = null;
+    for (const nextRow of [...next.children]) {
+      let row = rows.get(nextRow.dataset.key);
+      if (!row || row.outerHTML !== nextRow.outerHTML) {
+        const fresh = document.importNode(nextRow, true);
+        if (row) row.replaceWith(fresh);
+        row = fresh;
+      }
+      const expected = previous ? previous.nextElementSibling : current.firstElementChild;
+      if (expected !== row) current.insertBefore(row, expected);
+      kept.add(row);
+      previous = row;
+    }
+    for (const row of [...current.children]) {
+      if (!kept.has(row)) row.remove();
+    }
+  }
+
+  async function refresh() {
+    const response = await fetch(location.href, { headers: { Accept: 'text/html' } });
+    if (!response.ok) return;
+    const page = new DOMParser().parseFromString(await response.text(), 'text/html');
+    for (const next of page.querySelectorAll('[data-live]')) {
+      const current = document.querySelector(`[data-live="${next.dataset.live}"]`);
+      if (!current) continue;
+      if (current.tagName === 'TBODY') {
+        patchRows(current, next);
+      } else if (current.innerHTML !== next.innerHTML) {
+        current.innerHTML = next.innerHTML;
+      }
+    }
+  }
+
+  // One refresh for a burst of events, such as a category deleted together with its tasks
+  let timer = null;
+  const source = new EventSource(script.dataset.events);
+  source.addEventListener('change', () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => refresh().catch((error) => console.error('Live update failed:', error)), 200);
+  });
+})();
@@ -0,0 +1,32 @@
+import { describe, expect, test } from 'bun:test';
+import { parseActivityQuery, activityQueryString } from './activity-query';
+
+describe('parseActivityQuery', () => {
+  test('reads the filters and the page', () => {
+    expect(
+      parseActivityQuery({ entity: 'task', action: 'toggle', from: '2025-03-01', to: '2025-03-08', page: '3' })
+    ).toEqual({ entity: 'task', action: 'toggle', from: '2025-03-01', to: '2025-03-08', page: 3 });
+  });
+
+  test('ignores missing and invalid values', () => {
+    const empty = { entity: null, action: null, from: null, to: null, page: 1 };
+    expect(parseActivityQuery({})).toEqual(empty);
+    expect(
+      parseActivityQuery({ entity: 'user', action: 'delete', from: '8 March', to: '2025-13-01', page: '-2' })
+    ).toEqual(empty);
+  });
+});
+
+describe('activityQueryString', () => {
+  test('leaves out unset filters and the first page', () => {
+    const query = parseActivityQuery({ entity: 'category', from: '2025-03-01' });
+    expect(activityQueryString(query)).toBe('?entity=category&from=2025-03-01');
+    expect(activityQueryString(query, { entity: null })).toBe('?from=2025-03-01');
+    expect(activityQueryString(parseActivityQuery({}))).toBe('');
+  });
+
+  test('round-trips through parseActivityQuery', () => {
+    const query = parseActivityQuery({ action: 'restore', to: '2025-03-08', page: '2' });
+    expect(parseActivityQuery(Object.fromEntries(new URLSearchParams(activityQueryString(query))))).toEqual(query);
+  });
+});
@@ -0,0 +1,105 @@
+import { activityAction, activityEntity } from '../drizzle/schema';
+import type { ActivityEntry } from './db';
+import { describeRecurrence } from './recurrence';
+import type { Recurrence } from './recurrence';
+
+export const activityEntities = activityEntity.enumValues;
+export const activityActions = activityAction.enumValues;
+
+export type ActivityEntity = (typeof activityEntities)[number];
+export type ActivityAction = (typeof activityActions)[number];
+
+/**
+ * Filters and page for the activity log, as parsed from the query string of `/activity`.
+ */
+export interface ActivityQuery {
+  entity: ActivityEntity | null;
+  action: ActivityAction | null;
+  // Dates as `YYYY-MM-DD`, both inclusive
+  from: string | null;
+  to: string | null;
+  page: number;
+}
+
+export const ACTIVITY_PER_PAGE = 50;
+
+const datePattern = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parses activity log parameters, ignoring anything missing or invalid.
+ *
+ * Recognised parameters: `entity` (`task` or `category`), `action` (`create`, `update`, `toggle`,
+ * `rename`, `merge`, `trash`, `restore`, `purge` or `move`), `from` and `to` (dates) and `page` (1-based).
+ */
+export function parseActivityQuery(params: Record<string, string | undefined>): ActivityQuery {
+  const page = Number(params.page);
+  const date = (value: string | undefined) =>
+    value && datePattern.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+
+  return {
+    entity: activityEntities.includes(params.entity as ActivityEntity) ? (params.entity as ActivityEntity) : null,
+    action: activityActions.includes(params.action as ActivityAction) ? (params.action as ActivityAction) : null,
+    from: date(params.from),
+    to: date(params.to),
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
+}
+
+/**
+ * Builds the query string for the activity log, leaving out unset filters and the first page.
+ * Returns an empty string or a string starting with `?`.
+ */
+export function activityQueryString(query: ActivityQuery, overrides: Partial<ActivityQuery> = {}): string {
+  const merged = { ...query, ...overrides };
+  const params = new URLSearchParams();
+
+  if (merged.entity) params.set('entity', merged.entity);
+  if (merged.action) params.set('action', merged.action);
+  if (merged.from) params.set('from', merged.from);
+  if (merged.to) params.set('to', merged.to);
+  if (merged.page !== 1) params.set('page', String(merged.page));
+
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+const activityFieldLabels: Record<string, string> = {
+  title: 'Title',
+  done: 'Done',
+  category: 'Category',
+  dueAt: 'Due',
+  priority: 'Priority',
+  parentId: 'Parent task',
+  tags: 'Tags',
+  recurrence: 'Repeats',
+  name: 'Name',
+  mergedInto: 'Merged into',
+  tasks: 'Tasks moved',
+};
+
+function formatActivityValue(key: string, value: unknown): string {
+  if (value === null || value === undefined) return '-';
+  if (key === 'recurrence') return describeRecurrence(value as Recurrence);
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '-';
+  return String(value);
+}
+
+/**
+ * Lists what an activity entry changed: the fields that differ for updates, and the recorded
+ * fields for everything else.
+ */
+export function describeActivity(entry: ActivityEntry): string[] {
+  const { before, after } = entry;
+  if (before && after && entry.action !== 'merge') {
+    return Object.keys(after)
+      .filter((key) => JSON.stringify(before[key]) !== JSON.stringify(after[key]))
+      .map(
+        (key) =>
+          `${activityFieldLabels[key] ?? key}: ${formatActivityValue(key, before[key])} → ${formatActivityValue(key, after[key])}`
+      );
+  }
+  return Object.entries(after ?? before ?? {}).map(
+    ([key, value]) => `${activityFieldLabels[key] ?? key}: ${formatActivityValue(key, value)}`
+  );
+}
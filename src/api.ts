@@ -0,0 +1,374 @@
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import { taskPriorities, bulkTaskActions } from './db';
+import type { TaskPriority, TaskMove, BulkTaskAction } from './db';
+import type { AppEnv } from './auth';
+import type { Repository, TaskChanges } from './repositories/repository';
+import { parseId, parseDateTime, isId } from './utils';
+import { parseTaskQuery, TASKS_PER_PAGE } from './task-query';
+import { taskForm } from './forms';
+import { isRecurrence } from './recurrence';
+import type { Recurrence } from './recurrence';
+import type { FieldErrors } from './validation';
+import { isUniqueViolation, isForeignKeyViolation, isCheckViolation } from './errors';
+
+/**
+ * Reads the request body as a JSON object, or returns `null` if it is missing or malformed.
+ */
+async function readBody(c: Context): Promise<Record<string, unknown> | null> {
+  try {
+    const body = await c.req.json();
+    return body && typeof body === 'object' && !Array.isArray(body) ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+// The title and tags follow the rules of the task form, so tasks are valid whichever way they were saved
+function validateTitle(value: unknown, errors: FieldErrors): string | undefined {
+  const result = taskForm.title.parse(typeof value === 'string' ? value : null);
+  if ('error' in result) {
+    errors.title = result.error;
+    return undefined;
+  }
+  return result.value;
+}
+
+function validateCategoryId(value: unknown, errors: FieldErrors): number | null | undefined {
+  if (value === null) return null;
+  if (!isId(value)) {
+    errors.categoryId = 'Category id must be a positive integer or null';
+    return undefined;
+  }
+  return value;
+}
+
+function validateDueAt(value: unknown, errors: FieldErrors): string | null | undefined {
+  if (value === null) return null;
+  const dueAt = typeof value === 'string' ? parseDateTime(value) : null;
+  if (!dueAt) {
+    errors.dueAt = 'Due date must be null or a date (YYYY-MM-DD) or local date and time (YYYY-MM-DDTHH:MM)';
+    return undefined;
+  }
+  return dueAt;
+}
+
+function validateParentId(value: unknown, errors: FieldErrors): number | null | undefined {
+  if (value === null) return null;
+  if (!isId(value)) {
+    errors.parentId = 'Parent id must be a positive integer or null';
+    return undefined;
+  }
+  return value;
+}
+
+function validatePriority(value: unknown, errors: FieldErrors): TaskPriority | undefined {
+  if (!taskPriorities.includes(value as TaskPriority)) {
+    errors.priority = `Priority must be one of ${taskPriorities.join(', ')}`;
+    return undefined;
+  }
+  return value as TaskPriority;
+}
+
+function validateTags(value: unknown, errors: FieldErrors): string[] | undefined {
+  if (!Array.isArray(value) || !value.every((name) => typeof name === 'string' && !name.includes(','))) {
+    errors.tags = 'Tags must be an array of names without commas';
+    return undefined;
+  }
+  const result = taskForm.tags.parse(value.join(','));
+  if ('error' in result) {
+    errors.tags = result.error;
+    return undefined;
+  }
+  return result.value;
+}
+
+function validateRecurrence(value: unknown, errors: FieldErrors): Recurrence | null | undefined {
+  if (value === null) return null;
+  if (!isRecurrence(value)) {
+    errors.recurrence =
+      'Recurrence must be null or one of {"freq":"daily"}, {"freq":"weekly","weekdays":[0-6,...]}, ' +
+      '{"freq":"monthly","day":1-31} or {"freq":"interval","days":1-365}';
+    return undefined;
+  }
+  return value;
+}
+
+function validateName(value: unknown, errors: FieldErrors): string | undefined {
+  if (typeof value !== 'string' || value.trim() === '') {
+    errors.name = 'Name is required';
+    return undefined;
+  }
+  if (value.trim().length > 100) {
+    errors.name = 'Name must be at most 100 characters';
+    return undefined;
+  }
+  return value.trim();
+}
+
+const notFound = (c: Context, entity: string) => c.json({ error: `${entity} not found` }, 404);
+const invalidBody = (c: Context) => c.json({ error: 'Request body must be a JSON object' }, 400);
+const unprocessable = (c: Context, errors: FieldErrors) => c.json({ error: 'Validation failed', fields: errors }, 422);
+const categoryExists = (c: Context) => c.json({ error: 'A category with this name already exists' }, 409);
+const unknownCategory = (c: Context) => unprocessable(c, { categoryId: 'Category does not exist' });
+const unknownParent = (c: Context) => unprocessable(c, { parentId: 'Parent task does not exist' });
+const parentCycle = (c: Context) =>
+  unprocessable(c, { parentId: 'A task cannot be a subtask of itself or of one of its subtasks' });
+
+/**
+ * Creates the JSON API for scripts and the mobile client over the given repository. The app mounts
+ * it at `/api/v1`, behind the same sign-in as the pages.
+ */
+export function createApi(repo: Repository): Hono<AppEnv> {
+  const api = new Hono<AppEnv>();
+
+  // Tasks
+
+  // Accepts the same filter and sort parameters as the home page; results are only paginated
+  // when a `page` parameter is given
+  api.get('/tasks', async (c) => {
+    const userId = c.get('user').id;
+    const query = parseTaskQuery(c.req.query());
+    if (c.req.query('page') === undefined) {
+      return c.json(await repo.fetchTasks(userId, query));
+    }
+
+    const [tasks, total] = await Promise.all([
+      repo.fetchTasks(userId, query, TASKS_PER_PAGE),
+      repo.countTasks(userId, query),
+    ]);
+    c.header('X-Total-Count', String(total));
+    return c.json(tasks);
+  });
+
+  api.get('/tasks/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    return task ? c.json(task) : notFound(c, 'Task');
+  });
+
+  api.post('/tasks', async (c) => {
+    const userId = c.get('user').id;
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    const title = validateTitle(body.title, errors);
+    const categoryId = body.categoryId === undefined ? null : validateCategoryId(body.categoryId, errors);
+    const dueAt = body.dueAt === undefined ? null : validateDueAt(body.dueAt, errors);
+    const priority = body.priority === undefined ? 'normal' : validatePriority(body.priority, errors);
+    const parentId = body.parentId === undefined ? null : validateParentId(body.parentId, errors);
+    const tags = body.tags === undefined ? [] : validateTags(body.tags, errors);
+    const recurrence = body.recurrence === undefined ? null : validateRecurrence(body.recurrence, errors);
+    if (Object.keys(errors).length > 0) return unprocessable(c, errors);
+    if (categoryId && !(await repo.fetchCategory(userId, categoryId))) return unknownCategory(c);
+    if (parentId && !(await repo.fetchTask(userId, parentId))) return unknownParent(c);
+
+    try {
+      const id = await repo.createTask(userId, {
+        title: title!,
+        categoryId: categoryId!,
+        dueAt: dueAt!,
+        priority: priority!,
+        parentId: parentId!,
+        tags: tags!,
+        recurrence: recurrence!,
+      });
+      c.header('Location', `/api/v1/tasks/${id}`);
+      return c.json(await repo.fetchTask(userId, id), 201);
+    } catch (error) {
+      if (isForeignKeyViolation(error)) return unknownCategory(c);
+      throw error;
+    }
+  });
+
+  api.patch('/tasks/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id) return notFound(c, 'Task');
+
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    const values: TaskChanges = {};
+    if (body.title !== undefined) values.title = validateTitle(body.title, errors);
+    if (body.categoryId !== undefined) values.categoryId = validateCategoryId(body.categoryId, errors);
+    if (body.dueAt !== undefined) values.dueAt = validateDueAt(body.dueAt, errors);
+    if (body.priority !== undefined) values.priority = validatePriority(body.priority, errors);
+    if (body.parentId !== undefined) values.parentId = validateParentId(body.parentId, errors);
+    if (body.tags !== undefined) values.tags = validateTags(body.tags, errors);
+    if (body.recurrence !== undefined) values.recurrence = validateRecurrence(body.recurrence, errors);
+    if (body.done !== undefined) {
+      if (typeof body.done === 'boolean') values.done = body.done;
+      else errors.done = 'Done must be a boolean';
+    }
+    if (body.completeWithSubtasks !== undefined) {
+      if (typeof body.completeWithSubtasks === 'boolean') values.completeWithSubtasks = body.completeWithSubtasks;
+      else errors.completeWithSubtasks = 'Complete with subtasks must be a boolean';
+    }
+    if (Object.keys(values).length === 0 && Object.keys(errors).length === 0) {
+      errors.body =
+        'At least one of title, done, categoryId, dueAt, priority, parentId, completeWithSubtasks, tags or recurrence is required';
+    }
+    if (Object.keys(errors).length > 0) return unprocessable(c, errors);
+    if (values.categoryId && !(await repo.fetchCategory(userId, values.categoryId))) return unknownCategory(c);
+    if (values.parentId && !(await repo.fetchTask(userId, values.parentId))) return unknownParent(c);
+
+    try {
+      if (!(await repo.updateTask(userId, id, values))) return notFound(c, 'Task');
+      return c.json(await repo.fetchTask(userId, id));
+    } catch (error) {
+      if (isCheckViolation(error, 'tasks_parent_id_cycle')) return parentCycle(c);
+      if (isForeignKeyViolation(error)) return unknownCategory(c);
+      throw error;
+    }
+  });
+
+  // Moves a task in the manual order (`?sort=position`): `{ "beforeId": 12 }` in front of another task
+  // with the same parent, `{ "direction": "up" }` or `"down"` one place, `{ "categoryId": 3 }` to the end of a category
+  api.post('/tasks/:id/move', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    if (!task) return notFound(c, 'Task');
+
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    let move: TaskMove | undefined;
+    if (body.beforeId !== undefined) {
+      const beforeId = body.beforeId;
+      if (isId(beforeId)) move = { beforeId };
+      else errors.beforeId = 'Before id must be a positive integer';
+    } else if (body.direction !== undefined) {
+      if (body.direction === 'up' || body.direction === 'down') move = { direction: body.direction };
+      else errors.direction = 'Direction must be "up" or "down"';
+    } else if (body.categoryId !== undefined) {
+      const categoryId = validateCategoryId(body.categoryId, errors);
+      if (categoryId !== undefined) move = { categoryId };
+    } else {
+      errors.body = 'One of beforeId, direction or categoryId is required';
+    }
+    if (!move) return unprocessable(c, errors);
+    if ('beforeId' in move) {
+      const before = await repo.fetchTask(userId, move.beforeId);
+      if (!before || before.id === task.id || before.parentId !== task.parentId) {
+        return unprocessable(c, { beforeId: 'Task to move in front of must be another task with the same parent' });
+      }
+    }
+    if ('categoryId' in move && move.categoryId && !(await repo.fetchCategory(userId, move.categoryId))) {
+      return unknownCategory(c);
+    }
+
+    if (!(await repo.moveTask(userId, task.id, move))) return notFound(c, 'Task');
+    return c.json(await repo.fetchTask(userId, task.id));
+  });
+
+  // Applies an action to many tasks in one transaction: `{ "action": "done", "ids": [1, 2] }`, or
+  // `{ "action": "move", "categoryId": 3, "all": true }` for every task matching the filter parameters
+  // of the query string, as for `GET /tasks`. Responds with the number of tasks the action changed.
+  api.post('/tasks/batch', async (c) => {
+    const userId = c.get('user').id;
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    const action = body.action as BulkTaskAction['action'];
+    if (!bulkTaskActions.includes(action)) {
+      errors.action = `Action must be one of ${bulkTaskActions.join(', ')}`;
+    }
+    const categoryId = action === 'move' ? validateCategoryId(body.categoryId ?? null, errors) : undefined;
+    if (action === 'move' && categoryId === null) {
+      errors.categoryId = 'Category id is required to move tasks';
+    }
+    const ids = body.ids;
+    if (body.all === true) {
+      if (ids !== undefined) errors.ids = 'Give either ids or all, not both';
+    } else if (body.all !== undefined && body.all !== false) {
+      errors.all = 'All must be a boolean';
+    } else if (!Array.isArray(ids) || ids.length === 0 || !ids.every(isId)) {
+      errors.ids = 'Ids must be a non-empty array of positive integers, unless all is true';
+    }
+    if (Object.keys(errors).length > 0) return unprocessable(c, errors);
+    if (categoryId && !(await repo.fetchCategory(userId, categoryId))) return unknownCategory(c);
+
+    const change: BulkTaskAction = action === 'move' ? { action, categoryId: categoryId! } : { action };
+    const selection = body.all === true ? { query: parseTaskQuery(c.req.query()) } : { ids: ids as number[] };
+    return c.json({ affected: await repo.bulkUpdateTasks(userId, selection, change) });
+  });
+
+  // Subtasks are promoted to the task's parent unless `?subtasks=delete` sends them to the trash too
+  api.delete('/tasks/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const subtasks = c.req.query('subtasks') === 'delete' ? 'delete' : 'promote';
+    if (!id || !(await repo.trashTask(userId, id, subtasks))) return notFound(c, 'Task');
+    return c.body(null, 204);
+  });
+
+  // Categories
+
+  api.get('/categories', async (c) => {
+    const userId = c.get('user').id;
+    return c.json(await repo.fetchCategories(userId));
+  });
+
+  api.get('/categories/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const category = id && (await repo.fetchCategory(userId, id));
+    return category ? c.json(category) : notFound(c, 'Category');
+  });
+
+  api.post('/categories', async (c) => {
+    const userId = c.get('user').id;
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    const name = validateName(body.name, errors);
+    if (Object.keys(errors).length > 0) return unprocessable(c, errors);
+
+    try {
+      const id = await repo.createCategory(userId, name!);
+      c.header('Location', `/api/v1/categories/${id}`);
+      return c.json({ id, name }, 201);
+    } catch (error) {
+      if (isUniqueViolation(error, 'categories_name_key')) return categoryExists(c);
+      throw error;
+    }
+  });
+
+  api.patch('/categories/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id) return notFound(c, 'Category');
+
+    const body = await readBody(c);
+    if (!body) return invalidBody(c);
+
+    const errors: FieldErrors = {};
+    const name = validateName(body.name, errors);
+    if (Object.keys(errors).length > 0) return unprocessable(c, errors);
+
+    try {
+      if (!(await repo.updateCategory(userId, id, name!))) return notFound(c, 'Category');
+      return c.json({ id, name });
+    } catch (error) {
+      if (isUniqueViolation(error, 'categories_name_key')) return categoryExists(c);
+      throw error;
+    }
+  });
+
+  api.delete('/categories/:id', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id || !(await repo.trashCategory(userId, id))) return notFound(c, 'Category');
+    return c.body(null, 204);
+  });
+
+  return api;
+}
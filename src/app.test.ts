@@ -0,0 +1,223 @@
+import { describe, expect, test, beforeEach } from 'bun:test';
+import type { MiddlewareHandler } from 'hono';
+import { createApp } from './app';
+import { views as preactViews } from './components';
+import { views as templateViews } from './views';
+import type { AppEnv } from './auth';
+import { fixtures } from './fixtures';
+import { defaultTaskQuery } from './task-query';
+import { createMemoryRepository } from './repositories/memory';
+import type { Repository } from './repositories/repository';
+
+// Signs in the user named by the X-Test-User header, without sessions in a database
+const testAuth: MiddlewareHandler<AppEnv> = async (c, next) => {
+  const id = Number(c.req.header('X-Test-User') ?? 1);
+  c.set('user', { id, email: `user${id}@example.com` });
+  await next();
+};
+
+// Both renderers run over the same routes, so every test runs with each of them
+describe.each([
+  ['Preact', preactViews],
+  ['template string', templateViews],
+])('createApp with the %s views', (_, views) => {
+  let repo: Repository;
+  let app: ReturnType<typeof createApp>;
+
+  beforeEach(() => {
+    // The tasks and categories of `small` belong to user 1
+    repo = createMemoryRepository(fixtures.small());
+    app = createApp(repo, views, { auth: testAuth, log: () => {} });
+  });
+
+  const get = (path: string, user = 1) =>
+    app.request(path, { headers: { Cookie: 'session=test', 'X-Test-User': String(user) } });
+
+  // Posts a form the way a browser would, with the CSRF token of a page from the app
+  const post = async (path: string, fields: Record<string, string> = {}, headers: Record<string, string> = {}) => {
+    const page = await (await get('/', Number(headers['X-Test-User'] ?? 1))).text();
+    const token = page.match(/name="_csrf" value="([^"]+)"/)![1];
+    return app.request(path, {
+      method: 'POST',
+      body: new URLSearchParams({ _csrf: token, return_to: '/', ...fields }),
+      headers: { Cookie: 'session=test', Origin: 'http://localhost', ...headers },
+    });
+  };
+
+  test('lists the tasks and categories of the signed-in user', async () => {
+    const page = await (await get('/')).text();
+    expect(page).toContain('Fix kitchen tap');
+    expect(page).toContain('Review quarterly report');
+
+    const otherPage = await (await get('/', 2)).text();
+    expect(otherPage).not.toContain('Fix kitchen tap');
+  });
+
+  test('filters the task list by the query string', async () => {
+    // The select of parent tasks lists them all, so the task rows are told apart by their keys
+    const page = await (await get('/?category=2')).text();
+    expect(page).toMatch(/<tr\s+data-key="3"\s+data-parent/);
+    expect(page).not.toMatch(/<tr\s+data-key="1"\s+data-parent/);
+  });
+
+  test('creates a task and redirects back to the list', async () => {
+    const res = await post('/tasks', { title: 'Book a plumber', category_id: '1', priority: 'high', tags: 'home' });
+    expect(res.status).toBe(302);
+    expect(res.headers.get('Location')).toBe('/');
+
+    const [task] = await repo.fetchTaskTree(1, { ...defaultTaskQuery, search: 'plumber' });
+    expect(task).toMatchObject({ title: 'Book a plumber', categoryName: 'Home', priority: 'high' });
+    expect(task.tags.map((tag) => tag.name)).toEqual(['home']);
+  });
+
+  test('shows the task form again with its errors', async () => {
+    const res = await post('/tasks', { title: '', category_id: '1' });
+    expect(res.status).toBe(422);
+    expect(await res.text()).toContain('Title is required');
+  });
+
+  test("does not put tasks into other users' categories", async () => {
+    const res = await post('/tasks', { title: 'Sneaky', category_id: '1' }, { 'X-Test-User': '2' });
+    expect(res.status).toBe(422);
+    expect(await res.text()).toContain('Selected category does not exist');
+  });
+
+  test('treats ids too large for the database as unknown', async () => {
+    expect((await post('/tasks/2147483648/toggle')).status).toBe(404);
+    const res = await post('/tasks', { title: 'Overflow', category_id: '2147483648' });
+    expect(res.status).toBe(422);
+    expect(await res.text()).toContain('Category is not valid');
+  });
+
+  test('toggles a task and answers scripts with its row', async () => {
+    const res = await post('/tasks/1/toggle', {}, { 'HX-Request': 'true' });
+    expect(res.status).toBe(200);
+    expect(await res.text()).toMatch(/^<tr/);
+    expect(await repo.fetchTask(1, 1)).toMatchObject({ done: true });
+  });
+
+  test("cannot toggle or delete other users' tasks", async () => {
+    expect((await post('/tasks/1/toggle', {}, { 'X-Test-User': '2' })).status).toBe(404);
+    expect((await post('/tasks/1/delete', {}, { 'X-Test-User': '2' })).status).toBe(404);
+    expect((await get('/tasks/1/delete', 2)).status).toBe(404);
+    expect(await repo.fetchTask(1, 1)).toMatchObject({ done: false });
+  });
+
+  test('moves deleted tasks to the trash', async () => {
+    expect((await get('/tasks/1/delete')).status).toBe(200);
+    expect((await post('/tasks/1/delete')).status).toBe(302);
+    expect(await repo.fetchTask(1, 1)).toBeUndefined();
+    expect((await post('/tasks/1/delete')).status).toBe(404);
+  });
+
+  test('rejects a category name that is already used', async () => {
+    const res = await post('/categories', { name: 'Home' });
+    expect(res.status).toBe(409);
+    expect(await res.text()).toContain('A category named &quot;Home&quot; already exists');
+  });
+
+  test('moves the tasks of a deleted category to another category', async () => {
+    expect((await post('/categories/1/delete', { tasks: 'reassign', target_id: '1' })).status).toBe(400);
+    expect((await post('/categories/1/delete', { tasks: 'reassign', target_id: '2' })).status).toBe(302);
+    expect(await repo.fetchCategory(1, 1)).toBeUndefined();
+    expect(await repo.fetchTask(1, 1)).toMatchObject({ categoryName: 'Work' });
+  });
+
+  test('rejects form posts without the CSRF token', async () => {
+    const res = await app.request('/tasks', {
+      method: 'POST',
+      body: new URLSearchParams({ title: 'Forged' }),
+      headers: { Cookie: 'session=test', Origin: 'http://localhost' },
+    });
+    expect(res.status).toBe(403);
+    expect(await repo.countTaskTrees(1)).toBe(fixtures.small().tasks.length);
+  });
+
+  test('edits a task and shows its history', async () => {
+    const page = await (await get('/tasks/1/edit')).text();
+    expect(page).toContain('Fix kitchen tap');
+
+    const res = await post('/tasks/1/update', { title: 'Fix bathroom tap', category_id: '2', priority: 'low' });
+    expect(res.status).toBe(302);
+    expect(await repo.fetchTask(1, 1)).toMatchObject({ title: 'Fix bathroom tap', categoryName: 'Work' });
+    expect((await post('/tasks/1/update', { title: '' })).status).toBe(422);
+    expect((await get('/tasks/1/edit', 2)).status).toBe(404);
+  });
+
+  test('rejects a bulk action without an action', async () => {
+    const res = await post('/tasks/bulk', { ids: '1' });
+    expect(res.status).toBe(422);
+    expect(await res.text()).toContain('Action is required');
+
+    expect((await post('/tasks/bulk', { action: 'done', ids: '1,3' })).status).toBe(302);
+    expect(await repo.fetchTask(1, 3)).toMatchObject({ done: true });
+  });
+
+  test('renames and merges categories', async () => {
+    expect((await post('/categories/1/rename', { name: 'Work' })).status).toBe(409);
+    expect((await post('/categories/1/rename', { name: 'House' })).status).toBe(302);
+    expect(await repo.fetchCategory(1, 1)).toMatchObject({ name: 'House' });
+
+    expect((await post('/categories/1/merge', { target_id: '1' })).status).toBe(400);
+    expect((await post('/categories/1/merge', { target_id: '2' })).status).toBe(302);
+    expect(await repo.fetchCategory(1, 1)).toBeUndefined();
+    expect(await repo.countCategoryTasks(1, 2)).toBe(4);
+  });
+
+  test('restores and purges tasks in the trash', async () => {
+    await post('/tasks/1/delete');
+    expect(await (await get('/trash')).text()).toContain('Fix kitchen tap');
+    expect((await post('/trash/tasks/1/restore', {}, { 'X-Test-User': '2' })).status).toBe(404);
+    expect((await post('/trash/tasks/1/restore')).status).toBe(302);
+    expect(await repo.fetchTask(1, 1)).toMatchObject({ title: 'Fix kitchen tap' });
+
+    await post('/tasks/1/delete');
+    expect((await post('/trash/tasks/1/purge')).status).toBe(302);
+    expect((await post('/trash/tasks/1/restore')).status).toBe(404);
+  });
+
+  test('lists the activity log', async () => {
+    await post('/tasks/1/toggle');
+    const page = await (await get('/activity')).text();
+    expect(page).toContain('<a href="/tasks/1/edit">Task #1</a>');
+    expect(page).toContain('Done: no → yes');
+  });
+
+  test('imports the tasks of an export', async () => {
+    const exported = await (await get('/export/tasks.json')).text();
+    const other = createMemoryRepository(fixtures.empty(), { ownerId: 2 });
+    app = createApp(other, views, { auth: testAuth, log: () => {} });
+
+    const content = Buffer.from(exported).toString('base64');
+    const preview = await post('/import', { file_name: 'tasks.json', content });
+    expect(preview.status).toBe(200);
+    const res = await post('/import', { file_name: 'tasks.json', content, confirm: '1' });
+    expect(await res.text()).toContain('Import Finished');
+    expect(await other.countTasks(1)).toBe(fixtures.small().tasks.length);
+  });
+
+  test('serves calendar feeds for a token', async () => {
+    const token = await repo.createFeedToken(1);
+    const feed = await app.request(`/feeds/${token}/categories/2/tasks.ics`);
+    expect(feed.status).toBe(200);
+    const body = await feed.text();
+    expect(body).toContain('Review quarterly report');
+    expect(body).not.toContain('Fix kitchen tap');
+    expect((await app.request('/feeds/unknown/tasks.ics')).status).toBe(404);
+  });
+
+  test('validates API task titles like the task form', async () => {
+    const res = await app.request('/api/v1/tasks', {
+      method: 'POST',
+      body: JSON.stringify({ title: 'x'.repeat(501) }),
+      headers: { Cookie: 'session=test', 'Content-Type': 'application/json' },
+    });
+    expect(res.status).toBe(422);
+    expect(await res.json()).toMatchObject({ fields: { title: 'Title must be at most 500 characters' } });
+    expect((await get('/api/v1/tasks/2147483648')).status).toBe(404);
+  });
+
+  test('reports readiness from the repository', async () => {
+    expect((await get('/readyz')).status).toBe(200);
+  });
+});
@@ -0,0 +1,1087 @@
+import { Hono } from 'hono';
+import type { Context, MiddlewareHandler } from 'hono';
+import { requestId } from 'hono/request-id';
+import { streamSSE } from 'hono/streaming';
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
+import type {
+  Task,
+  NestedTask,
+  Category,
+  Tag,
+  TaskTag,
+  SubtaskAction,
+  CategoryTaskAction,
+  TaskMove,
+  BulkTaskAction,
+  CalendarTask,
+  TrashedTask,
+  TrashedCategory,
+  ActivityEntry,
+} from './db';
+import type { Repository } from './repositories/repository';
+import { parseId, returnPath, FRAGMENT_TYPE } from './utils';
+import { parseTaskQuery, parseTaskQueryFromPath, taskQueryString, TASKS_PER_PAGE } from './task-query';
+import type { TaskQuery } from './task-query';
+import { parseActivityQuery, ACTIVITY_PER_PAGE } from './activity-query';
+import type { ActivityQuery } from './activity-query';
+import { readImportFile, planImport, MAX_IMPORT_BYTES } from './import';
+import type { ImportMode, ImportPlan } from './import';
+import { toCsv } from './csv';
+import { serializeCalendar } from './ical';
+import { recurrenceFromFields } from './recurrence';
+import { onActivity } from './live';
+import { fetchMigrationStatus } from './migrations';
+import type { MigrationStatus } from './migrations';
+import { config } from './config';
+import type { MigrationMode } from './config';
+import { healthRoutes, shutdownSignal } from './server';
+import { requireUser, registerUser, authenticate, startSession, endSession, currentUser, isAdmin } from './auth';
+import type { AppEnv, User } from './auth';
+import { csrfProtection } from './csrf';
+import type { CsrfFailure } from './csrf';
+import { fail, validateForm } from './validation';
+import type { FieldErrors, FormState } from './validation';
+import { categoryForm, taskForm, tagForm, editTaskForm, bulkTaskForm } from './forms';
+import { isUniqueViolation, isCheckViolation, errorHandler, notFoundHandler } from './errors';
+import type { ErrorPage, RenderError } from './errors';
+import { requestLogging } from './logging';
+import type { Logger } from './logging';
+import { isSecure, siteOrigin } from './origin';
+import { createApi } from './api';
+
+// Live updates send the new activity entries in batches, and a comment when there are none for a while
+const HEARTBEAT_MS = 5000;
+const EVENTS_PER_BATCH = 500;
+
+const bulkTaskMessages: Record<BulkTaskAction['action'], string> = {
+  done: 'marked done',
+  open: 'marked open',
+  move: 'moved to',
+  delete: 'moved to the trash',
+};
+
+// The files of `/export/:file`, and the task fields they hold
+const exportFiles = ['tasks.csv', 'tasks.json', 'categories.csv', 'categories.json'];
+const taskExportFields = [
+  'id',
+  'title',
+  'done',
+  'createdAt',
+  'dueAt',
+  'priority',
+  'overdue',
+  'categoryId',
+  'categoryName',
+  'parentId',
+] as const;
+
+/**
+ * Who a page is rendered for: the signed-in user, if there is one, and the CSRF token its forms carry.
+ */
+export interface PageContext {
+  user?: User;
+  csrfToken: string;
+}
+
+/**
+ * Renders the pages of the task list app, and the parts of them that scripts swap in. Each entry
+ * point brings its own, written as string templates or with Preact.
+ */
+export interface Views {
+  // Forms that failed validation are shown again with the submitted input and their errors
+  home(
+    page: PageContext,
+    data: {
+      tasks: NestedTask[];
+      total: number;
+      parents: NestedTask[];
+      categories: Category[];
+      tags: Tag[];
+      query: TaskQuery;
+      forms: { task?: FormState; category?: FormState; bulk?: FormState };
+      notice?: string;
+      // Live updates start after this entry, so nothing is missed while the page loads
+      lastActivityId: number;
+    }
+  ): string;
+  auth(
+    page: PageContext,
+    data: { mode: 'login' | 'register'; email: string; error?: string; returnTo: string }
+  ): string;
+  editTask(
+    page: PageContext,
+    data: {
+      task: Task;
+      categories: Category[];
+      parents: NestedTask[];
+      tags: Tag[];
+      history: ActivityEntry[];
+      returnTo: string;
+      form?: FormState;
+    }
+  ): string;
+  deleteTask(page: PageContext, data: { task: Task; subtaskCount: number; returnTo: string }): string;
+  editCategory(
+    page: PageContext,
+    data: { category: Category; categories: Category[]; returnTo: string; form?: FormState }
+  ): string;
+  deleteCategory(
+    page: PageContext,
+    data: { category: Category; categories: Category[]; taskCount: number; returnTo: string }
+  ): string;
+  editTag(page: PageContext, data: { tag: TaskTag; returnTo: string; form?: FormState }): string;
+  activity(page: PageContext, data: { entries: ActivityEntry[]; query: ActivityQuery; total: number }): string;
+  importForm(page: PageContext, data: { error?: string }): string;
+  importPreview(
+    page: PageContext,
+    data: { plan: ImportPlan; fileName: string; content: string; mode: ImportMode }
+  ): string;
+  // `ignored` counts the rows that were skipped or rejected
+  importResult(
+    page: PageContext,
+    data: { categories: number; created: number; updated: number; ignored: number }
+  ): string;
+  calendar(page: PageContext, data: { hasToken: boolean; feedUrls?: { name: string; url: string }[] }): string;
+  trash(page: PageContext, data: { tasks: TrashedTask[]; categories: TrashedCategory[]; error?: string }): string;
+  migrations(page: PageContext, data: { migrations: MigrationStatus[]; mode: MigrationMode }): string;
+  forbidden(page: PageContext, failure: CsrfFailure): string;
+  error(page: PageContext, error: ErrorPage): string;
+  // Parts of the home page
+  categoryForm(page: PageContext, data: { returnTo: string; form?: FormState }): string;
+  categoryRow(page: PageContext, data: { category: Category; returnTo: string }): string;
+  taskForm(
+    page: PageContext,
+    data: { parents: NestedTask[]; categories: Category[]; tags: Tag[]; returnTo: string; form?: FormState }
+  ): string;
+  taskRow(page: PageContext, data: { task: NestedTask; returnTo: string }): string;
+}
+
+/**
+ * Creates the task list app: the middleware every request goes through, the pages and the JSON API,
+ * all reading and writing through the given repository. The entry point adds the static assets.
+ *
+ * @param views - Renders the pages, as string templates or with Preact.
+ * @param options.auth - Puts the signed-in user on the context, `requireUser` unless a test signs users in itself.
+ * @param options.log - Where the request log goes, stdout and stderr unless a test silences it.
+ */
+export function createApp(
+  repo: Repository,
+  views: Views,
+  options: { auth?: MiddlewareHandler<AppEnv>; log?: Logger } = {}
+): Hono<AppEnv> {
+  const app = new Hono<AppEnv>();
+
+  // Every request gets an id, sent back in X-Request-Id, and a log line once it has been answered
+  app.use('*', requestId());
+  app.use('*', requestLogging(options.log));
+
+  // Failures and unknown paths get a page, or JSON for the API, without the details of the error
+  const renderError: RenderError<AppEnv> = (c, page) => c.html(views.error(pageContext(c), page), page.status);
+  app.onError(errorHandler(renderError));
+  app.notFound(notFoundHandler(renderError));
+
+  // Everything except the login and registration pages and the health checks needs a signed-in user
+  app.use('*', options.auth ?? requireUser);
+
+  app.route(
+    '/',
+    healthRoutes(() => repo.ping())
+  );
+
+  // Form posts must carry the session's CSRF token and come from this site
+  app.use(
+    '*',
+    csrfProtection((c, failure) => c.html(views.forbidden(pageContext(c), failure), 403))
+  );
+
+  // JSON API for scripts and the mobile client
+  app.route('/api/v1', createApi(repo));
+
+  app.get('/', async (c) => {
+    return c.html(await renderHome(c, repo, views, parseTaskQuery(c.req.query()), {}, takeNotice(c)));
+  });
+
+  app.post('/categories', async (c) => {
+    const userId = c.get('user').id;
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    // Scripts get the form with its errors or the new row, to swap into the page
+    const rerender = async (form: FormState, status: 409 | 422) =>
+      wantsFragment(c)
+        ? c.html(views.categoryForm(pageContext(c), { returnTo, form }), status)
+        : c.html(await renderHome(c, repo, views, parseTaskQueryFromPath(returnTo), { category: form }), status);
+
+    const form = validateForm(categoryForm, formData);
+    if (!form.ok) {
+      return rerender(form, 422);
+    }
+
+    let id: number;
+    try {
+      id = await repo.createCategory(userId, form.values.name);
+    } catch (error) {
+      if (!isUniqueViolation(error, 'categories_name_key')) {
+        throw error;
+      }
+      return rerender({ ...form, errors: { name: `A category named "${form.values.name}" already exists` } }, 409);
+    }
+    if (wantsFragment(c)) {
+      return c.html(views.categoryRow(pageContext(c), { category: { id, name: form.values.name }, returnTo }), 201);
+    }
+    return c.redirect(returnTo);
+  });
+
+  app.get('/categories/:id/delete', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const category = id && (await repo.fetchCategory(userId, id));
+    if (!category) {
+      return c.text('Category not found', 404);
+    }
+
+    const [categories, taskCount] = await Promise.all([
+      repo.fetchCategories(userId),
+      repo.countCategoryTasks(userId, category.id),
+    ]);
+    const html = views.deleteCategory(pageContext(c), {
+      category,
+      categories,
+      taskCount,
+      returnTo: returnPath(c.req.query('return_to')),
+    });
+    return c.html(html);
+  });
+
+  app.post('/categories/:id/delete', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id) {
+      return c.text('Category not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const action = formData.get('tasks');
+    if (action !== 'reassign' && action !== 'delete' && action !== 'uncategorise') {
+      return c.text('Choose what should happen to the tasks of this category', 400);
+    }
+
+    let targetId: number | undefined;
+    if (action === 'reassign') {
+      const parsedTargetId = parseId(formData.get('target_id') as string | null);
+      const target = parsedTargetId && parsedTargetId !== id && (await repo.fetchCategory(userId, parsedTargetId));
+      if (!target) {
+        return c.text('Select another existing category to move the tasks to', 400);
+      }
+      targetId = target.id;
+    }
+
+    if (!(await repo.trashCategory(userId, id, action as CategoryTaskAction, targetId))) {
+      return c.text('Category not found', 404);
+    }
+    // The row is gone, so scripts get nothing to swap in
+    return wantsFragment(c) ? c.html('') : c.redirect(returnPath(formData.get('return_to')));
+  });
+
+  app.post('/tasks', async (c) => {
+    const userId = c.get('user').id;
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    let form = validateForm(taskForm, formData);
+    if (form.ok && form.values.category_id && !(await repo.fetchCategory(userId, form.values.category_id))) {
+      form = fail(form, { category_id: 'Selected category does not exist' });
+    }
+    if (form.ok && form.values.parent_id && !(await repo.fetchTask(userId, form.values.parent_id))) {
+      form = fail(form, { parent_id: 'Selected parent task does not exist' });
+    }
+    const rerender = async (failed: FormState) => {
+      if (wantsFragment(c)) {
+        const [parents, categories, tags] = await Promise.all([
+          repo.fetchTaskTree(userId),
+          repo.fetchCategories(userId),
+          repo.fetchTags(userId),
+        ]);
+        return c.html(views.taskForm(pageContext(c), { parents, categories, tags, returnTo, form: failed }), 422);
+      }
+      return c.html(await renderHome(c, repo, views, parseTaskQueryFromPath(returnTo), { task: failed }), 422);
+    };
+    if (!form.ok) {
+      return rerender(form);
+    }
+    const repeat = recurrenceFromFields(form.values);
+    if ('errors' in repeat) {
+      return rerender({ input: form.input, errors: repeat.errors });
+    }
+
+    const { title, category_id, due_at, priority, parent_id, tags } = form.values;
+    const id = await repo.createTask(userId, {
+      title,
+      categoryId: category_id,
+      dueAt: due_at,
+      priority,
+      parentId: parent_id,
+      tags,
+      recurrence: repeat.rule,
+    });
+    if (wantsFragment(c)) {
+      const task = (await repo.fetchNestedTask(userId, id))!;
+      return c.html(views.taskRow(pageContext(c), { task, returnTo }), 201);
+    }
+    return c.redirect(returnTo);
+  });
+
+  app.post('/tasks/:id/toggle', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const formData = await c.req.formData();
+    if (!id || !(await repo.toggleTask(userId, id))) {
+      return c.text('Task not found', 404);
+    }
+    return taskRowOrRedirect(c, repo, views, id, returnPath(formData.get('return_to')));
+  });
+
+  app.get('/tasks/:id/delete', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    if (!task) {
+      return c.text('Task not found', 404);
+    }
+
+    const html = views.deleteTask(pageContext(c), {
+      task,
+      subtaskCount: await repo.countSubtasks(userId, task.id),
+      returnTo: returnPath(c.req.query('return_to')),
+    });
+    return c.html(html);
+  });
+
+  // Subtasks are promoted to the task's parent unless the form asks for them to be deleted as well
+  app.post('/tasks/:id/delete', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const formData = await c.req.formData();
+    const subtasks: SubtaskAction = formData.get('subtasks') === 'delete' ? 'delete' : 'promote';
+    if (!id || !(await repo.trashTask(userId, id, subtasks))) {
+      return c.text('Task not found', 404);
+    }
+    return wantsFragment(c) ? c.html('') : c.redirect(returnPath(formData.get('return_to')));
+  });
+
+  // Account routes: these are the only pages reachable without a session
+  app.get('/login', async (c) => {
+    const returnTo = returnPath(c.req.query('return_to'));
+    if (await currentUser(c)) {
+      return c.redirect(returnTo);
+    }
+    return c.html(views.auth(pageContext(c), { mode: 'login', email: '', returnTo }));
+  });
+
+  app.post('/login', async (c) => {
+    const formData = await c.req.formData();
+    const email = String(formData.get('email') ?? '')
+      .trim()
+      .toLowerCase();
+    const password = String(formData.get('password') ?? '');
+    const returnTo = returnPath(formData.get('return_to'));
+
+    const user = await authenticate(email, password);
+    if (!user) {
+      const html = views.auth(pageContext(c), { mode: 'login', email, error: 'Invalid email or password', returnTo });
+      return c.html(html, 401);
+    }
+
+    await startSession(c, user);
+    return c.redirect(returnTo);
+  });
+
+  app.get('/register', async (c) => {
+    const returnTo = returnPath(c.req.query('return_to'));
+    return c.html(views.auth(pageContext(c), { mode: 'register', email: '', returnTo }));
+  });
+
+  app.post('/register', async (c) => {
+    const formData = await c.req.formData();
+    const email = String(formData.get('email') ?? '')
+      .trim()
+      .toLowerCase();
+    const password = String(formData.get('password') ?? '');
+    const returnTo = returnPath(formData.get('return_to'));
+
+    const fail = (error: string, status: 400 | 409) =>
+      c.html(views.auth(pageContext(c), { mode: 'register', email, error, returnTo }), status);
+
+    if (!/^[^\s@]+@[^\s@]+$/.test(email) || email.length > 255) {
+      return fail('Enter a valid email address', 400);
+    }
+    if (password.length < 8) {
+      return fail('Password must be at least 8 characters', 400);
+    }
+
+    try {
+      const user = await registerUser(email, password);
+      await startSession(c, user);
+      return c.redirect(returnTo);
+    } catch (error) {
+      if (isUniqueViolation(error, 'users_email_key')) {
+        return fail('An account with this email already exists', 409);
+      }
+      throw error;
+    }
+  });
+
+  app.post('/logout', async (c) => {
+    await endSession(c);
+    return c.redirect('/login');
+  });
+
+  // Live updates: streams the ids of the user's new activity entries, so open pages can refresh.
+  // Reconnecting browsers send the last id they saw in `Last-Event-ID` and get what they missed.
+  app.get('/events', (c) => {
+    const userId = c.get('user').id;
+    let lastId = parseId(c.req.header('Last-Event-ID') ?? c.req.query('after')) ?? 0;
+
+    return streamSSE(c, async (stream) => {
+      let pending = true;
+      let wake: (() => void) | null = null;
+      const unsubscribe = onActivity(userId, () => {
+        pending = true;
+        wake?.();
+      });
+      // Open streams would keep a shutdown waiting; browsers reconnect to another server with Last-Event-ID
+      const stop = () => wake?.();
+      shutdownSignal.addEventListener('abort', stop);
+      stream.onAbort(() => {
+        unsubscribe();
+        shutdownSignal.removeEventListener('abort', stop);
+        wake?.();
+      });
+
+      while (!stream.aborted && !shutdownSignal.aborted) {
+        if (pending) {
+          pending = false;
+          const entries = await repo.fetchActivitySince(userId, lastId, EVENTS_PER_BATCH);
+          for (const entry of entries) {
+            await stream.writeSSE({
+              id: String(entry.id),
+              event: 'change',
+              data: JSON.stringify({ entity: entry.entity, entityId: entry.entityId, action: entry.action }),
+            });
+            lastId = entry.id;
+          }
+          pending ||= entries.length === EVENTS_PER_BATCH;
+          continue;
+        }
+        // Comments keep the connection from being closed as idle by the server and proxies
+        await new Promise<void>((resolve) => {
+          const timer = setTimeout(resolve, HEARTBEAT_MS);
+          wake = () => {
+            clearTimeout(timer);
+            resolve();
+          };
+        });
+        wake = null;
+        if (!pending && !stream.aborted && !shutdownSignal.aborted) {
+          await stream.write(': keep-alive\n\n');
+        }
+      }
+    });
+  });
+
+  app.get('/categories/:id/edit', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const category = id && (await repo.fetchCategory(userId, id));
+    if (!category) {
+      return c.text('Category not found', 404);
+    }
+
+    const categories = await repo.fetchCategories(userId);
+    const html = views.editCategory(pageContext(c), {
+      category,
+      categories,
+      returnTo: returnPath(c.req.query('return_to')),
+    });
+    return c.html(html);
+  });
+
+  app.post('/categories/:id/rename', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const category = id && (await repo.fetchCategory(userId, id));
+    if (!category) {
+      return c.text('Category not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    const rerender = async (form: FormState, status: 409 | 422) =>
+      c.html(
+        views.editCategory(pageContext(c), {
+          category,
+          categories: await repo.fetchCategories(userId),
+          returnTo,
+          form,
+        }),
+        status
+      );
+
+    const form = validateForm(categoryForm, formData);
+    if (!form.ok) {
+      return rerender(form, 422);
+    }
+
+    try {
+      if (!(await repo.updateCategory(userId, category.id, form.values.name))) {
+        return c.text('Category not found', 404);
+      }
+    } catch (error) {
+      if (!isUniqueViolation(error, 'categories_name_key')) {
+        throw error;
+      }
+      return rerender({ ...form, errors: { name: `A category named "${form.values.name}" already exists` } }, 409);
+    }
+    return c.redirect(returnTo);
+  });
+
+  app.post('/categories/:id/merge', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id) {
+      return c.text('Category not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const targetId = parseId(formData.get('target_id') as string | null);
+    const target = targetId && targetId !== id && (await repo.fetchCategory(userId, targetId));
+    if (!target) {
+      return c.text('Select another existing category to merge into', 400);
+    }
+
+    if ((await repo.mergeCategory(userId, id, target.id)) === null) {
+      return c.text('Category not found', 404);
+    }
+    return c.redirect(returnPath(formData.get('return_to')));
+  });
+
+  app.get('/tasks/:id/edit', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    if (!task) {
+      return c.text('Task not found', 404);
+    }
+
+    const [categories, parents, tags, history] = await Promise.all([
+      repo.fetchCategories(userId),
+      repo.fetchTaskTree(userId),
+      repo.fetchTags(userId),
+      repo.fetchTaskHistory(userId, task.id),
+    ]);
+    const html = views.editTask(pageContext(c), {
+      task,
+      categories,
+      parents,
+      tags,
+      history,
+      returnTo: returnPath(c.req.query('return_to')),
+    });
+    return c.html(html);
+  });
+
+  app.post('/tasks/:id/update', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    if (!task) {
+      return c.text('Task not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    let form = validateForm(editTaskForm, formData);
+    if (form.ok && form.values.category_id && !(await repo.fetchCategory(userId, form.values.category_id))) {
+      form = fail(form, { category_id: 'Selected category does not exist' });
+    }
+    if (form.ok && form.values.parent_id && !(await repo.fetchTask(userId, form.values.parent_id))) {
+      form = fail(form, { parent_id: 'Selected parent task does not exist' });
+    }
+    const renderForm = async (errors: FieldErrors) => {
+      const [categories, parents, tags, history] = await Promise.all([
+        repo.fetchCategories(userId),
+        repo.fetchTaskTree(userId),
+        repo.fetchTags(userId),
+        repo.fetchTaskHistory(userId, task.id),
+      ]);
+      const html = views.editTask(pageContext(c), {
+        task,
+        categories,
+        parents,
+        tags,
+        history,
+        returnTo,
+        form: { input: form.input, errors },
+      });
+      return c.html(html, 422);
+    };
+    if (!form.ok) {
+      return renderForm(form.errors);
+    }
+    const repeat = recurrenceFromFields(form.values);
+    if ('errors' in repeat) {
+      return renderForm(repeat.errors);
+    }
+
+    const { title, category_id, due_at, priority, parent_id, tags, done, complete_with_subtasks } = form.values;
+    try {
+      const updated = await repo.updateTask(userId, task.id, {
+        title,
+        categoryId: category_id,
+        dueAt: due_at,
+        priority,
+        parentId: parent_id,
+        tags,
+        recurrence: repeat.rule,
+        done,
+        completeWithSubtasks: complete_with_subtasks,
+      });
+      if (!updated) {
+        return c.text('Task not found', 404);
+      }
+    } catch (error) {
+      if (isCheckViolation(error, 'tasks_parent_id_cycle')) {
+        return renderForm({ parent_id: 'A task cannot be a subtask of one of its own subtasks' });
+      }
+      throw error;
+    }
+    return c.redirect(returnTo);
+  });
+
+  app.post('/tasks/:id/stop-repeating', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const formData = await c.req.formData();
+    if (!id || !(await repo.updateTask(userId, id, { recurrence: null }))) {
+      return c.text('Task not found', 404);
+    }
+    return taskRowOrRedirect(c, repo, views, id, returnPath(formData.get('return_to')));
+  });
+
+  // Applies an action to the selected tasks, or to every task matching the filters of the list it was sent from
+  app.post('/tasks/bulk', async (c) => {
+    const userId = c.get('user').id;
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    let form = validateForm(bulkTaskForm, formData);
+    if (form.ok && !form.values.all && form.values.ids.length === 0) {
+      form = fail(form, { ids: 'Select at least one task, or all tasks matching the filters' });
+    }
+    const category =
+      form.ok && form.values.action === 'move' && form.values.category_id
+        ? await repo.fetchCategory(userId, form.values.category_id)
+        : undefined;
+    if (form.ok && form.values.action === 'move' && !category) {
+      form = fail(form, { category_id: 'Choose an existing category to move the tasks to' });
+    }
+    if (!form.ok) {
+      return c.html(await renderHome(c, repo, views, parseTaskQueryFromPath(returnTo), { bulk: form }), 422);
+    }
+
+    const { action, ids, all } = form.values;
+    const change: BulkTaskAction = action === 'move' ? { action, categoryId: category!.id } : { action };
+    // Pages do not matter for the selection
+    const selection = all ? { query: { ...parseTaskQueryFromPath(returnTo), page: 1 } } : { ids };
+    const changed = await repo.bulkUpdateTasks(userId, selection, change);
+
+    const count = `${changed} ${changed === 1 ? 'task was' : 'tasks were'}`;
+    setNotice(c, `${count} ${bulkTaskMessages[action]}${category ? ` ${category.name}` : ''}.`);
+    return c.redirect(returnTo);
+  });
+
+  // Moves a task in the manual order: up or down with the buttons of its row, or in front of another
+  // task or to the end of a category when it is dragged
+  app.post('/tasks/:id/move', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const task = id && (await repo.fetchTask(userId, id));
+    if (!task) {
+      return c.text('Task not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const direction = formData.get('direction');
+    const beforeId = parseId(formData.get('before_id') as string | null);
+    const categoryId = formData.get('category_id');
+    let move: TaskMove;
+    if (direction === 'up' || direction === 'down') {
+      move = { direction };
+    } else if (beforeId) {
+      const before = await repo.fetchTask(userId, beforeId);
+      if (!before || before.id === task.id || before.parentId !== task.parentId) {
+        return c.text('Tasks can only be moved in front of another task with the same parent', 400);
+      }
+      move = { beforeId };
+    } else if (typeof categoryId === 'string') {
+      // An empty category is the list of tasks without one
+      const parsedCategoryId = parseId(categoryId);
+      if (categoryId !== '' && !(parsedCategoryId && (await repo.fetchCategory(userId, parsedCategoryId)))) {
+        return c.text('Category not found', 400);
+      }
+      move = { categoryId: parsedCategoryId };
+    } else {
+      return c.text('Choose where to move the task', 400);
+    }
+
+    if (!(await repo.moveTask(userId, task.id, move))) {
+      return c.text('Task not found', 404);
+    }
+    return taskRowOrRedirect(c, repo, views, task.id, returnPath(formData.get('return_to')));
+  });
+
+  // Tags are created from the task forms, so only renaming and deleting have routes of their own
+  app.get('/tags/:id/edit', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const tag = id && (await repo.fetchTag(userId, id));
+    if (!tag) {
+      return c.text('Tag not found', 404);
+    }
+
+    return c.html(views.editTag(pageContext(c), { tag, returnTo: returnPath(c.req.query('return_to')) }));
+  });
+
+  app.post('/tags/:id/rename', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const tag = id && (await repo.fetchTag(userId, id));
+    if (!tag) {
+      return c.text('Tag not found', 404);
+    }
+
+    const formData = await c.req.formData();
+    const returnTo = returnPath(formData.get('return_to'));
+    const rerender = (form: FormState, status: 409 | 422) =>
+      c.html(views.editTag(pageContext(c), { tag, returnTo, form }), status);
+
+    const form = validateForm(tagForm, formData);
+    if (!form.ok) {
+      return rerender(form, 422);
+    }
+    // Tags are entered as a comma-separated list, so a comma would split the name
+    if (form.values.name.includes(',')) {
+      return rerender({ ...form, errors: { name: 'Tag name cannot contain commas' } }, 422);
+    }
+
+    try {
+      if (!(await repo.renameTag(userId, tag.id, form.values.name))) {
+        return c.text('Tag not found', 404);
+      }
+    } catch (error) {
+      if (!isUniqueViolation(error, 'tags_name_key')) {
+        throw error;
+      }
+      return rerender({ ...form, errors: { name: `A tag named "${form.values.name}" already exists` } }, 409);
+    }
+    return c.redirect(returnTo);
+  });
+
+  app.post('/tags/:id/delete', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    const formData = await c.req.formData();
+    if (!id || !(await repo.deleteTag(userId, id))) {
+      return c.text('Tag not found', 404);
+    }
+    return wantsFragment(c) ? c.html('') : c.redirect(returnPath(formData.get('return_to')));
+  });
+
+  // Activity log
+  app.get('/activity', async (c) => {
+    const userId = c.get('user').id;
+    const query = parseActivityQuery(c.req.query());
+    const [entries, total] = await Promise.all([
+      repo.fetchActivity(userId, query, ACTIVITY_PER_PAGE),
+      repo.countActivity(userId, query),
+    ]);
+    return c.html(views.activity(pageContext(c), { entries, query, total }));
+  });
+
+  // Export and import
+  // Exports all tasks, or those matching the list filters in the query string, and all categories
+  app.get('/export/:file', async (c) => {
+    const userId = c.get('user').id;
+    const file = c.req.param('file');
+    if (!exportFiles.includes(file)) {
+      return c.text('Export not found', 404);
+    }
+
+    const [name, format] = file.split('.');
+    const rows: object[] =
+      name === 'tasks'
+        ? await repo.fetchTasks(userId, parseTaskQuery(c.req.query()))
+        : await repo.fetchCategories(userId);
+    const fields = name === 'tasks' ? taskExportFields : (['id', 'name'] as const);
+
+    c.header(
+      'Content-Disposition',
+      `attachment; filename="${name}-${new Date().toISOString().slice(0, 10)}.${format}"`
+    );
+    if (format === 'json') {
+      return c.json(rows);
+    }
+    c.header('Content-Type', 'text/csv; charset=utf-8');
+    return c.body(
+      toCsv([
+        [...fields],
+        ...rows.map((row) => fields.map((field) => (row as Record<string, string | number | boolean | null>)[field])),
+      ])
+    );
+  });
+
+  app.get('/import', (c) => {
+    return c.html(views.importForm(pageContext(c), {}));
+  });
+
+  // The upload shows a preview; the preview form posts the file content back with `confirm` to import it
+  app.post('/import', async (c) => {
+    const userId = c.get('user').id;
+    const formData = await c.req.formData();
+    const file = formData.get('file');
+    const mode: ImportMode = formData.get('mode') === 'update' ? 'update' : 'skip';
+
+    const fail = (error: string, status: 400 | 409 | 413) =>
+      c.html(views.importForm(pageContext(c), { error }), status);
+
+    let fileName: string;
+    let content: string;
+    if (file instanceof File) {
+      if (file.size > MAX_IMPORT_BYTES) {
+        return fail(`The file is larger than ${MAX_IMPORT_BYTES / 1024 / 1024} MB`, 413);
+      }
+      fileName = file.name;
+      content = await file.text();
+    } else {
+      fileName = String(formData.get('file_name') ?? '');
+      content = Buffer.from(String(formData.get('content') ?? ''), 'base64').toString();
+    }
+    if (content.trim() === '') {
+      return fail('Choose a CSV or JSON file to import', 400);
+    }
+
+    const read = readImportFile(fileName, content);
+    if ('error' in read) {
+      return fail(read.error, 400);
+    }
+    const [tasks, categories] = await Promise.all([repo.fetchTasks(userId), repo.fetchCategories(userId)]);
+    const plan = planImport(read.kind, read.records, mode, { tasks, categories });
+
+    if (formData.get('confirm') !== '1') {
+      return c.html(views.importPreview(pageContext(c), { plan, fileName, content, mode }));
+    }
+
+    try {
+      const result = await repo.applyImport(userId, plan);
+      const html = views.importResult(pageContext(c), {
+        ...result,
+        ignored: plan.rejected.length + plan.skipped.length,
+      });
+      return c.html(html);
+    } catch (error) {
+      if (isUniqueViolation(error, 'categories_name_key')) {
+        return fail('A category from the file was created in the meantime. Upload the file again.', 409);
+      }
+      throw error;
+    }
+  });
+
+  // Calendar feeds
+  app.get('/calendar', async (c) => {
+    return c.html(views.calendar(pageContext(c), { hasToken: await repo.hasFeedToken(c.get('user').id) }));
+  });
+
+  // Renders the links instead of redirecting, so the token never ends up in a URL of the app itself
+  app.post('/calendar/token', async (c) => {
+    const userId = c.get('user').id;
+    const [token, categories] = await Promise.all([repo.createFeedToken(userId), repo.fetchCategories(userId)]);
+    const base = `${siteOrigin(c)}/feeds/${token}`;
+    const feedUrls = [
+      { name: 'All tasks', url: `${base}/tasks.ics` },
+      ...categories.map((category) => ({ name: category.name, url: `${base}/categories/${category.id}/tasks.ics` })),
+    ];
+    return c.html(views.calendar(pageContext(c), { hasToken: true, feedUrls }));
+  });
+
+  app.post('/calendar/token/revoke', async (c) => {
+    await repo.revokeFeedToken(c.get('user').id);
+    return c.redirect('/calendar');
+  });
+
+  // Feeds are public paths: the token in the URL takes the place of a session
+  app.get('/feeds/:token/tasks.ics', async (c) => {
+    const ownerId = await repo.feedTokenOwner(c.req.param('token'));
+    if (!ownerId) {
+      return c.text('Feed not found', 404);
+    }
+    return calendarResponse(c, 'Tasks', await repo.fetchCalendarTasks(ownerId, null));
+  });
+
+  app.get('/feeds/:token/categories/:id/tasks.ics', async (c) => {
+    const ownerId = await repo.feedTokenOwner(c.req.param('token'));
+    const id = parseId(c.req.param('id'));
+    const category = ownerId && id && (await repo.fetchCategory(ownerId, id));
+    if (!ownerId || !category) {
+      return c.text('Feed not found', 404);
+    }
+    return calendarResponse(c, `Tasks: ${category.name}`, await repo.fetchCalendarTasks(ownerId, category.id));
+  });
+
+  // Trash routes
+  app.get('/trash', async (c) => {
+    return c.html(await renderTrash(c, repo, views));
+  });
+
+  app.post('/trash/tasks/:id/restore', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id || !(await repo.restoreTask(userId, id))) {
+      return c.text('Task not found in the trash', 404);
+    }
+    return c.redirect('/trash');
+  });
+
+  app.post('/trash/tasks/:id/purge', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id || !(await repo.purgeTask(userId, id))) {
+      return c.text('Task not found in the trash', 404);
+    }
+    return c.redirect('/trash');
+  });
+
+  app.post('/trash/categories/:id/restore', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    try {
+      if (!id || !(await repo.restoreCategory(userId, id))) {
+        return c.text('Category not found in the trash', 404);
+      }
+    } catch (error) {
+      if (!isUniqueViolation(error, 'categories_name_key')) {
+        throw error;
+      }
+      const message = 'Another category has the same name. Rename that category first, then restore this one.';
+      return c.html(await renderTrash(c, repo, views, message), 409);
+    }
+    return c.redirect('/trash');
+  });
+
+  app.post('/trash/categories/:id/purge', async (c) => {
+    const userId = c.get('user').id;
+    const id = parseId(c.req.param('id'));
+    if (!id || !(await repo.purgeCategory(userId, id))) {
+      return c.text('Category not found in the trash', 404);
+    }
+    return c.redirect('/trash');
+  });
+
+  app.post('/trash/empty', async (c) => {
+    await repo.emptyTrash(c.get('user').id);
+    return c.redirect('/trash');
+  });
+
+  // Admin
+  // Lists the migrations in drizzle/ and which of them the database has, for the accounts in ADMIN_EMAILS
+  app.get('/admin/migrations', async (c) => {
+    if (!isAdmin(c.get('user'))) {
+      return c.text('Only administrators can see this page', 403);
+    }
+    return c.html(
+      views.migrations(pageContext(c), { migrations: await fetchMigrationStatus(), mode: config.migrations })
+    );
+  });
+
+  return app;
+}
+
+// Errors can happen before requireUser and csrfProtection have run, so there may be no user or token yet
+function pageContext(c: Context<AppEnv>): PageContext {
+  return { user: c.get('user'), csrfToken: c.get('csrfToken') ?? '' };
+}
+
+/**
+ * Whether a request asks for just the part of the page it changed, such as a single table row,
+ * instead of the redirect that plain form posts get. htmx sends `HX-Request: true`.
+ */
+export function wantsFragment(c: Context<AppEnv>): boolean {
+  return c.req.header('HX-Request') === 'true' || (c.req.header('Accept') ?? '').includes(FRAGMENT_TYPE);
+}
+
+/**
+ * Renders the home page for a task list query. Forms that failed validation are shown again
+ * with the submitted input and their errors.
+ */
+export async function renderHome(
+  c: Context<AppEnv>,
+  repo: Repository,
+  views: Views,
+  query: TaskQuery,
+  forms: { task?: FormState; category?: FormState; bulk?: FormState } = {},
+  notice?: string
+): Promise<string> {
+  const userId = c.get('user').id;
+  const [tasks, total, parents, categories, tags, lastActivityId] = await Promise.all([
+    repo.fetchTaskTree(userId, query, TASKS_PER_PAGE),
+    repo.countTaskTrees(userId, query),
+    repo.fetchTaskTree(userId),
+    repo.fetchCategories(userId),
+    repo.fetchTags(userId),
+    repo.latestActivityId(userId),
+  ]);
+  return views.home(pageContext(c), { tasks, total, parents, categories, tags, query, forms, notice, lastActivityId });
+}
+
+/**
+ * Renders the trash page, optionally with an error about the last action.
+ */
+async function renderTrash(c: Context<AppEnv>, repo: Repository, views: Views, error?: string): Promise<string> {
+  await repo.purgeExpiredTrash();
+  const trash = await repo.fetchTrash(c.get('user').id);
+  return views.trash(pageContext(c), { ...trash, error });
+}
+
+function calendarResponse(c: Context<AppEnv>, name: string, tasks: CalendarTask[]): Response {
+  c.header('Content-Type', 'text/calendar; charset=utf-8');
+  c.header('Cache-Control', 'private, no-cache');
+  return c.body(serializeCalendar(tasks, { name, host: new URL(c.req.url).hostname }));
+}
+
+// Scripts get the changed row, so that they do not need to reload the task list
+export async function taskRowOrRedirect(
+  c: Context<AppEnv>,
+  repo: Repository,
+  views: Views,
+  id: number,
+  returnTo: string
+): Promise<Response> {
+  const task = wantsFragment(c) && (await repo.fetchNestedTask(c.get('user').id, id));
+  return task ? c.html(views.taskRow(pageContext(c), { task, returnTo })) : c.redirect(returnTo);
+}
+
+// A message for the page a form redirects to, like the outcome of a bulk action. It is shown once.
+const NOTICE_COOKIE = 'notice';
+
+export function setNotice(c: Context, message: string): void {
+  setCookie(c, NOTICE_COOKIE, message, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure: isSecure(c),
+  });
+}
+
+function takeNotice(c: Context): string | undefined {
+  const message = getCookie(c, NOTICE_COOKIE);
+  if (message !== undefined) {
+    deleteCookie(c, NOTICE_COOKIE, { path: '/' });
+  }
+  return message;
+}
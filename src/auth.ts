@@ -0,0 +1,206 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { getCookie, setCookie, deleteCookie } from 'hono/cookie';
+import { and, eq, gt, isNull, isNotNull, lte, sql } from 'drizzle-orm';
+import { users, sessions, tasks, categories } from '../drizzle/schema';
+import { db } from './db';
+import { withReturnTo } from './utils';
+import { config } from './config';
+import { isSecure } from './origin';
+import { generateToken, hashToken } from './tokens';
+
+export interface User {
+  id: number;
+  email: string;
+}
+
+/**
+ * Hono environment for routes behind `requireUser`, which puts the signed-in user on the context,
+ * `csrfProtection`, which puts the CSRF token for the forms there, and Hono's `requestId`.
+ */
+export type AppEnv = { Variables: { user: User; csrfToken: string; requestId: string } };
+
+export const SESSION_COOKIE = 'session';
+const SESSION_DAYS = 30;
+
+// Paths that can be reached without signing in. Calendar feeds authenticate with the token in their URL,
+// the browser scripts under /assets hold nothing private, and load balancers check the health endpoints.
+const publicPaths = ['/login', '/register', '/healthz', '/readyz'];
+const publicPrefixes = ['/feeds/', '/assets/'];
+
+/**
+ * Checks whether a user is one of the administrators named in `ADMIN_EMAILS`.
+ */
+export function isAdmin(user: User): boolean {
+  return config.adminEmails.includes(user.email.toLowerCase());
+}
+
+/**
+ * Creates an account with a hashed password. The very first account adopts the tasks and
+ * categories that were created before accounts existed, so existing data is not lost.
+ *
+ * @returns {Promise<User>} The new user. Throws a unique violation if the email is taken.
+ */
+export async function registerUser(email: string, password: string): Promise<User> {
+  const passwordHash = await Bun.password.hash(password);
+
+  return db.transaction(async (tx) => {
+    const [user] = await tx
+      .insert(users)
+      .values({ email, passwordHash })
+      .returning({ id: users.id, email: users.email });
+
+    const [{ total }] = await tx.select({ total: sql<number>`count(*)::int` }).from(users);
+    if (total === 1) {
+      await tx.update(categories).set({ ownerId: user.id }).where(isNull(categories.ownerId));
+      await tx.update(tasks).set({ ownerId: user.id }).where(isNull(tasks.ownerId));
+    }
+
+    return user;
+  });
+}
+
+/**
+ * Looks up an account by email address.
+ */
+export async function findUser(email: string): Promise<User | null> {
+  const [row] = await db.select({ id: users.id, email: users.email }).from(users).where(eq(users.email, email));
+  return row ?? null;
+}
+
+/**
+ * Checks an email and password.
+ *
+ * @returns {Promise<User | null>} The user, or `null` if the credentials do not match.
+ */
+export async function authenticate(email: string, password: string): Promise<User | null> {
+  const [user] = await db.select().from(users).where(eq(users.email, email));
+  if (!user || !(await Bun.password.verify(password, user.passwordHash))) {
+    return null;
+  }
+  return { id: user.id, email: user.email };
+}
+
+/**
+ * Starts a session for a user and sets the session cookie. Only a hash of the cookie value
+ * is stored, so the sessions table cannot be used to impersonate anyone. Expired sessions
+ * are cleaned up at the same time.
+ */
+export async function startSession(c: Context, user: User): Promise<void> {
+  const token = generateToken();
+  const expiresAt = new Date(Date.now() + SESSION_DAYS * 24 * 60 * 60 * 1000);
+
+  await db.delete(sessions).where(lte(sessions.expiresAt, sql`now()`));
+  await db.insert(sessions).values({
+    id: hashToken(token),
+    userId: user.id,
+    expiresAt: sql`now() + make_interval(days => ${SESSION_DAYS})`,
+  });
+
+  setCookie(c, SESSION_COOKIE, token, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure: isSecure(c),
+    expires: expiresAt,
+  });
+}
+
+/**
+ * Ends the current session, if any, and clears the session cookie.
+ */
+export async function endSession(c: Context): Promise<void> {
+  const token = getCookie(c, SESSION_COOKIE);
+  if (token) {
+    await db.delete(sessions).where(eq(sessions.id, hashToken(token)));
+  }
+  deleteCookie(c, SESSION_COOKIE, { path: '/' });
+}
+
+/**
+ * Looks up the user of the session cookie.
+ *
+ * @returns {Promise<User | null>} The signed-in user, or `null` without a valid session.
+ */
+export async function currentUser(c: Context): Promise<User | null> {
+  const token = getCookie(c, SESSION_COOKIE);
+  if (!token) {
+    return null;
+  }
+
+  const [row] = await db
+    .select({ id: users.id, email: users.email })
+    .from(sessions)
+    .innerJoin(users, eq(sessions.userId, users.id))
+    .where(and(eq(sessions.id, hashToken(token)), gt(sessions.expiresAt, sql`now()`)));
+
+  return row ?? null;
+}
+
+/**
+ * Creates a new calendar feed token for a user, replacing (and so revoking) any previous one.
+ * Only its hash is stored, so the token can only be shown once.
+ *
+ * @returns {Promise<string>} The new token.
+ */
+export async function createFeedToken(userId: number): Promise<string> {
+  const token = generateToken();
+  await db
+    .update(users)
+    .set({ feedTokenHash: hashToken(token) })
+    .where(eq(users.id, userId));
+  return token;
+}
+
+/**
+ * Revokes a user's calendar feed token, so the feed URLs stop working.
+ */
+export async function revokeFeedToken(userId: number): Promise<void> {
+  await db.update(users).set({ feedTokenHash: null }).where(eq(users.id, userId));
+}
+
+/**
+ * Checks whether a user has a calendar feed token.
+ */
+export async function hasFeedToken(userId: number): Promise<boolean> {
+  const [row] = await db
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.id, userId), isNotNull(users.feedTokenHash)));
+  return row !== undefined;
+}
+
+/**
+ * Looks up the user of a calendar feed token.
+ *
+ * @returns {Promise<User | null>} The user, or `null` if the token is unknown or revoked.
+ */
+export async function feedTokenUser(token: string): Promise<User | null> {
+  const [row] = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(eq(users.feedTokenHash, hashToken(token)));
+  return row ?? null;
+}
+
+/**
+ * Middleware that only lets signed-in users through. Pages redirect to the login form and come
+ * back afterwards; API requests get a 401 JSON response.
+ */
+export const requireUser: MiddlewareHandler<AppEnv> = async (c, next) => {
+  if (publicPaths.includes(c.req.path) || publicPrefixes.some((prefix) => c.req.path.startsWith(prefix))) {
+    return next();
+  }
+
+  const user = await currentUser(c);
+  if (user) {
+    c.set('user', user);
+    return next();
+  }
+
+  if (c.req.path.startsWith('/api/')) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  const url = new URL(c.req.url);
+  return c.redirect(withReturnTo('/login', c.req.method === 'GET' ? url.pathname + url.search : '/'));
+};
@@ -0,0 +1,1466 @@
+import { render } from 'preact-render-to-string';
+import { createContext } from 'preact';
+import type { ComponentChildren, JSX, VNode } from 'preact';
+import { useContext } from 'preact/hooks';
+import { taskPriorities, TRASH_RETENTION_DAYS } from './db';
+import type {
+  Task,
+  NestedTask,
+  Category,
+  Tag,
+  TaskTag,
+  TaskPriority,
+  TrashedTask,
+  TrashedCategory,
+  ActivityEntry,
+} from './db';
+import { withReturnTo, toDateTimeLocal } from './utils';
+import { parseTaskQueryFromPath, taskQueryString, defaultTaskQuery, TASKS_PER_PAGE } from './task-query';
+import type { TaskQuery } from './task-query';
+import { activityQueryString, activityActions, describeActivity, ACTIVITY_PER_PAGE } from './activity-query';
+import type { ActivityQuery } from './activity-query';
+import type { ImportMode, ImportPlan, ImportRowNote } from './import';
+import { describeRecurrence, recurrenceInput, weekdayNames } from './recurrence';
+import { Island } from './islands/island';
+import { isAdmin } from './auth';
+import type { User } from './auth';
+import { CSRF_FIELD } from './csrf';
+import type { CsrfFailure } from './csrf';
+import type { FieldErrors, FormState } from './validation';
+import type { ErrorPage } from './errors';
+import type { MigrationStatus } from './migrations';
+import type { MigrationMode } from './config';
+import type { PageContext, Views } from './app';
+
+// The CSRF token of the current session, provided by `Layout` to every `PostForm` on the page
+const CsrfToken = createContext('');
+
+/**
+ * A form that posts to the app. It carries the CSRF token, without which `csrfProtection` rejects it.
+ */
+const PostForm = ({ children, ...props }: JSX.IntrinsicElements['form'] & { children: ComponentChildren }) => (
+  <form {...props} method="post">
+    <input type="hidden" name={CSRF_FIELD} value={useContext(CsrfToken)} />
+    {children}
+  </form>
+);
+
+const Layout = ({ children, user, csrfToken }: { children: VNode<any>; user?: User; csrfToken: string }) => (
+  <CsrfToken.Provider value={csrfToken}>
+    <html>
+      <head>
+        <title>Task Manager</title>
+        <script type="module" src="/assets/islands/client.js" />
+      </head>
+      <body>
+        {user && (
+          <div style="display: flex; gap: 8px; align-items: center; justify-content: flex-end;">
+            <a href="/">Tasks</a>
+            <a href="/trash">Trash</a>
+            <a href="/activity">Activity</a>
+            <a href="/import">Import</a>
+            <a href="/calendar">Calendar</a>
+            {isAdmin(user) && <a href="/admin/migrations">Migrations</a>}
+            <span>Signed in as {user.email}</span>
+            <PostForm action="/logout" style="margin: 0;">
+              <button type="submit">Log out</button>
+            </PostForm>
+          </div>
+        )}
+        <div style="display: flex; gap: 40px;">{children}</div>
+      </body>
+    </html>
+  </CsrfToken.Provider>
+);
+
+// Hidden field that tells the form routes where to redirect back to
+const ReturnTo = ({ path }: { path: string }) => <input type="hidden" name="return_to" value={path} />;
+
+const FieldError = ({ error }: { error?: string }) =>
+  error ? <div style="color: #b00020; font-size: 0.9em;">{error}</div> : null;
+
+const csrfMessages: Record<CsrfFailure, string> = {
+  'cross-origin': 'The form was sent from another website.',
+  'unknown-origin': 'The browser did not say which website the form was sent from.',
+  'missing-token': 'The form did not include its security token.',
+  'invalid-token':
+    'The security token of the form has expired, for example because you signed in or out since opening it.',
+};
+
+const Forbidden = ({ failure }: { failure: CsrfFailure }) => (
+  <div>
+    <h1>Request blocked</h1>
+    <p>{csrfMessages[failure]}</p>
+    <p>
+      Nothing was changed. <a href="/">Go back to your tasks</a>, reload the page and try again.
+    </p>
+  </div>
+);
+
+const ErrorMessage = ({ page }: { page: ErrorPage }) => (
+  <div>
+    <h1>{page.title}</h1>
+    <p>{page.message}</p>
+    {page.requestId && <p style="color: #666;">Reference: {page.requestId}</p>}
+    <a href="/">Go back to your tasks</a>
+  </div>
+);
+
+const AuthForm = ({
+  mode,
+  email,
+  error,
+  returnTo,
+}: {
+  mode: 'login' | 'register';
+  email: string;
+  error?: string;
+  returnTo: string;
+}) => (
+  <div class="auth-form">
+    <h2>{mode === 'login' ? 'Log in' : 'Create an account'}</h2>
+    {error && <p style="color: #b00020;">{error}</p>}
+    <PostForm action={`/${mode}`} style="margin: 20px 0;">
+      <ReturnTo path={returnTo} />
+      <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+        <input type="email" name="email" value={email} placeholder="Email" required style="padding: 4px 8px;" />
+        <input
+          type="password"
+          name="password"
+          placeholder="Password"
+          required
+          minLength={mode === 'register' ? 8 : undefined}
+          style="padding: 4px 8px;"
+        />
+        <button type="submit">{mode === 'login' ? 'Log in' : 'Register'}</button>
+      </div>
+    </PostForm>
+    {mode === 'login' ? (
+      <p>
+        No account yet? <a href={withReturnTo('/register', returnTo)}>Register</a>
+      </p>
+    ) : (
+      <p>
+        Already registered? <a href={withReturnTo('/login', returnTo)}>Log in</a>
+      </p>
+    )}
+  </div>
+);
+
+const CategoryForm = ({ returnTo, form }: { returnTo: string; form?: FormState }) => (
+  <PostForm action="/categories" class="category-form" style="margin: 20px 0;">
+    <ReturnTo path={returnTo} />
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="name"
+          value={form?.input.name}
+          placeholder="Category name"
+          required
+          maxLength={100}
+          style="padding: 4px 8px;"
+        />
+        <FieldError error={form?.errors.name} />
+      </div>
+      <button type="submit">Add Category</button>
+    </div>
+  </PostForm>
+);
+
+const CategoryRow = ({ category, returnTo }: { category: Category; returnTo: string }) => (
+  <tr data-key={category.id}>
+    <td style="padding: 8px;">{category.id}</td>
+    <td style="padding: 8px;">{category.name}</td>
+    <td style="padding: 8px;">
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <a href={withReturnTo(`/categories/${category.id}/edit`, returnTo)}>Edit</a>
+        <a href={withReturnTo(`/categories/${category.id}/delete`, returnTo)}>Delete</a>
+      </div>
+    </td>
+  </tr>
+);
+
+// Takes the place of the rows of a table without any
+const EmptyRow = ({ colspan, children }: { colspan: number; children: ComponentChildren }) => (
+  <tr data-key="empty">
+    <td colspan={colspan} style="padding: 8px; text-align: center;">
+      {children}
+    </td>
+  </tr>
+);
+
+const Categories = ({ categories, returnTo, form }: { categories: Category[]; returnTo: string; form?: FormState }) => (
+  <div class="categories-table">
+    <h2>Categories</h2>
+    <CategoryForm returnTo={returnTo} form={form} />
+    <table style="border-collapse: collapse; border: 1px solid black;">
+      <thead>
+        <tr>
+          <th style="padding: 8px;">ID</th>
+          <th style="padding: 8px;">Name</th>
+          <th style="padding: 8px;">Actions</th>
+        </tr>
+      </thead>
+      <tbody data-live="categories">
+        {categories.length === 0 ? (
+          <EmptyRow colspan={3}>No categories found</EmptyRow>
+        ) : (
+          categories.map((category) => <CategoryRow category={category} returnTo={returnTo} />)
+        )}
+      </tbody>
+    </table>
+  </div>
+);
+
+const Tags = ({ tags, returnTo }: { tags: Tag[]; returnTo: string }) => (
+  <div class="tags-table">
+    <h2>Tags</h2>
+    <p>Tags are created by adding them to a task.</p>
+    <table style="border-collapse: collapse; border: 1px solid black;">
+      <thead>
+        <tr>
+          <th style="padding: 8px;">ID</th>
+          <th style="padding: 8px;">Name</th>
+          <th style="padding: 8px;">Tasks</th>
+          <th style="padding: 8px;">Actions</th>
+        </tr>
+      </thead>
+      <tbody data-live="tags">
+        {tags.length === 0 ? (
+          <EmptyRow colspan={4}>No tags found</EmptyRow>
+        ) : (
+          tags.map((tag) => (
+            <tr data-key={tag.id}>
+              <td style="padding: 8px;">{tag.id}</td>
+              <td style="padding: 8px;">
+                <TagChip tag={tag} />
+              </td>
+              <td style="padding: 8px;">{tag.taskCount}</td>
+              <td style="padding: 8px;">
+                <div style="display: flex; gap: 8px; align-items: center;">
+                  <a href={withReturnTo(`/tags/${tag.id}/edit`, returnTo)}>Rename</a>
+                  <PostForm action={`/tags/${tag.id}/delete`} style="margin: 0;">
+                    <ReturnTo path={returnTo} />
+                    <Island
+                      name="confirm-button"
+                      props={{ label: 'Delete', message: `Delete the tag "${tag.name}"? It is taken off every task.` }}
+                    />
+                  </PostForm>
+                </div>
+              </td>
+            </tr>
+          ))
+        )}
+      </tbody>
+    </table>
+  </div>
+);
+
+// Links to the task list filtered by the tag
+const TagChip = ({ tag }: { tag: TaskTag }) => (
+  <a
+    href={`/${taskQueryString(defaultTaskQuery, { tagId: tag.id })}`}
+    class="tag"
+    style="display: inline-block; padding: 0 8px; border-radius: 10px; background: #e3e8f4; color: #223; font-size: 0.85em; text-decoration: none;">
+    {tag.name}
+  </a>
+);
+
+// Comma-separated tag names, with the existing tags as suggestions
+const TagInput = ({ tags, value }: { tags: Tag[]; value?: string }) => (
+  <>
+    <input
+      type="text"
+      name="tags"
+      value={value}
+      list="tag-names"
+      placeholder="Tags, comma-separated"
+      style="padding: 4px 8px;"
+    />
+    <datalist id="tag-names">
+      {tags.map((tag) => (
+        <option value={tag.name} />
+      ))}
+    </datalist>
+  </>
+);
+
+const PrioritySelect = ({ value }: { value: TaskPriority }) => (
+  <select name="priority" style="padding: 4px 8px;">
+    {taskPriorities.map((priority) => (
+      <option value={priority} selected={priority === value}>
+        {priority[0].toUpperCase() + priority.slice(1)}
+      </option>
+    ))}
+  </select>
+);
+
+/**
+ * Select for the parent of a task, listing the other tasks as an indented tree. When editing a task,
+ * the task itself and its subtasks are left out since they cannot become its parent.
+ */
+const ParentSelect = ({ tasks, value, exclude }: { tasks: NestedTask[]; value?: string; exclude?: number }) => {
+  let skipBelow: number | null = null;
+  const options = tasks.filter((task) => {
+    if (skipBelow !== null && task.depth > skipBelow) return false;
+    skipBelow = task.id === exclude ? task.depth : null;
+    return skipBelow === null;
+  });
+  return (
+    <select name="parent_id" style="padding: 4px 8px;">
+      <option value="">No parent task</option>
+      {options.map((task) => (
+        <option value={task.id} selected={value === String(task.id)}>
+          {'\u00a0\u00a0'.repeat(task.depth) + task.title}
+        </option>
+      ))}
+    </select>
+  );
+};
+
+/**
+ * The repeat fields of the task forms. Only the fields of the chosen frequency are used.
+ */
+const RepeatFields = ({ input, errors }: { input: Record<string, string>; errors?: FieldErrors }) => {
+  const weekdays = (input.repeat_weekdays ?? '').split(',');
+  return (
+    <details open={!!input.repeat && input.repeat !== 'none'}>
+      <summary>Repeat</summary>
+      <div style="display: flex; flex-direction: column; gap: 4px; margin-top: 4px;">
+        <select name="repeat" style="padding: 4px 8px;">
+          <option value="none">Does not repeat</option>
+          <option value="daily" selected={input.repeat === 'daily'}>
+            Daily
+          </option>
+          <option value="weekly" selected={input.repeat === 'weekly'}>
+            Weekly on the days below
+          </option>
+          <option value="monthly" selected={input.repeat === 'monthly'}>
+            Monthly on the day below
+          </option>
+          <option value="interval" selected={input.repeat === 'interval'}>
+            Every number of days below
+          </option>
+        </select>
+        <div>
+          {weekdayNames.map((name, weekday) => (
+            <label style="margin-right: 6px;">
+              <input
+                type="checkbox"
+                name="repeat_weekdays"
+                value={weekday}
+                checked={weekdays.includes(String(weekday))}
+              />
+              {name}
+            </label>
+          ))}
+          <FieldError error={errors?.repeat_weekdays} />
+        </div>
+        <label>
+          Day of month{' '}
+          <input type="number" name="repeat_day" value={input.repeat_day} min={1} max={31} style="width: 4em;" />
+          <FieldError error={errors?.repeat_day} />
+        </label>
+        <label>
+          Every{' '}
+          <input type="number" name="repeat_every" value={input.repeat_every} min={1} max={365} style="width: 4em;" />{' '}
+          days
+          <FieldError error={errors?.repeat_every} />
+        </label>
+      </div>
+    </details>
+  );
+};
+
+const TaskFilters = ({ query, categories, tags }: { query: TaskQuery; categories: Category[]; tags: Tag[] }) => (
+  <form action="/" method="get" style="margin: 20px 0;">
+    <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+      <input type="search" name="q" value={query.search} placeholder="Search titles" style="padding: 4px 8px;" />
+      <select name="category" style="padding: 4px 8px;">
+        <option value="">All categories</option>
+        <option value="none" selected={query.categoryId === 'none'}>
+          No category
+        </option>
+        {categories.map((category) => (
+          <option value={category.id} selected={query.categoryId === category.id}>
+            {category.name}
+          </option>
+        ))}
+      </select>
+      <select name="tag" style="padding: 4px 8px;">
+        <option value="">All tags</option>
+        {tags.map((tag) => (
+          <option value={tag.id} selected={query.tagId === tag.id}>
+            {tag.name}
+          </option>
+        ))}
+      </select>
+      <select name="status" style="padding: 4px 8px;">
+        <option value="all">All</option>
+        <option value="open" selected={query.status === 'open'}>
+          Open
+        </option>
+        <option value="done" selected={query.status === 'done'}>
+          Done
+        </option>
+      </select>
+      <select name="due" style="padding: 4px 8px;">
+        <option value="any">Any due date</option>
+        <option value="overdue" selected={query.due === 'overdue'}>
+          Overdue
+        </option>
+        <option value="today" selected={query.due === 'today'}>
+          Due today
+        </option>
+        <option value="week" selected={query.due === 'week'}>
+          Due this week
+        </option>
+      </select>
+      <select name="sort" style="padding: 4px 8px;">
+        <option value="created">Sort by created</option>
+        <option value="title" selected={query.sort === 'title'}>
+          Sort by title
+        </option>
+        <option value="status" selected={query.sort === 'status'}>
+          Sort by status
+        </option>
+        <option value="category" selected={query.sort === 'category'}>
+          Sort by category
+        </option>
+        <option value="due" selected={query.sort === 'due'}>
+          Sort by due date
+        </option>
+        <option value="priority" selected={query.sort === 'priority'}>
+          Sort by priority
+        </option>
+        <option value="position" selected={query.sort === 'position'}>
+          Manual order
+        </option>
+      </select>
+      <select name="dir" style="padding: 4px 8px;">
+        <option value="desc">Descending</option>
+        <option value="asc" selected={query.dir === 'asc'}>
+          Ascending
+        </option>
+      </select>
+      <button type="submit">Filter</button>
+      <a href="/">Reset</a>
+    </div>
+  </form>
+);
+
+const Pagination = ({ query, total }: { query: TaskQuery; total: number }) => {
+  const pages = Math.max(1, Math.ceil(total / TASKS_PER_PAGE));
+  return (
+    <div data-live="pagination" style="display: flex; gap: 16px; align-items: center; margin: 12px 0;">
+      {query.page > 1 ? <a href={`/${taskQueryString(query, { page: query.page - 1 })}`}>« Previous</a> : <span />}
+      <span>
+        Page {query.page} of {pages} ({total} {total === 1 ? 'task' : 'tasks'})
+      </span>
+      {query.page < pages ? <a href={`/${taskQueryString(query, { page: query.page + 1 })}`}>Next »</a> : <span />}
+    </div>
+  );
+};
+
+const TaskForm = ({
+  parents,
+  categories,
+  tags,
+  returnTo,
+  form,
+}: {
+  parents: NestedTask[];
+  categories: Category[];
+  tags: Tag[];
+  returnTo: string;
+  form?: FormState;
+}) => (
+  <PostForm action="/tasks" class="task-form" style="margin: 20px 0;">
+    <ReturnTo path={returnTo} />
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="title"
+          value={form?.input.title}
+          placeholder="Task title"
+          required
+          style="padding: 4px 8px;"
+        />
+        <FieldError error={form?.errors.title} />
+      </div>
+      <div>
+        <select name="category_id" style="padding: 4px 8px;">
+          <option value="">No category</option>
+          {categories.map((category) => (
+            <option value={category.id} selected={form?.input.category_id === String(category.id)}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <FieldError error={form?.errors.category_id} />
+      </div>
+      <div>
+        <input
+          type="datetime-local"
+          name="due_at"
+          value={form?.input.due_at}
+          title="Due date"
+          style="padding: 4px 8px;"
+        />
+        <FieldError error={form?.errors.due_at} />
+      </div>
+      <div>
+        <PrioritySelect value={(form?.input.priority as TaskPriority) ?? 'normal'} />
+        <FieldError error={form?.errors.priority} />
+      </div>
+      <div>
+        <ParentSelect tasks={parents} value={form?.input.parent_id} />
+        <FieldError error={form?.errors.parent_id} />
+      </div>
+      <div>
+        <TagInput tags={tags} value={form?.input.tags} />
+        <FieldError error={form?.errors.tags} />
+      </div>
+      <RepeatFields input={form?.input ?? {}} errors={form?.errors} />
+      <button type="submit">Add Task</button>
+    </div>
+  </PostForm>
+);
+
+/**
+ * A row of the task list. When the list is in the manual order, the row has a drag handle and buttons
+ * to move the task up or down, which also work without JavaScript.
+ */
+const TaskRow = ({ task, returnTo }: { task: NestedTask; returnTo: string }) => {
+  const manualOrder = parseTaskQueryFromPath(returnTo).sort === 'position';
+  return (
+    <tr
+      data-key={task.id}
+      data-parent={task.parentId ?? ''}
+      data-category={task.categoryId ?? ''}
+      data-depth={task.depth}
+      class={task.overdue ? 'overdue' : undefined}
+      style={task.overdue ? 'background: #fde2e2;' : undefined}>
+      <td style="padding: 8px;">
+        <label>
+          <input type="checkbox" name="ids" value={task.id} form="bulk-tasks" title="Select for bulk actions" />{' '}
+          {task.id}
+        </label>
+      </td>
+      <td style={`padding: 8px; padding-left: ${8 + task.depth * 24}px;`}>
+        {task.depth > 0 && '↳ '}
+        {task.title}
+        {task.subtaskCount > 0 && (
+          <small style="color: #555;">
+            {' '}
+            ({task.subtasksDone}/{task.subtaskCount} done)
+          </small>
+        )}
+        {task.tags.map((tag) => (
+          <>
+            {' '}
+            <TagChip tag={tag} />
+          </>
+        ))}
+        {task.recurrence && (
+          <div>
+            <small style="color: #555;">↻ {describeRecurrence(task.recurrence)}</small>
+          </div>
+        )}
+      </td>
+      <td style="padding: 8px;">
+        <PostForm action={`/tasks/${task.id}/toggle`} style="margin: 0;">
+          <ReturnTo path={returnTo} />
+          <Island name="toggle-checkbox" props={{ checked: task.done }} />
+          <noscript>
+            <button type="submit">{task.done ? 'Reopen' : 'Done'}</button>
+          </noscript>
+        </PostForm>
+      </td>
+      <td style="padding: 8px;">{task.priority}</td>
+      <td style="padding: 8px;">{task.categoryName || '-'}</td>
+      <td style="padding: 8px;">
+        {task.dueAt ? new Date(task.dueAt).toLocaleString() : '-'}
+        {task.overdue && <strong style="color: #b00020;"> (overdue)</strong>}
+      </td>
+      <td style="padding: 8px;">{new Date(task.createdAt).toLocaleString()}</td>
+      <td style="padding: 8px;">
+        <div style="display: flex; gap: 8px; align-items: center;">
+          {manualOrder && (
+            <PostForm action={`/tasks/${task.id}/move`} class="move-task" style="margin: 0;">
+              <ReturnTo path={returnTo} />
+              <Island name="drag-handle" props={{}} />{' '}
+              <button type="submit" name="direction" value="up" title="Move up">
+                ↑
+              </button>
+              <button type="submit" name="direction" value="down" title="Move down">
+                ↓
+              </button>
+            </PostForm>
+          )}
+          <a href={withReturnTo(`/tasks/${task.id}/edit`, returnTo)}>Edit</a>
+          {task.recurrence && (
+            // Ends the series; earlier occurrences and their history are kept
+            <PostForm action={`/tasks/${task.id}/stop-repeating`} style="margin: 0;">
+              <ReturnTo path={returnTo} />
+              <button type="submit">Stop repeating</button>
+            </PostForm>
+          )}
+          {task.subtaskCount > 0 ? (
+            // Asks what should happen to the subtasks first
+            <a href={withReturnTo(`/tasks/${task.id}/delete`, returnTo)}>Delete</a>
+          ) : (
+            <PostForm action={`/tasks/${task.id}/delete`} style="margin: 0;">
+              <ReturnTo path={returnTo} />
+              <Island
+                name="confirm-button"
+                props={{ label: 'Delete', message: `Move "${task.title}" to the trash?` }}
+              />
+            </PostForm>
+          )}
+        </div>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Actions for the tasks selected with the checkboxes of the task list, or for all tasks matching its filters.
+ */
+const BulkActions = ({
+  categories,
+  returnTo,
+  form,
+}: {
+  categories: Category[];
+  returnTo: string;
+  form?: FormState;
+}) => (
+  <PostForm action="/tasks/bulk" id="bulk-tasks" style="margin: 12px 0;">
+    <ReturnTo path={returnTo} />
+    <div style="display: flex; gap: 8px; align-items: flex-start; flex-wrap: wrap;">
+      <span>Selected tasks:</span>
+      <div>
+        <select name="action" style="padding: 4px 8px;">
+          <option value="done">Mark done</option>
+          <option value="open" selected={form?.input.action === 'open'}>
+            Mark open
+          </option>
+          <option value="move" selected={form?.input.action === 'move'}>
+            Move to category
+          </option>
+          <option value="delete" selected={form?.input.action === 'delete'}>
+            Move to trash, with subtasks
+          </option>
+        </select>
+        <FieldError error={form?.errors.action ?? form?.errors.ids} />
+      </div>
+      <div>
+        <select name="category_id" style="padding: 4px 8px;">
+          <option value="">Category to move to</option>
+          {categories.map((category) => (
+            <option value={category.id} selected={form?.input.category_id === String(category.id)}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+        <FieldError error={form?.errors.category_id} />
+      </div>
+      <label>
+        <input type="checkbox" name="all" checked={!!form?.input.all} /> All tasks matching the filters
+      </label>
+      <button type="submit">Apply</button>
+    </div>
+  </PostForm>
+);
+
+const Tasks = ({
+  tasks,
+  parents,
+  categories,
+  tags,
+  query,
+  total,
+  form,
+  bulkForm,
+}: {
+  tasks: NestedTask[];
+  parents: NestedTask[];
+  categories: Category[];
+  tags: Tag[];
+  query: TaskQuery;
+  total: number;
+  form?: FormState;
+  bulkForm?: FormState;
+}) => {
+  const returnTo = `/${taskQueryString(query)}`;
+  return (
+    <div class="tasks-table">
+      <h2>Tasks</h2>
+      <TaskForm parents={parents} categories={categories} tags={tags} returnTo={returnTo} form={form} />
+      <TaskFilters query={query} categories={categories} tags={tags} />
+      <p>
+        Export these tasks as <a href={`/export/tasks.csv${taskQueryString(query, { page: 1 })}`}>CSV</a> or{' '}
+        <a href={`/export/tasks.json${taskQueryString(query, { page: 1 })}`}>JSON</a>
+      </p>
+      <BulkActions categories={categories} returnTo={returnTo} form={bulkForm} />
+      <table style="border-collapse: collapse; border: 1px solid black;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">ID</th>
+            <th style="padding: 8px;">Title</th>
+            <th style="padding: 8px;">Status</th>
+            <th style="padding: 8px;">Priority</th>
+            <th style="padding: 8px;">Category</th>
+            <th style="padding: 8px;">Due</th>
+            <th style="padding: 8px;">Created At</th>
+            <th style="padding: 8px;">Actions</th>
+          </tr>
+        </thead>
+        <tbody data-live="tasks">
+          {tasks.length === 0 ? (
+            <EmptyRow colspan={8}>No tasks found</EmptyRow>
+          ) : (
+            tasks.map((task) => <TaskRow task={task} returnTo={returnTo} />)
+          )}
+        </tbody>
+      </table>
+      <Pagination query={query} total={total} />
+    </div>
+  );
+};
+
+const EditTask = ({
+  task,
+  categories,
+  parents,
+  tags,
+  history,
+  returnTo,
+  form,
+}: {
+  task: Task;
+  categories: Category[];
+  parents: NestedTask[];
+  tags: Tag[];
+  history: ActivityEntry[];
+  returnTo: string;
+  form?: FormState;
+}) => {
+  // After a failed submit, show what the user entered rather than the stored task
+  const values: Record<string, string> = form
+    ? form.input
+    : {
+        title: task.title,
+        category_id: String(task.categoryId ?? ''),
+        due_at: toDateTimeLocal(task.dueAt),
+        priority: task.priority,
+        parent_id: String(task.parentId ?? ''),
+        tags: task.tags.map((tag) => tag.name).join(', '),
+        ...recurrenceInput(task.recurrence),
+      };
+  // Unticked checkboxes are not submitted at all
+  const done = form ? 'done' in form.input : task.done;
+  const completeWithSubtasks = form ? 'complete_with_subtasks' in form.input : task.completeWithSubtasks;
+  return (
+    <div class="edit-task">
+      <h2>Edit Task #{task.id}</h2>
+      <PostForm action={`/tasks/${task.id}/update`} style="margin: 20px 0;">
+        <ReturnTo path={returnTo} />
+        <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+          <div>
+            <input type="text" name="title" value={values.title} required style="padding: 4px 8px;" />
+            <FieldError error={form?.errors.title} />
+          </div>
+          <div>
+            <select name="category_id" style="padding: 4px 8px;">
+              <option value="">No category</option>
+              {categories.map((category) => (
+                <option value={category.id} selected={String(category.id) === values.category_id}>
+                  {category.name}
+                </option>
+              ))}
+            </select>
+            <FieldError error={form?.errors.category_id} />
+          </div>
+          <div>
+            <label>
+              Due <input type="datetime-local" name="due_at" value={values.due_at} style="padding: 4px 8px;" />
+            </label>
+            <FieldError error={form?.errors.due_at} />
+          </div>
+          <div>
+            <label>
+              Priority <PrioritySelect value={(values.priority as TaskPriority) ?? 'normal'} />
+            </label>
+            <FieldError error={form?.errors.priority} />
+          </div>
+          <div>
+            <label>
+              Subtask of <ParentSelect tasks={parents} value={values.parent_id} exclude={task.id} />
+            </label>
+            <FieldError error={form?.errors.parent_id} />
+          </div>
+          <div>
+            <label>
+              Tags <TagInput tags={tags} value={values.tags} />
+            </label>
+            <FieldError error={form?.errors.tags} />
+          </div>
+          <RepeatFields input={values} errors={form?.errors} />
+          <label>
+            <input type="checkbox" name="done" checked={done} /> Done
+          </label>
+          <label>
+            <input type="checkbox" name="complete_with_subtasks" checked={completeWithSubtasks} /> Mark as done when all
+            subtasks are done
+          </label>
+          <div style="display: flex; gap: 8px; align-items: center;">
+            <button type="submit">Save</button>
+            <a href={returnTo}>Cancel</a>
+          </div>
+        </div>
+      </PostForm>
+      <h3>History</h3>
+      <ActivityTable entries={history} />
+    </div>
+  );
+};
+
+const ActivityTable = ({ entries }: { entries: ActivityEntry[] }) => (
+  <table style="border-collapse: collapse; border: 1px solid black;">
+    <thead>
+      <tr>
+        <th style="padding: 8px;">When</th>
+        <th style="padding: 8px;">Who</th>
+        <th style="padding: 8px;">Item</th>
+        <th style="padding: 8px;">Action</th>
+        <th style="padding: 8px;">Changes</th>
+      </tr>
+    </thead>
+    <tbody>
+      {entries.length === 0 ? (
+        <tr>
+          <td colspan={5} style="padding: 8px; text-align: center;">
+            No activity found
+          </td>
+        </tr>
+      ) : (
+        entries.map((entry) => (
+          <tr>
+            <td style="padding: 8px;">{new Date(entry.createdAt).toLocaleString()}</td>
+            <td style="padding: 8px;">{entry.userEmail}</td>
+            <td style="padding: 8px;">
+              {entry.entity === 'task' ? (
+                <a href={`/tasks/${entry.entityId}/edit`}>Task #{entry.entityId}</a>
+              ) : (
+                `Category #${entry.entityId}`
+              )}
+            </td>
+            <td style="padding: 8px;">{entry.action}</td>
+            <td style="padding: 8px;">
+              {describeActivity(entry).map((change) => (
+                <div>{change}</div>
+              ))}
+            </td>
+          </tr>
+        ))
+      )}
+    </tbody>
+  </table>
+);
+
+const ActivityLog = ({ entries, query, total }: { entries: ActivityEntry[]; query: ActivityQuery; total: number }) => {
+  const pages = Math.max(1, Math.ceil(total / ACTIVITY_PER_PAGE));
+  return (
+    <div class="activity">
+      <h2>Activity</h2>
+      <form action="/activity" method="get" style="margin: 20px 0;">
+        <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+          <select name="entity" style="padding: 4px 8px;">
+            <option value="">Tasks and categories</option>
+            <option value="task" selected={query.entity === 'task'}>
+              Tasks
+            </option>
+            <option value="category" selected={query.entity === 'category'}>
+              Categories
+            </option>
+          </select>
+          <select name="action" style="padding: 4px 8px;">
+            <option value="">All actions</option>
+            {activityActions.map((action) => (
+              <option value={action} selected={query.action === action}>
+                {action}
+              </option>
+            ))}
+          </select>
+          <label>
+            From <input type="date" name="from" value={query.from ?? ''} style="padding: 4px 8px;" />
+          </label>
+          <label>
+            To <input type="date" name="to" value={query.to ?? ''} style="padding: 4px 8px;" />
+          </label>
+          <button type="submit">Filter</button>
+          <a href="/activity">Reset</a>
+        </div>
+      </form>
+      <ActivityTable entries={entries} />
+      <div style="display: flex; gap: 16px; align-items: center; margin: 12px 0;">
+        {query.page > 1 ? (
+          <a href={`/activity${activityQueryString(query, { page: query.page - 1 })}`}>« Previous</a>
+        ) : (
+          <span />
+        )}
+        <span>
+          Page {query.page} of {pages} ({total} {total === 1 ? 'entry' : 'entries'})
+        </span>
+        {query.page < pages ? (
+          <a href={`/activity${activityQueryString(query, { page: query.page + 1 })}`}>Next »</a>
+        ) : (
+          <span />
+        )}
+      </div>
+    </div>
+  );
+};
+
+const EditCategory = ({
+  category,
+  categories,
+  returnTo,
+  form,
+}: {
+  category: Category;
+  categories: Category[];
+  returnTo: string;
+  form?: FormState;
+}) => (
+  <div class="edit-category">
+    <h2>Edit Category #{category.id}</h2>
+    <PostForm action={`/categories/${category.id}/rename`} style="margin: 20px 0;">
+      <ReturnTo path={returnTo} />
+      <div style="display: flex; gap: 8px; align-items: flex-start;">
+        <div>
+          <input
+            type="text"
+            name="name"
+            value={form ? form.input.name : category.name}
+            required
+            maxLength={100}
+            style="padding: 4px 8px;"
+          />
+          <FieldError error={form?.errors.name} />
+        </div>
+        <button type="submit">Rename</button>
+      </div>
+    </PostForm>
+    <h3>Merge into another category</h3>
+    <p>
+      All tasks of "{category.name}" move to the chosen category, then "{category.name}" is removed.
+    </p>
+    <PostForm action={`/categories/${category.id}/merge`} style="margin: 20px 0;">
+      <ReturnTo path={returnTo} />
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <select name="target_id" required style="padding: 4px 8px;">
+          <option value="">Select a category</option>
+          {categories
+            .filter((other) => other.id !== category.id)
+            .map((other) => (
+              <option value={other.id}>{other.name}</option>
+            ))}
+        </select>
+        <button type="submit">Merge</button>
+      </div>
+    </PostForm>
+    <a href={returnTo}>Back</a>
+  </div>
+);
+
+const DeleteCategory = ({
+  category,
+  categories,
+  taskCount,
+  returnTo,
+}: {
+  category: Category;
+  categories: Category[];
+  taskCount: number;
+  returnTo: string;
+}) => {
+  const others = categories.filter((other) => other.id !== category.id);
+  return (
+    <div class="delete-category">
+      <h2>Delete Category "{category.name}"</h2>
+      <p>
+        The category goes to the <a href="/trash">trash</a>, where it can be restored for {TRASH_RETENTION_DAYS} days.
+      </p>
+      <p>
+        {taskCount === 1 ? '1 task is' : `${taskCount} tasks are`} assigned to this category. What should happen to{' '}
+        {taskCount === 1 ? 'it' : 'them'}?
+      </p>
+      <PostForm action={`/categories/${category.id}/delete`} style="margin: 20px 0;">
+        <ReturnTo path={returnTo} />
+        <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+          {others.length > 0 && (
+            <label>
+              <input type="radio" name="tasks" value="reassign" checked /> Move them to{' '}
+              <select name="target_id" style="padding: 4px 8px;">
+                {others.map((other) => (
+                  <option value={other.id}>{other.name}</option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label>
+            <input type="radio" name="tasks" value="uncategorise" checked={others.length === 0} /> Keep them without a
+            category
+          </label>
+          <label>
+            <input type="radio" name="tasks" value="delete" /> Move them to the trash as well
+          </label>
+          <div style="display: flex; gap: 8px; align-items: center;">
+            <button type="submit">Delete Category</button>
+            <a href={returnTo}>Cancel</a>
+          </div>
+        </div>
+      </PostForm>
+    </div>
+  );
+};
+
+const EditTag = ({ tag, returnTo, form }: { tag: TaskTag; returnTo: string; form?: FormState }) => (
+  <div class="edit-tag">
+    <h2>Rename Tag #{tag.id}</h2>
+    <PostForm action={`/tags/${tag.id}/rename`} style="margin: 20px 0;">
+      <ReturnTo path={returnTo} />
+      <div style="display: flex; gap: 8px; align-items: flex-start;">
+        <div>
+          <input
+            type="text"
+            name="name"
+            value={form ? form.input.name : tag.name}
+            required
+            maxLength={50}
+            style="padding: 4px 8px;"
+          />
+          <FieldError error={form?.errors.name} />
+        </div>
+        <button type="submit">Rename</button>
+      </div>
+    </PostForm>
+    <a href={returnTo}>Back</a>
+  </div>
+);
+
+const DeleteTask = ({ task, subtaskCount, returnTo }: { task: Task; subtaskCount: number; returnTo: string }) => (
+  <div class="delete-task">
+    <h2>Delete Task "{task.title}"</h2>
+    <p>
+      The task goes to the <a href="/trash">trash</a>, where it can be restored for {TRASH_RETENTION_DAYS} days.
+    </p>
+    <p>
+      It has {subtaskCount === 1 ? '1 subtask' : `${subtaskCount} subtasks`}. What should happen to{' '}
+      {subtaskCount === 1 ? 'it' : 'them'}?
+    </p>
+    <PostForm action={`/tasks/${task.id}/delete`} style="margin: 20px 0;">
+      <ReturnTo path={returnTo} />
+      <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+        <label>
+          <input type="radio" name="subtasks" value="promote" checked />{' '}
+          {task.parentId ? 'Move them up to the parent task' : 'Keep them as top-level tasks'}
+        </label>
+        <label>
+          <input type="radio" name="subtasks" value="delete" /> Move them to the trash as well
+        </label>
+        <div style="display: flex; gap: 8px; align-items: center;">
+          <button type="submit">Delete Task</button>
+          <a href={returnTo}>Cancel</a>
+        </div>
+      </div>
+    </PostForm>
+  </div>
+);
+
+const Trash = ({
+  tasks,
+  categories,
+  error,
+}: {
+  tasks: TrashedTask[];
+  categories: TrashedCategory[];
+  error?: string;
+}) => (
+  <div class="trash">
+    <h2>Trash</h2>
+    <p>Deleted tasks and categories are kept here for {TRASH_RETENTION_DAYS} days before they are removed for good.</p>
+    <FieldError error={error} />
+    {tasks.length === 0 && categories.length === 0 ? (
+      <p>The trash is empty.</p>
+    ) : (
+      <PostForm action="/trash/empty" style="margin: 20px 0;">
+        <Island
+          name="confirm-button"
+          props={{
+            label: 'Empty Trash',
+            message: 'Permanently delete everything in the trash? This cannot be undone.',
+          }}
+        />
+      </PostForm>
+    )}
+    {categories.length > 0 && (
+      <table style="border-collapse: collapse; border: 1px solid black; margin-bottom: 20px;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">Category</th>
+            <th style="padding: 8px;">Tasks</th>
+            <th style="padding: 8px;">Deleted At</th>
+            <th style="padding: 8px;">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {categories.map((category) => (
+            <tr>
+              <td style="padding: 8px;">{category.name}</td>
+              <td style="padding: 8px;">{category.taskCount}</td>
+              <td style="padding: 8px;">{new Date(category.deletedAt).toLocaleString()}</td>
+              <td style="padding: 8px;">
+                <TrashActions path={`/trash/categories/${category.id}`} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+    {tasks.length > 0 && (
+      <table style="border-collapse: collapse; border: 1px solid black;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">Task</th>
+            <th style="padding: 8px;">Category</th>
+            <th style="padding: 8px;">Deleted At</th>
+            <th style="padding: 8px;">Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {tasks.map((task) => (
+            <tr>
+              <td style="padding: 8px;">{task.title}</td>
+              <td style="padding: 8px;">{task.categoryName || '-'}</td>
+              <td style="padding: 8px;">{new Date(task.deletedAt).toLocaleString()}</td>
+              <td style="padding: 8px;">
+                <TrashActions path={`/trash/tasks/${task.id}`} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+const TrashActions = ({ path }: { path: string }) => (
+  <div style="display: flex; gap: 8px; align-items: center;">
+    <PostForm action={`${path}/restore`} style="margin: 0;">
+      <button type="submit">Restore</button>
+    </PostForm>
+    <PostForm action={`${path}/purge`} style="margin: 0;">
+      <Island
+        name="confirm-button"
+        props={{ label: 'Delete Permanently', message: 'Permanently delete this item? This cannot be undone.' }}
+      />
+    </PostForm>
+  </div>
+);
+
+const ImportForm = ({ error }: { error?: string }) => (
+  <div class="import">
+    <h2>Import</h2>
+    <p>
+      Upload a CSV or JSON file in the format of the exports. Files with a <code>title</code> field import tasks and
+      create missing categories by name; files with only a <code>name</code> field import categories. You will see a
+      preview before anything is saved.
+    </p>
+    <FieldError error={error} />
+    <PostForm action="/import" enctype="multipart/form-data" style="margin: 20px 0;">
+      <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+        <input type="file" name="file" accept=".csv,.json,text/csv,application/json" required />
+        <span>Tasks that already exist (same title in the same category):</span>
+        <label>
+          <input type="radio" name="mode" value="skip" checked /> Skip them
+        </label>
+        <label>
+          <input type="radio" name="mode" value="update" /> Update their status, due date and priority
+        </label>
+        <button type="submit">Preview Import</button>
+      </div>
+    </PostForm>
+    <h2>Export</h2>
+    <ul>
+      <li>
+        Tasks: <a href="/export/tasks.csv">CSV</a> or <a href="/export/tasks.json">JSON</a>
+      </li>
+      <li>
+        Categories: <a href="/export/categories.csv">CSV</a> or <a href="/export/categories.json">JSON</a>
+      </li>
+    </ul>
+  </div>
+);
+
+const ImportRowNotes = ({ title, notes }: { title: string; notes: ImportRowNote[] }) =>
+  notes.length === 0 ? null : (
+    <div>
+      <h3>{title}</h3>
+      <table style="border-collapse: collapse; border: 1px solid black;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">Row</th>
+            <th style="padding: 8px;">Reason</th>
+          </tr>
+        </thead>
+        <tbody>
+          {notes.map((note) => (
+            <tr>
+              <td style="padding: 8px;">{note.row}</td>
+              <td style="padding: 8px;">{note.reason}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+
+const ImportPreview = ({
+  plan,
+  fileName,
+  content,
+  mode,
+}: {
+  plan: ImportPlan;
+  fileName: string;
+  content: string;
+  mode: ImportMode;
+}) => {
+  const changes = plan.newCategories.length + plan.createTasks.length + plan.updateTasks.length;
+  return (
+    <div class="import-preview">
+      <h2>Import Preview: {fileName}</h2>
+      <p>Nothing has been saved yet. Importing will:</p>
+      <ul>
+        <li>
+          create {plan.newCategories.length} {plan.newCategories.length === 1 ? 'category' : 'categories'}
+          {plan.newCategories.length > 0 && ` (${plan.newCategories.join(', ')})`}
+        </li>
+        {plan.kind === 'tasks' && (
+          <li>
+            create {plan.createTasks.length} {plan.createTasks.length === 1 ? 'task' : 'tasks'}
+          </li>
+        )}
+        {plan.kind === 'tasks' && (
+          <li>
+            update {plan.updateTasks.length} {plan.updateTasks.length === 1 ? 'task' : 'tasks'}
+          </li>
+        )}
+        <li>
+          skip {plan.skipped.length} {plan.skipped.length === 1 ? 'row' : 'rows'} and reject {plan.rejected.length}{' '}
+          {plan.rejected.length === 1 ? 'row' : 'rows'}
+        </li>
+      </ul>
+      <ImportRowNotes title="Rejected rows" notes={plan.rejected} />
+      <ImportRowNotes title="Skipped rows" notes={plan.skipped} />
+      <PostForm action="/import" style="margin: 20px 0;">
+        <input type="hidden" name="file_name" value={fileName} />
+        {/* Base64, because browsers rewrite the line breaks of submitted text fields */}
+        <input type="hidden" name="content" value={Buffer.from(content).toString('base64')} />
+        <input type="hidden" name="mode" value={mode} />
+        <input type="hidden" name="confirm" value="1" />
+        <div style="display: flex; gap: 8px; align-items: center;">
+          <button type="submit" disabled={changes === 0}>
+            Import
+          </button>
+          <a href="/import">Cancel</a>
+        </div>
+      </PostForm>
+    </div>
+  );
+};
+
+const CalendarFeeds = ({
+  hasToken,
+  feedUrls,
+}: {
+  hasToken: boolean;
+  // Only available right after a token was created, since just its hash is stored
+  feedUrls?: { name: string; url: string }[];
+}) => (
+  <div class="calendar">
+    <h2>Calendar Feeds</h2>
+    <p>
+      Subscribe to your tasks in a calendar app. The feed links contain a secret token, so anyone with a link can read
+      the tasks in it.
+    </p>
+    {feedUrls ? (
+      <div>
+        <p>
+          <strong>Copy your links now.</strong> They will not be shown again; reset the token to get new ones.
+        </p>
+        <ul>
+          {feedUrls.map((feed) => (
+            <li>
+              {feed.name}: <input type="text" value={feed.url} readOnly size={90} style="padding: 4px 8px;" />
+            </li>
+          ))}
+        </ul>
+      </div>
+    ) : (
+      hasToken && <p>You have a feed token. Reset it to see your links again; the old links stop working.</p>
+    )}
+    <div style="display: flex; gap: 8px; align-items: center;">
+      <PostForm action="/calendar/token" style="margin: 0;">
+        <button type="submit">{hasToken ? 'Reset Feed Token' : 'Create Feed Links'}</button>
+      </PostForm>
+      {hasToken && (
+        <PostForm action="/calendar/token/revoke" style="margin: 0;">
+          <button type="submit">Revoke Feed Token</button>
+        </PostForm>
+      )}
+    </div>
+  </div>
+);
+
+const migrationModeNotes: Record<MigrationMode, string> = {
+  apply: 'Pending migrations are applied when the server starts.',
+  check: 'The server refuses to start while migrations are pending; run them with bun run migrate.',
+  off: 'Migrations are not checked when the server starts; run them with bun run migrate.',
+};
+
+const MigrationsPage = ({ migrations, mode }: { migrations: MigrationStatus[]; mode: MigrationMode }) => {
+  const pending = migrations.filter((migration) => !migration.applied).length;
+  return (
+    <div>
+      <h2>Migrations</h2>
+      <p>
+        {pending === 0 ? 'The database is up to date.' : `${pending} of ${migrations.length} migrations are pending.`}{' '}
+        {migrationModeNotes[mode]} (<code>MIGRATIONS={mode}</code>)
+      </p>
+      <table style="border-collapse: collapse; border: 1px solid black;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">Migration</th>
+            <th style="padding: 8px;">Generated</th>
+            <th style="padding: 8px;">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {migrations.map((migration) => (
+            <tr>
+              <td style="padding: 8px;">{migration.name}</td>
+              <td style="padding: 8px;">{migration.createdAt.toLocaleString()}</td>
+              <td style="padding: 8px;">{migration.applied ? 'Applied' : 'Pending'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const Home = ({
+  tasks,
+  total,
+  parents,
+  categories,
+  tags,
+  query,
+  forms,
+  notice,
+  lastActivityId,
+}: {
+  tasks: NestedTask[];
+  total: number;
+  parents: NestedTask[];
+  categories: Category[];
+  tags: Tag[];
+  query: TaskQuery;
+  forms: { task?: FormState; category?: FormState; bulk?: FormState };
+  notice?: string;
+  lastActivityId: number;
+}) => (
+  <div>
+    {notice && <p role="status">{notice}</p>}
+    <Categories categories={categories} returnTo={`/${taskQueryString(query)}`} form={forms.category} />
+    <Tags tags={tags} returnTo={`/${taskQueryString(query)}`} />
+    <Tasks
+      tasks={tasks}
+      parents={parents}
+      categories={categories}
+      tags={tags}
+      query={query}
+      total={total}
+      form={forms.task}
+      bulkForm={forms.bulk}
+    />
+    {/* Events after the ones this page already shows, so nothing is missed while it loads */}
+    <script src="/assets/live.js" data-events={`/events?after=${lastActivityId}`} defer />
+  </div>
+);
+
+const ImportResult = ({
+  categories,
+  created,
+  updated,
+  ignored,
+}: {
+  categories: number;
+  created: number;
+  updated: number;
+  ignored: number;
+}) => (
+  <div>
+    <h2>Import Finished</h2>
+    <p>
+      Created {categories} {categories === 1 ? 'category' : 'categories'} and {created}{' '}
+      {created === 1 ? 'task' : 'tasks'}, updated {updated} {updated === 1 ? 'task' : 'tasks'}. {ignored} rows were
+      skipped or rejected.
+    </p>
+    <a href="/">Back to your tasks</a>
+  </div>
+);
+
+const renderPage = ({ user, csrfToken }: PageContext, node: VNode<any>) =>
+  render(
+    <Layout user={user} csrfToken={csrfToken}>
+      {node}
+    </Layout>
+  );
+
+// Parts of a page get the CSRF token that their forms need from the page they are swapped into
+const renderPart = ({ csrfToken }: PageContext, node: VNode<any>) =>
+  render(<CsrfToken.Provider value={csrfToken}>{node}</CsrfToken.Provider>);
+
+/**
+ * The Preact pages of `index.tsx`, with islands that the browser hydrates.
+ */
+export const views: Views = {
+  home: (page, data) => renderPage(page, <Home {...data} />),
+  auth: (page, data) => renderPage(page, <AuthForm {...data} />),
+  editTask: (page, data) => renderPage(page, <EditTask {...data} />),
+  deleteTask: (page, data) => renderPage(page, <DeleteTask {...data} />),
+  editCategory: (page, data) => renderPage(page, <EditCategory {...data} />),
+  deleteCategory: (page, data) => renderPage(page, <DeleteCategory {...data} />),
+  editTag: (page, data) => renderPage(page, <EditTag {...data} />),
+  activity: (page, data) => renderPage(page, <ActivityLog {...data} />),
+  importForm: (page, data) => renderPage(page, <ImportForm {...data} />),
+  importPreview: (page, data) => renderPage(page, <ImportPreview {...data} />),
+  importResult: (page, data) => renderPage(page, <ImportResult {...data} />),
+  calendar: (page, data) => renderPage(page, <CalendarFeeds {...data} />),
+  trash: (page, data) => renderPage(page, <Trash {...data} />),
+  migrations: (page, data) => renderPage(page, <MigrationsPage {...data} />),
+  forbidden: (page, failure) => renderPage(page, <Forbidden failure={failure} />),
+  error: (page, error) => renderPage(page, <ErrorMessage page={error} />),
+  categoryForm: (page, data) => renderPart(page, <CategoryForm {...data} />),
+  categoryRow: (page, data) => renderPart(page, <CategoryRow {...data} />),
+  taskForm: (page, data) => renderPart(page, <TaskForm {...data} />),
+  taskRow: (page, data) => renderPart(page, <TaskRow {...data} />),
+};
@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import type { AppEnv } from './auth';
+import { csrfProtection } from './csrf';
+import type { CsrfFailure } from './csrf';
+
+// An app whose pages show the token, and which answers rejected form posts with the reason
+function createTestApp() {
+  const app = new Hono<AppEnv>();
+  app.use(
+    '*',
+    csrfProtection((c, failure: CsrfFailure) => c.text(failure, 403))
+  );
+  app.get('/', (c) => c.text(c.get('csrfToken')));
+  app.post('/tasks', (c) => c.text('created'));
+  app.post('/api/v1/tasks', (c) => c.json({ created: true }, 201));
+  return app;
+}
+
+const session = { Cookie: 'session=abc' };
+const sameSite = { ...session, Origin: 'http://localhost' };
+
+describe('csrfProtection', () => {
+  test('gives each session its own token', async () => {
+    const app = createTestApp();
+    const token = await (await app.request('/', { headers: session })).text();
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(await (await app.request('/', { headers: session })).text()).toBe(token);
+    expect(await (await app.request('/', { headers: { Cookie: 'session=other' } })).text()).not.toBe(token);
+  });
+
+  test('gives visitors without a session a token of their own', async () => {
+    const res = await createTestApp().request('/');
+    expect(res.headers.get('Set-Cookie')).toMatch(/^csrf=[\w-]+; Path=\/; HttpOnly; SameSite=Lax$/);
+  });
+
+  test('accepts form posts from this site with the token', async () => {
+    const app = createTestApp();
+    const token = await (await app.request('/', { headers: session })).text();
+    const res = await app.request('/tasks', {
+      method: 'POST',
+      body: new URLSearchParams({ _csrf: token }),
+      headers: sameSite,
+    });
+    expect(res.status).toBe(200);
+    expect(
+      (await app.request('/tasks', { method: 'POST', headers: { ...sameSite, 'X-CSRF-Token': token } })).status
+    ).toBe(200);
+  });
+
+  test('rejects form posts without a valid token or from elsewhere', async () => {
+    const app = createTestApp();
+    const token = await (await app.request('/', { headers: session })).text();
+    const post = async (fields: Record<string, string>, headers: Record<string, string>) => {
+      const res = await app.request('/tasks', { method: 'POST', body: new URLSearchParams(fields), headers });
+      expect(res.status).toBe(403);
+      return res.text();
+    };
+
+    expect(await post({}, sameSite)).toBe('missing-token');
+    expect(await post({ _csrf: token }, { Cookie: 'session=other', Origin: 'http://localhost' })).toBe('invalid-token');
+    expect(await post({ _csrf: token }, { ...session, Origin: 'https://evil.example' })).toBe('cross-origin');
+    expect(await post({ _csrf: token }, { ...session, Referer: 'https://evil.example/form' })).toBe('cross-origin');
+    expect(await post({ _csrf: token }, session)).toBe('unknown-origin');
+  });
+
+  test('only checks where API requests come from', async () => {
+    const app = createTestApp();
+    const json = { 'Content-Type': 'application/json' };
+    const body = JSON.stringify({ title: 'Paint' });
+
+    expect((await app.request('/api/v1/tasks', { method: 'POST', body, headers: json })).status).toBe(201);
+    const crossSite = await app.request('/api/v1/tasks', {
+      method: 'POST',
+      body,
+      headers: { ...json, Origin: 'https://evil.example' },
+    });
+    expect(crossSite.status).toBe(403);
+    expect(await crossSite.json()).toEqual({ error: 'Cross-site request rejected' });
+    // A form body needs no preflight, so without an Origin it could come from any site
+    const form = await app.request('/api/v1/tasks', { method: 'POST', body: new URLSearchParams({ title: 'Paint' }) });
+    expect(form.status).toBe(403);
+  });
+});
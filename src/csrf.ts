@@ -0,0 +1,127 @@
+import type { Context, MiddlewareHandler } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
+import { timingSafeEqual } from 'node:crypto';
+import { SESSION_COOKIE } from './auth';
+import type { AppEnv } from './auth';
+import { isSecure, siteOrigin } from './origin';
+import { generateToken } from './tokens';
+
+/**
+ * Name of the hidden form field, and of the header scripts can send instead, that carries the token.
+ */
+export const CSRF_FIELD = '_csrf';
+export const CSRF_HEADER = 'X-CSRF-Token';
+
+// Gives visitors who are not signed in (the login and registration forms) a token as well
+const VISITOR_COOKIE = 'csrf';
+
+const safeMethods = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Why a request was rejected, as shown on the 403 page.
+ */
+export type CsrfFailure = 'cross-origin' | 'unknown-origin' | 'missing-token' | 'invalid-token';
+
+/**
+ * Derives the token for a session cookie value. The cookie itself is httpOnly and never shown,
+ * and the token cannot be turned back into it, so a token leaking into a page does not leak the session.
+ */
+function tokenFor(secret: string): string {
+  return new Bun.CryptoHasher('sha256').update(`csrf:${secret}`).digest('hex');
+}
+
+function sameToken(a: string, b: string): boolean {
+  return a.length === b.length && timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+/**
+ * The origin a request was sent from according to its Origin header, or its Referer header if there
+ * is no Origin. Null when it has neither, as with requests from scripts rather than browsers.
+ */
+function requestOrigin(c: Context): string | null {
+  const origin = c.req.header('Origin');
+  if (origin) {
+    return origin;
+  }
+  const referer = c.req.header('Referer');
+  return referer && URL.canParse(referer) ? new URL(referer).origin : null;
+}
+
+// Whether a page on another site could make this request without a CORS preflight: a POST with a
+// form or plain text body. Anything else, such as a JSON body, the browser only sends cross-site
+// after the server has allowed it, which this server never does.
+function isSimpleRequest(c: Context): boolean {
+  const type = (c.req.header('Content-Type') ?? '').split(';')[0].trim().toLowerCase();
+  return (
+    c.req.method === 'POST' &&
+    ['', 'application/x-www-form-urlencoded', 'multipart/form-data', 'text/plain'].includes(type)
+  );
+}
+
+async function submittedToken(c: Context): Promise<string | null> {
+  const header = c.req.header(CSRF_HEADER);
+  if (header) {
+    return header;
+  }
+  const contentType = c.req.header('Content-Type') ?? '';
+  if (!contentType.startsWith('application/x-www-form-urlencoded') && !contentType.startsWith('multipart/form-data')) {
+    return null;
+  }
+  // Hono caches the parsed body, so the route handler can still read it
+  const value = (await c.req.formData()).get(CSRF_FIELD);
+  return typeof value === 'string' ? value : null;
+}
+
+/**
+ * Middleware that protects every state-changing request against cross-site request forgery.
+ *
+ * Each session gets its own token, which is put on the context as `csrfToken` for the forms to embed.
+ * Form posts must send it back and must come from this site according to Origin/Referer. JSON API
+ * requests only get the Origin/Referer check, since browsers cannot send them cross-site without CORS;
+ * without either header they must be a kind of request that needs CORS, such as one with a JSON body.
+ *
+ * @param forbidden - Renders the 403 page for a rejected form post.
+ */
+export function csrfProtection(
+  forbidden: (c: Context<AppEnv>, failure: CsrfFailure) => Response | Promise<Response>
+): MiddlewareHandler<AppEnv> {
+  return async (c, next) => {
+    const isApi = c.req.path.startsWith('/api/');
+    let secret = getCookie(c, SESSION_COOKIE) ?? getCookie(c, VISITOR_COOKIE);
+    if (!secret && !isApi) {
+      secret = generateToken();
+      setCookie(c, VISITOR_COOKIE, secret, {
+        path: '/',
+        httpOnly: true,
+        sameSite: 'Lax',
+        secure: isSecure(c),
+      });
+    }
+    const token = secret ? tokenFor(secret) : '';
+    c.set('csrfToken', token);
+
+    if (safeMethods.includes(c.req.method)) {
+      return next();
+    }
+
+    const origin = requestOrigin(c);
+    let failure: CsrfFailure | null = null;
+    if (origin && origin !== siteOrigin(c)) {
+      failure = 'cross-origin';
+    } else if (!origin && (!isApi || isSimpleRequest(c))) {
+      failure = 'unknown-origin';
+    } else if (!isApi) {
+      const submitted = await submittedToken(c);
+      if (!submitted) {
+        failure = 'missing-token';
+      } else if (!token || !sameToken(submitted, token)) {
+        failure = 'invalid-token';
+      }
+    }
+
+    if (failure) {
+      return isApi ? c.json({ error: 'Cross-site request rejected' }, 403) : forbidden(c, failure);
+    }
+    return next();
+  };
+}
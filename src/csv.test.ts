@@ -0,0 +1,46 @@
+import { describe, expect, test } from 'bun:test';
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  test('reads quoted fields with commas, quotes and line breaks', () => {
+    expect(parseCsv('title,notes\r\n"Paint, then sand","Say ""hi""\nto Sam"\r\n')).toEqual([
+      ['title', 'notes'],
+      ['Paint, then sand', 'Say "hi"\nto Sam'],
+    ]);
+  });
+
+  test('accepts LF line endings, a byte order mark and a missing final line break', () => {
+    expect(parseCsv('\ufeffa,b\nc,')).toEqual([
+      ['a', 'b'],
+      ['c', ''],
+    ]);
+    expect(parseCsv('')).toEqual([]);
+  });
+
+  test('gives null for a quoted field that is never closed', () => {
+    expect(parseCsv('a,"b\nc')).toBeNull();
+  });
+});
+
+describe('toCsv', () => {
+  test('quotes fields that need it and leaves nulls empty', () => {
+    expect(
+      toCsv([
+        ['title', 'done', 'due'],
+        ['Say "hi", Sam', true, null],
+      ])
+    ).toBe('title,done,due\r\n"Say ""hi"", Sam",true,\r\n');
+  });
+
+  test('keeps spreadsheets from running text as a formula', () => {
+    expect(toCsv([['=SUM(A1)', '@home', -1]])).toBe("'=SUM(A1),'@home,-1\r\n");
+  });
+
+  test('round-trips through parseCsv', () => {
+    const rows = [
+      ['a,b', 'line\r\nbreak', '"quoted"', ''],
+      ['plain', ' spaced ', 'x', 'y'],
+    ];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
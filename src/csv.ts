@@ -0,0 +1,72 @@
+/**
+ * Parses CSV text as described in RFC 4180: fields are separated by commas, and fields containing
+ * commas, quotes or line breaks are wrapped in double quotes, with quotes doubled inside.
+ * Both CRLF and LF line endings are accepted, and a trailing line break does not add a row.
+ *
+ * @returns The rows, or `null` if a quoted field is never closed.
+ */
+export function parseCsv(text: string): string[][] | null {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0;
+
+  while (i < text.length) {
+    const char = text[i];
+    if (char === '"' && field === '') {
+      const end = closingQuote(text, i + 1);
+      if (end === -1) return null;
+      field = text.slice(i + 1, end).replaceAll('""', '"');
+      i = end + 1;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+      i++;
+    } else if (char === '\r' || char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += char === '\r' && text[i + 1] === '\n' ? 2 : 1;
+    } else {
+      field += char;
+      i++;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+// Finds the quote that closes a quoted field, skipping doubled quotes
+function closingQuote(text: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    if (text[i] === '"') {
+      if (text[i + 1] !== '"') return i;
+      i += 2;
+    } else {
+      i++;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Formats rows as CSV with CRLF line endings. Text that a spreadsheet would run as a formula
+ * (starting with `=`, `+`, `-` or `@`) is prefixed with a quote character.
+ */
+export function toCsv(rows: (string | number | boolean | null)[][]): string {
+  return rows.map((row) => row.map(formatField).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatField(value: string | number | boolean | null): string {
+  if (value === null) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text;
+}
@@ -0,0 +1,1620 @@
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { Pool } from 'pg';
+import { tasks, categories, taskPriority, activity, users, tags, taskTags } from '../drizzle/schema';
+import {
+  eq,
+  ne,
+  asc,
+  desc,
+  not,
+  and,
+  ilike,
+  isNull,
+  isNotNull,
+  lt,
+  gt,
+  gte,
+  inArray,
+  count,
+  max,
+  sql,
+} from 'drizzle-orm';
+import type { SQL } from 'drizzle-orm';
+import { defaultTaskQuery } from './task-query';
+import type { TaskQuery } from './task-query';
+import type { ActivityQuery, ActivityEntity, ActivityAction } from './activity-query';
+import type { ImportPlan } from './import';
+import type { Dataset } from './fixtures';
+import { nextOccurrence } from './recurrence';
+import type { Recurrence } from './recurrence';
+import { config } from './config';
+import { log, serializeError } from './logging';
+
+export const pool = new Pool({
+  connectionString: config.databaseUrl,
+  max: config.pool.max,
+  connectionTimeoutMillis: config.pool.connectionTimeoutMs,
+  idleTimeoutMillis: config.pool.idleTimeoutMs,
+  statement_timeout: config.pool.statementTimeoutMs,
+});
+
+// Connections that break while idle in the pool are replaced; without a listener the error would end the process
+pool.on('error', (error) => log('error', 'Idle database connection failed', { error: serializeError(error) }));
+
+export const db = drizzle(pool);
+
+export const taskPriorities = taskPriority.enumValues;
+
+/**
+ * Days that tasks and categories stay in the trash before they are purged for good.
+ */
+export const TRASH_RETENTION_DAYS = config.trashRetentionDays;
+
+export type TaskPriority = (typeof taskPriorities)[number];
+
+export interface Task {
+  id: number;
+  title: string;
+  done: boolean;
+  createdAt: string;
+  dueAt: string | null;
+  priority: TaskPriority;
+  overdue: boolean;
+  categoryId: number | null;
+  categoryName: string | null;
+  parentId: number | null;
+  completeWithSubtasks: boolean;
+  // Direct subtasks outside the trash, and how many of them are done
+  subtaskCount: number;
+  subtasksDone: number;
+  tags: TaskTag[];
+  recurrence: Recurrence | null;
+}
+
+export interface TaskTag {
+  id: number;
+  name: string;
+}
+
+export interface Tag extends TaskTag {
+  // Tasks outside the trash that carry the tag
+  taskCount: number;
+}
+
+/**
+ * A task of the nested task list, with its depth below the top-level task it belongs to.
+ */
+export interface NestedTask extends Task {
+  depth: number;
+}
+
+/**
+ * What happens to the subtasks of a task that is moved to the trash: they go to the trash with it
+ * (`delete`) or move up to the task's own parent (`promote`).
+ */
+export type SubtaskAction = 'delete' | 'promote';
+
+export interface Category {
+  id: number;
+  name: string;
+}
+
+/**
+ * What happens to the tasks of a category that is moved to the trash: they are moved to another
+ * category (`reassign`), go to the trash with it (`delete`) or are kept without a category (`uncategorise`).
+ */
+export type CategoryTaskAction = 'reassign' | 'delete' | 'uncategorise';
+
+export interface TrashedTask {
+  id: number;
+  title: string;
+  categoryName: string | null;
+  deletedAt: string;
+}
+
+export interface TrashedCategory {
+  id: number;
+  name: string;
+  deletedAt: string;
+  // Tasks that come back into the category when it is restored
+  taskCount: number;
+}
+
+/**
+ * A task for the calendar feed, with its creation time as a UTC iCalendar DATE-TIME.
+ */
+export interface CalendarTask extends Task {
+  createdAtUtc: string;
+}
+
+/**
+ * One entry of the activity log. `before` and `after` hold the recorded fields of the task or
+ * category, and are `null` where the entity did not exist before or after the change.
+ */
+export interface ActivityEntry {
+  id: number;
+  entity: ActivityEntity;
+  entityId: number;
+  action: ActivityAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+  userEmail: string;
+}
+
+// Columns shared by every query that returns tasks joined with their category
+const taskColumns = {
+  id: tasks.id,
+  title: tasks.title,
+  done: tasks.done,
+  createdAt: tasks.createdAt,
+  dueAt: tasks.dueAt,
+  priority: tasks.priority,
+  // Computed by the database so it agrees with the due date filters below
+  overdue: sql<boolean>`(${tasks.dueAt} is not null and ${tasks.dueAt} < now() and ${tasks.done} is not true)`,
+  categoryId: tasks.categoryId,
+  categoryName: categories.name,
+  parentId: tasks.parentId,
+  completeWithSubtasks: tasks.completeWithSubtasks,
+  subtaskCount: sql<number>`(select count(*)::int from ${tasks} subtask
+    where subtask.parent_id = ${tasks.id} and subtask.deleted_at is null)`,
+  subtasksDone: sql<number>`(select count(*)::int from ${tasks} subtask
+    where subtask.parent_id = ${tasks.id} and subtask.deleted_at is null and subtask.done)`,
+  tags: sql<TaskTag[]>`coalesce((select json_agg(json_build_object('id', ${tags.id}, 'name', ${tags.name})
+    order by lower(${tags.name})) from ${taskTags} join ${tags} on ${tags.id} = ${taskTags.tagId}
+    where ${taskTags.taskId} = ${tasks.id}), '[]')`,
+  recurrence: tasks.recurrence,
+};
+
+// Escapes the LIKE wildcards in user input so a search for "50%" matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Builds the WHERE clause for the owner and the search, category and status filters of a task query.
+ */
+function taskConditions(ownerId: number, query: TaskQuery): SQL | undefined {
+  const conditions: SQL[] = [eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt)];
+
+  if (query.search) {
+    conditions.push(ilike(tasks.title, `%${escapeLike(query.search)}%`));
+  }
+  if (query.categoryId === 'none') {
+    conditions.push(isNull(tasks.categoryId));
+  } else if (query.categoryId !== null) {
+    conditions.push(eq(tasks.categoryId, query.categoryId));
+  }
+  if (query.tagId !== null) {
+    conditions.push(
+      sql`exists (select 1 from ${taskTags} where ${taskTags.taskId} = ${tasks.id} and ${taskTags.tagId} = ${query.tagId})`
+    );
+  }
+  if (query.status === 'done') {
+    conditions.push(eq(tasks.done, true));
+  } else if (query.status === 'open') {
+    conditions.push(sql`${tasks.done} is not true`);
+  }
+  if (query.due === 'overdue') {
+    conditions.push(sql`${tasks.dueAt} < now() and ${tasks.done} is not true`);
+  } else if (query.due === 'today') {
+    conditions.push(
+      sql`${tasks.dueAt} >= date_trunc('day', now()) and ${tasks.dueAt} < date_trunc('day', now()) + interval '1 day'`
+    );
+  } else if (query.due === 'week') {
+    conditions.push(
+      sql`${tasks.dueAt} >= date_trunc('week', now()) and ${tasks.dueAt} < date_trunc('week', now()) + interval '1 week'`
+    );
+  }
+
+  return and(...conditions);
+}
+
+const sortColumns = {
+  created: tasks.createdAt,
+  title: tasks.title,
+  status: tasks.done,
+  category: categories.name,
+  // Tasks without a due date come last in both directions
+  due: sql`${tasks.dueAt} is null, ${tasks.dueAt}`,
+  // Enums sort in declaration order, from low to urgent
+  priority: tasks.priority,
+  // The manual order applies within each category, so the tasks are grouped by category first
+  position: sql`${categories.name} is null, ${categories.name}, ${tasks.position}`,
+};
+
+// The manual order always lists the first task first
+function sortDirection(query: TaskQuery) {
+  return query.dir === 'asc' || query.sort === 'position' ? asc : desc;
+}
+
+/**
+ * Fetches a user's tasks with their category names, filtered and sorted according to `query`
+ * (newest first by default).
+ *
+ * @param {number} ownerId - The id of the user whose tasks are listed.
+ * @param {TaskQuery} query - The filters and sort order to apply.
+ * @param {number} [perPage] - When given, only the page `query.page` of this size is returned.
+ * @returns {Promise<Task[]>} The tasks.
+ */
+export async function fetchTasks(
+  ownerId: number,
+  query: TaskQuery = defaultTaskQuery,
+  perPage?: number
+): Promise<Task[]> {
+  const direction = sortDirection(query);
+  const select = db
+    .select(taskColumns)
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(taskConditions(ownerId, query))
+    // The id keeps the order stable between pages when the sort column has ties
+    .orderBy(direction(sortColumns[query.sort]), direction(tasks.id))
+    .$dynamic();
+
+  const result = perPage ? await select.limit(perPage).offset((query.page - 1) * perPage) : await select;
+
+  return result as Task[];
+}
+
+/**
+ * Counts a user's tasks matching the filters of `query`.
+ *
+ * @returns {Promise<number>} The number of tasks.
+ */
+export async function countTasks(ownerId: number, query: TaskQuery = defaultTaskQuery): Promise<number> {
+  const [row] = await db.select({ value: count() }).from(tasks).where(taskConditions(ownerId, query));
+  return row.value;
+}
+
+// The tasks matching a query together with all of their ancestors outside the trash, as a subquery
+function visibleTasks(ownerId: number, query: TaskQuery): SQL {
+  return sql`with recursive visible(id, parent_id) as (
+      select ${tasks.id}, ${tasks.parentId} from ${tasks} where ${taskConditions(ownerId, query)}
+      union
+      select parent.id, parent.parent_id from ${tasks} parent
+        join visible on parent.id = visible.parent_id
+        where parent.deleted_at is null
+    ) select id from visible`;
+}
+
+// Top-level tasks: those without a parent, or whose parent is in the trash
+const isTopLevel = sql`(${tasks.parentId} is null or not exists (
+  select 1 from ${tasks} parent where parent.id = ${tasks.parentId} and parent.deleted_at is null))`;
+
+/**
+ * Fetches a user's tasks as a tree for the task list. The filters of `query` select tasks at any
+ * depth, which are shown with the tasks above them; sorting and pages apply to the top-level tasks,
+ * and subtasks follow their parent in the order they were created, or in the manual order when sorting by it.
+ *
+ * @param {number} [perPage] - When given, only the top-level tasks of page `query.page` are returned, with their subtasks.
+ * @returns {Promise<NestedTask[]>} The tasks in display order.
+ */
+export async function fetchTaskTree(
+  ownerId: number,
+  query: TaskQuery = defaultTaskQuery,
+  perPage?: number
+): Promise<NestedTask[]> {
+  const visible = visibleTasks(ownerId, query);
+  const direction = sortDirection(query);
+  const select = db
+    .select(taskColumns)
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(and(sql`${tasks.id} in (${visible})`, isTopLevel))
+    .orderBy(direction(sortColumns[query.sort]), direction(tasks.id))
+    .$dynamic();
+  const roots = (perPage ? await select.limit(perPage).offset((query.page - 1) * perPage) : await select) as Task[];
+  if (roots.length === 0) {
+    return [];
+  }
+
+  const rootIds = sql.join(
+    roots.map((task) => sql`${task.id}`),
+    sql`, `
+  );
+  const descendants = (await db
+    .select(taskColumns)
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(
+      and(
+        sql`${tasks.id} in (${visible})`,
+        sql`${tasks.id} in (with recursive subtree(id) as (
+          select id from ${tasks} where parent_id in (${rootIds}) and deleted_at is null
+          union
+          select child.id from ${tasks} child join subtree on child.parent_id = subtree.id
+            where child.deleted_at is null
+        ) select id from subtree)`
+      )
+    )
+    .orderBy(query.sort === 'position' ? asc(tasks.position) : asc(tasks.id), asc(tasks.id))) as Task[];
+
+  const children = new Map<number, Task[]>();
+  for (const task of descendants) {
+    children.set(task.parentId!, [...(children.get(task.parentId!) ?? []), task]);
+  }
+  const result: NestedTask[] = [];
+  const visit = (task: Task, depth: number) => {
+    result.push({ ...task, depth });
+    for (const child of children.get(task.id) ?? []) {
+      visit(child, depth + 1);
+    }
+  };
+  roots.forEach((task) => visit(task, 0));
+  return result;
+}
+
+/**
+ * Counts the top-level tasks of a user's task tree for `query`, which is what the pages are made of.
+ *
+ * @returns {Promise<number>} The number of top-level tasks.
+ */
+export async function countTaskTrees(ownerId: number, query: TaskQuery = defaultTaskQuery): Promise<number> {
+  const [row] = await db
+    .select({ value: count() })
+    .from(tasks)
+    .where(and(sql`${tasks.id} in (${visibleTasks(ownerId, query)})`, isTopLevel));
+  return row.value;
+}
+
+/**
+ * Fetches a user's categories ordered by name.
+ *
+ * @returns {Promise<Category[]>} The categories.
+ */
+export async function fetchCategories(ownerId: number): Promise<Category[]> {
+  const result = await db
+    .select({
+      id: categories.id,
+      name: categories.name,
+    })
+    .from(categories)
+    .where(and(eq(categories.ownerId, ownerId), isNull(categories.deletedAt)))
+    .orderBy(categories.name);
+
+  return result as Category[];
+}
+
+/**
+ * Fetches a user's tasks for the calendar feed, optionally only those of one category.
+ */
+export async function fetchCalendarTasks(ownerId: number, categoryId: number | null): Promise<CalendarTask[]> {
+  const result = await db
+    .select({
+      ...taskColumns,
+      // created_at holds the server's local time, so convert it to UTC as RFC 5545 requires for CREATED
+      createdAtUtc: sql<string>`to_char(${tasks.createdAt} at time zone current_setting('TimeZone') at time zone 'UTC', 'YYYYMMDD"T"HH24MISS"Z"')`,
+    })
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(taskConditions(ownerId, { ...defaultTaskQuery, categoryId }))
+    .orderBy(asc(tasks.id));
+
+  return result as CalendarTask[];
+}
+
+/**
+ * Fetches a single task of a user with its category name.
+ *
+ * @param {number} ownerId - The id of the user the task must belong to.
+ * @param {number} id - The task id.
+ * @returns {Promise<Task | undefined>} The task, or `undefined` if the user has no such task outside the trash.
+ */
+export async function fetchTask(ownerId: number, id: number): Promise<Task | undefined> {
+  const [task] = await db
+    .select(taskColumns)
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(liveTask(ownerId, id));
+
+  return task as Task | undefined;
+}
+
+/**
+ * Fetches a single task of a user with its depth in the task tree, for rendering its row of the task list.
+ *
+ * @returns {Promise<NestedTask | undefined>} The task, or `undefined` if the user has no such task outside the trash.
+ */
+export async function fetchNestedTask(ownerId: number, id: number): Promise<NestedTask | undefined> {
+  const [task] = await db
+    .select({
+      ...taskColumns,
+      // Counts the ancestors up to the first one in the trash, above which fetchTaskTree() does not nest
+      depth: sql<number>`(with recursive ancestors(id, parent_id) as (
+        select parent.id, parent.parent_id from ${tasks} parent
+          where parent.id = ${tasks.parentId} and parent.deleted_at is null
+        union all
+        select parent.id, parent.parent_id from ${tasks} parent
+          join ancestors on parent.id = ancestors.parent_id
+          where parent.deleted_at is null
+      ) select count(*)::int from ancestors)`,
+    })
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(liveTask(ownerId, id));
+
+  return task as NestedTask | undefined;
+}
+
+/**
+ * Fetches a single category of a user.
+ *
+ * @param {number} ownerId - The id of the user the category must belong to.
+ * @param {number} id - The category id.
+ * @returns {Promise<Category | undefined>} The category, or `undefined` if the user has no such category outside the trash.
+ */
+export async function fetchCategory(ownerId: number, id: number): Promise<Category | undefined> {
+  const [category] = await db
+    .select({ id: categories.id, name: categories.name })
+    .from(categories)
+    .where(liveCategory(ownerId, id));
+
+  return category;
+}
+
+/**
+ * Inserts a task owned by a user and returns its id. The caller checks that the category and the
+ * parent task belong to the same user.
+ */
+export async function createTask(
+  ownerId: number,
+  values: {
+    title: string;
+    categoryId: number | null;
+    dueAt?: string | null;
+    priority?: TaskPriority;
+    parentId?: number | null;
+    tags?: string[];
+    recurrence?: Recurrence | null;
+  }
+): Promise<number> {
+  const { tags: tagNames, ...columns } = values;
+  return db.transaction(async (tx) => {
+    const [row] = await tx
+      .insert(tasks)
+      .values({ ...columns, ownerId })
+      .returning({ id: tasks.id });
+    if (tagNames) {
+      await setTaskTags(tx, ownerId, row.id, tagNames);
+    }
+    const [{ id, ownerId: userId, ...after }] = await snapshotTasks(tx, eq(tasks.id, row.id));
+    await logActivity(tx, [{ userId: userId!, entity: 'task', entityId: id, action: 'create', after }]);
+    return row.id;
+  });
+}
+
+/**
+ * Updates the given fields of a user's task. Choosing a category also forgets the category the
+ * task was taken out of, so restoring that category leaves the task where it is, and puts the task
+ * last in the manual order of a category it was not in before. The caller checks
+ * that the parent task belongs to the same user; a parent that would create a cycle throws a check
+ * violation on `tasks_parent_id_cycle`.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no task with the given id.
+ */
+export async function updateTask(
+  ownerId: number,
+  id: number,
+  values: {
+    title?: string;
+    done?: boolean;
+    categoryId?: number | null;
+    dueAt?: string | null;
+    priority?: TaskPriority;
+    parentId?: number | null;
+    completeWithSubtasks?: boolean;
+    tags?: string[];
+    recurrence?: Recurrence | null;
+  }
+): Promise<boolean> {
+  const { tags: tagNames, ...columns } = values;
+  const changed = await db.transaction(async (tx) => {
+    const ids = await changeTasks(tx, 'update', liveTask(ownerId, id), async (ids) => {
+      if (Object.keys(columns).length > 0) {
+        await tx
+          .update(tasks)
+          .set(
+            columns.categoryId === undefined
+              ? columns
+              : {
+                  ...columns,
+                  previousCategoryId: null,
+                  position: sql`case when ${tasks.categoryId} is distinct from ${columns.categoryId}
+                    then nextval('tasks_position_seq') else ${tasks.position} end`,
+                }
+          )
+          .where(inArray(tasks.id, ids));
+      }
+      if (tagNames) {
+        await setTaskTags(tx, ownerId, id, tagNames);
+      }
+    });
+    await createNextOccurrences(tx, ids);
+    await completeParents(tx, ids);
+    return ids;
+  });
+  return changed.length > 0;
+}
+
+/**
+ * Flips the completion status of a user's task. Completing a recurring task creates its next
+ * occurrence, and completing the last open subtask of a parent that is set to complete with its
+ * subtasks completes the parent too.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no task with the given id.
+ */
+export async function toggleTask(ownerId: number, id: number): Promise<boolean> {
+  const changed = await db.transaction(async (tx) => {
+    const ids = await changeTasks(tx, 'toggle', liveTask(ownerId, id), (ids) =>
+      tx
+        .update(tasks)
+        .set({ done: not(tasks.done) })
+        .where(inArray(tasks.id, ids))
+    );
+    await createNextOccurrences(tx, ids);
+    await completeParents(tx, ids);
+    return ids;
+  });
+  return changed.length > 0;
+}
+
+/**
+ * Where to move a task in the manual order: in front of another task with the same parent, one place
+ * up or down, or to the end of a category. Top-level tasks are ordered within their category and
+ * moving one in front of a task of another category puts it into that category; subtasks are ordered
+ * among all subtasks of their parent and keep their category.
+ */
+export type TaskMove = { beforeId: number } | { direction: 'up' | 'down' } | { categoryId: number | null };
+
+/**
+ * Moves a user's task in the manual order of the task list. The task gets a rank between those of
+ * its new neighbours, so the other tasks keep theirs unless the ranks have no room left between them.
+ * The caller checks that the category belongs to the same user.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no such task, or the task to move in front of is not a sibling.
+ */
+export async function moveTask(ownerId: number, id: number, move: TaskMove): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [task] = await tx
+      .select({ parentId: tasks.parentId, categoryId: tasks.categoryId, position: tasks.position })
+      .from(tasks)
+      .where(liveTask(ownerId, id))
+      .for('update');
+    if (!task) {
+      return false;
+    }
+
+    // The tasks that the task is ordered among when it is in the given category
+    const siblings = (categoryId: number | null) =>
+      and(
+        eq(tasks.ownerId, ownerId),
+        isNull(tasks.deletedAt),
+        ne(tasks.id, id),
+        task.parentId === null
+          ? and(
+              isNull(tasks.parentId),
+              categoryId === null ? isNull(tasks.categoryId) : eq(tasks.categoryId, categoryId)
+            )
+          : eq(tasks.parentId, task.parentId)
+      );
+
+    let beforeId: number | null = null;
+    let categoryId = task.categoryId;
+    if ('beforeId' in move) {
+      beforeId = move.beforeId;
+    } else if ('categoryId' in move) {
+      categoryId = move.categoryId;
+    } else if (move.direction === 'up') {
+      // In front of the previous sibling; the first task stays where it is
+      const [previous] = await tx
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(and(siblings(categoryId), lt(tasks.position, task.position)))
+        .orderBy(desc(tasks.position))
+        .limit(1);
+      if (!previous) return true;
+      beforeId = previous.id;
+    } else {
+      // In front of the sibling after the next one, or last; the last task stays where it is
+      const [next, afterNext] = await tx
+        .select({ id: tasks.id })
+        .from(tasks)
+        .where(and(siblings(categoryId), gt(tasks.position, task.position)))
+        .orderBy(asc(tasks.position))
+        .limit(2);
+      if (!next) return true;
+      beforeId = afterNext?.id ?? null;
+    }
+
+    let position: SQL | number = sql`nextval('tasks_position_seq')`;
+    if (beforeId !== null) {
+      const [before] = await tx
+        .select({ parentId: tasks.parentId, categoryId: tasks.categoryId })
+        .from(tasks)
+        .where(and(liveTask(ownerId, beforeId), ne(tasks.id, id)));
+      if (!before || before.parentId !== task.parentId) {
+        return false;
+      }
+      if (task.parentId === null) {
+        categoryId = before.categoryId;
+      }
+      position = await rankBefore(tx, siblings(categoryId), beforeId);
+    }
+
+    await changeTasks(tx, 'move', liveTask(ownerId, id), (ids) =>
+      tx
+        .update(tasks)
+        .set({ categoryId, position, ...(categoryId === task.categoryId ? {} : { previousCategoryId: null }) })
+        .where(inArray(tasks.id, ids))
+    );
+    return true;
+  });
+}
+
+// A rank between the task with id `beforeId` and the one in front of it. When two ranks are too close
+// for a number in between, the ranks of all the siblings are spread out again first.
+async function rankBefore(tx: Transaction, siblings: SQL | undefined, beforeId: number): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    const [{ before }] = await tx.select({ before: tasks.position }).from(tasks).where(eq(tasks.id, beforeId));
+    const [{ previous }] = await tx
+      .select({ previous: max(tasks.position) })
+      .from(tasks)
+      .where(and(siblings, lt(tasks.position, before)));
+    const position = previous === null ? before - 1 : (previous + before) / 2;
+    if ((position !== previous && position !== before) || attempt > 0) {
+      return position;
+    }
+    await tx.execute(sql`update ${tasks} set position = ranked.rank
+      from (select id, row_number() over (order by position, id) as rank from ${tasks} where ${siblings}) ranked
+      where ${tasks.id} = ranked.id`);
+  }
+}
+
+export const bulkTaskActions = ['done', 'open', 'move', 'delete'] as const;
+
+/**
+ * What to do with the tasks selected for a bulk action. `move` puts them last in a category, and
+ * `delete` moves them to the trash together with their subtasks.
+ */
+export type BulkTaskAction =
+  { action: 'done' } | { action: 'open' } | { action: 'move'; categoryId: number } | { action: 'delete' };
+
+/**
+ * The tasks a bulk action applies to: the given ids, or every task matching the filters of a task
+ * list query, at any depth and on any page.
+ */
+export type TaskSelection = { ids: number[] } | { query: TaskQuery };
+
+/**
+ * Applies an action to many of a user's tasks at once, in one transaction. Tasks the action would not
+ * change, like completed tasks when marking tasks done, are left alone. Completing tasks creates the
+ * next occurrence of recurring ones and completes their parents like toggling does. The caller checks
+ * that the category belongs to the same user.
+ *
+ * @returns {Promise<number>} How many tasks were changed, including subtasks moved to the trash with the selected tasks.
+ */
+export async function bulkUpdateTasks(
+  ownerId: number,
+  selection: TaskSelection,
+  change: BulkTaskAction
+): Promise<number> {
+  const selected =
+    'ids' in selection
+      ? and(eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt), inArray(tasks.id, selection.ids))
+      : taskConditions(ownerId, selection.query);
+  if ('ids' in selection && selection.ids.length === 0) {
+    return 0;
+  }
+  if (change.action === 'delete') {
+    await purgeExpiredTrash();
+  }
+
+  const changed = await db.transaction(async (tx) => {
+    switch (change.action) {
+      case 'done':
+      case 'open': {
+        const done = change.action === 'done';
+        const ids = await changeTasks(
+          tx,
+          'toggle',
+          and(selected, done ? sql`${tasks.done} is not true` : eq(tasks.done, true)),
+          (ids) => tx.update(tasks).set({ done }).where(inArray(tasks.id, ids))
+        );
+        await createNextOccurrences(tx, ids);
+        await completeParents(tx, ids);
+        return ids;
+      }
+      case 'move':
+        return changeTasks(
+          tx,
+          'update',
+          and(selected, sql`${tasks.categoryId} is distinct from ${change.categoryId}`),
+          (ids) =>
+            tx
+              .update(tasks)
+              .set({
+                categoryId: change.categoryId,
+                previousCategoryId: null,
+                position: sql`nextval('tasks_position_seq')`,
+              })
+              .where(inArray(tasks.id, ids))
+        );
+      case 'delete':
+        return changeTasks(
+          tx,
+          'trash',
+          and(eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt), inSubtree(selected)),
+          (ids) =>
+            tx
+              .update(tasks)
+              .set({ deletedAt: sql`now()` })
+              .where(inArray(tasks.id, ids))
+        );
+    }
+  });
+  return changed.length;
+}
+
+/**
+ * Moves a user's task to the trash. Its subtasks either go to the trash with it, and come back when
+ * it is restored, or are promoted to the task's own parent.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no task with the given id outside the trash.
+ */
+export async function trashTask(ownerId: number, id: number, subtasks: SubtaskAction = 'promote'): Promise<boolean> {
+  await purgeExpiredTrash();
+  const changed = await db.transaction(async (tx) => {
+    if (subtasks === 'promote') {
+      const [task] = await snapshotTasks(tx, liveTask(ownerId, id));
+      if (!task) {
+        return [];
+      }
+      await changeTasks(tx, 'update', and(eq(tasks.parentId, id), isNull(tasks.deletedAt)), (ids) =>
+        tx.update(tasks).set({ parentId: task.parentId }).where(inArray(tasks.id, ids))
+      );
+    }
+    return changeTasks(tx, 'trash', and(eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt), inSubtree(id)), (ids) =>
+      tx
+        .update(tasks)
+        .set({ deletedAt: sql`now()` })
+        .where(inArray(tasks.id, ids))
+    );
+  });
+  return changed.length > 0;
+}
+
+/**
+ * Counts the subtasks outside the trash that a user's task has at any depth.
+ */
+export async function countSubtasks(ownerId: number, id: number): Promise<number> {
+  const [row] = await db
+    .select({ value: count() })
+    .from(tasks)
+    .where(and(eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt), inSubtree(id), sql`${tasks.id} <> ${id}`));
+  return row.value;
+}
+
+/**
+ * Inserts a category owned by a user and returns its id.
+ */
+export async function createCategory(ownerId: number, name: string): Promise<number> {
+  return db.transaction(async (tx) => {
+    const [row] = await tx.insert(categories).values({ name, ownerId }).returning({ id: categories.id });
+    await logActivity(tx, [
+      { userId: ownerId, entity: 'category', entityId: row.id, action: 'create', after: { name } },
+    ]);
+    return row.id;
+  });
+}
+
+/**
+ * Renames a user's category.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no category with the given id.
+ */
+export async function updateCategory(ownerId: number, id: number, name: string): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [category] = await lockCategory(tx, liveCategory(ownerId, id));
+    if (!category) {
+      return false;
+    }
+
+    await tx.update(categories).set({ name }).where(eq(categories.id, id));
+    if (category.name !== name) {
+      await logActivity(tx, [
+        {
+          userId: ownerId,
+          entity: 'category',
+          entityId: id,
+          action: 'rename',
+          before: { name: category.name },
+          after: { name },
+        },
+      ]);
+    }
+    return true;
+  });
+}
+
+/**
+ * Counts the tasks outside the trash that a user has assigned to a category.
+ */
+export async function countCategoryTasks(ownerId: number, id: number): Promise<number> {
+  const [row] = await db
+    .select({ value: count() })
+    .from(tasks)
+    .where(and(eq(tasks.categoryId, id), eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt)));
+  return row.value;
+}
+
+/**
+ * Moves every task of one category into another and deletes the source category,
+ * in a single transaction. The caller checks that the target belongs to the same user.
+ *
+ * @returns {Promise<number | null>} The number of moved tasks, or `null` if the user has no such source category.
+ */
+export async function mergeCategory(ownerId: number, sourceId: number, targetId: number): Promise<number | null> {
+  return db.transaction(async (tx) => {
+    const [source] = await lockCategory(tx, liveCategory(ownerId, sourceId));
+    if (!source) {
+      return null;
+    }
+
+    const moved = await changeTasks(
+      tx,
+      'update',
+      and(eq(tasks.categoryId, sourceId), eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt)),
+      (ids) => tx.update(tasks).set({ categoryId: targetId }).where(inArray(tasks.id, ids))
+    );
+    // Tasks in the trash follow silently; their history starts again when they are restored
+    await tx.update(tasks).set({ categoryId: targetId }).where(eq(tasks.categoryId, sourceId));
+    await tx.delete(categories).where(eq(categories.id, sourceId));
+
+    const [target] = await tx.select({ name: categories.name }).from(categories).where(eq(categories.id, targetId));
+    await logActivity(tx, [
+      {
+        userId: ownerId,
+        entity: 'category',
+        entityId: sourceId,
+        action: 'merge',
+        before: { name: source.name },
+        after: { mergedInto: target?.name ?? null, tasks: moved.length },
+      },
+    ]);
+    return moved.length;
+  });
+}
+
+/**
+ * Moves a user's category to the trash and, in the same transaction, deals with its tasks according
+ * to `action`. Tasks that are moved or uncategorised remember the category, so that restoring it
+ * brings them back; tasks that go to the trash with it are restored along with it.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no category with the given id outside the trash.
+ */
+export async function trashCategory(
+  ownerId: number,
+  id: number,
+  action: CategoryTaskAction = 'uncategorise',
+  targetId?: number
+): Promise<boolean> {
+  await purgeExpiredTrash();
+  return db.transaction(async (tx) => {
+    const [category] = await lockCategory(tx, liveCategory(ownerId, id));
+    if (!category) {
+      return false;
+    }
+
+    const categoryTasks = and(eq(tasks.categoryId, id), eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt));
+    if (action === 'delete') {
+      await changeTasks(tx, 'trash', categoryTasks, (ids) =>
+        tx
+          .update(tasks)
+          .set({ deletedAt: sql`now()` })
+          .where(inArray(tasks.id, ids))
+      );
+    } else {
+      await changeTasks(tx, 'update', categoryTasks, (ids) =>
+        tx
+          .update(tasks)
+          .set({ categoryId: action === 'reassign' ? targetId : null, previousCategoryId: id })
+          .where(inArray(tasks.id, ids))
+      );
+    }
+
+    // now() is the start of the transaction, so this matches the tasks trashed above
+    await tx
+      .update(categories)
+      .set({ deletedAt: sql`now()` })
+      .where(eq(categories.id, id));
+    await logActivity(tx, [
+      { userId: ownerId, entity: 'category', entityId: id, action: 'trash', before: { name: category.name } },
+    ]);
+    return true;
+  });
+}
+
+/**
+ * Fetches a user's tags ordered by name, with the number of tasks outside the trash that carry each.
+ */
+export async function fetchTags(ownerId: number): Promise<Tag[]> {
+  const result = await db
+    .select({
+      id: tags.id,
+      name: tags.name,
+      // Drizzle leaves columns unqualified in a query of one table, so the subquery names its own
+      taskCount: sql<number>`(select count(*)::int from ${taskTags} tt join ${tasks} t on t.id = tt.task_id
+        where tt.tag_id = ${tags}.id and t.deleted_at is null)`,
+    })
+    .from(tags)
+    .where(eq(tags.ownerId, ownerId))
+    .orderBy(sql`lower(${tags.name})`);
+
+  return result as Tag[];
+}
+
+/**
+ * Fetches a single tag of a user.
+ *
+ * @returns {Promise<TaskTag | undefined>} The tag, or `undefined` if the user has no such tag.
+ */
+export async function fetchTag(ownerId: number, id: number): Promise<TaskTag | undefined> {
+  const [tag] = await db
+    .select({ id: tags.id, name: tags.name })
+    .from(tags)
+    .where(and(eq(tags.id, id), eq(tags.ownerId, ownerId)));
+
+  return tag;
+}
+
+/**
+ * Renames a user's tag. Throws a unique violation on `tags_name_key` if another tag has the name.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no tag with the given id.
+ */
+export async function renameTag(ownerId: number, id: number, name: string): Promise<boolean> {
+  const renamed = await db
+    .update(tags)
+    .set({ name })
+    .where(and(eq(tags.id, id), eq(tags.ownerId, ownerId)))
+    .returning({ id: tags.id });
+  return renamed.length > 0;
+}
+
+/**
+ * Deletes a user's tag, taking it off every task that carries it. The tasks outside the trash
+ * get an update in the activity log.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no tag with the given id.
+ */
+export async function deleteTag(ownerId: number, id: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [tag] = await tx
+      .select({ id: tags.id })
+      .from(tags)
+      .where(and(eq(tags.id, id), eq(tags.ownerId, ownerId)))
+      .for('update');
+    if (!tag) {
+      return false;
+    }
+
+    await changeTasks(
+      tx,
+      'update',
+      and(
+        eq(tasks.ownerId, ownerId),
+        isNull(tasks.deletedAt),
+        sql`exists (select 1 from ${taskTags} where ${taskTags.taskId} = ${tasks.id} and ${taskTags.tagId} = ${id})`
+      ),
+      (ids) => tx.delete(taskTags).where(and(eq(taskTags.tagId, id), inArray(taskTags.taskId, ids)))
+    );
+    // Removes the tag from the tasks in the trash as well
+    await tx.delete(tags).where(eq(tags.id, id));
+    return true;
+  });
+}
+
+/**
+ * Fetches the tasks and categories a user has in the trash, most recently trashed first.
+ */
+export async function fetchTrash(ownerId: number): Promise<{ tasks: TrashedTask[]; categories: TrashedCategory[] }> {
+  const [trashedTasks, trashedCategories] = await Promise.all([
+    db
+      .select({ id: tasks.id, title: tasks.title, categoryName: categories.name, deletedAt: tasks.deletedAt })
+      .from(tasks)
+      .leftJoin(categories, eq(tasks.categoryId, categories.id))
+      .where(and(eq(tasks.ownerId, ownerId), isNotNull(tasks.deletedAt)))
+      .orderBy(desc(tasks.deletedAt), desc(tasks.id)),
+    db
+      .select({
+        id: categories.id,
+        name: categories.name,
+        deletedAt: categories.deletedAt,
+        // As in fetchTags, the subquery names the columns of both tables itself
+        taskCount: sql<number>`(select count(*)::int from ${tasks} t where t.previous_category_id = ${categories}.id
+          or (t.category_id = ${categories}.id and t.deleted_at = ${categories}.deleted_at))`,
+      })
+      .from(categories)
+      .where(and(eq(categories.ownerId, ownerId), isNotNull(categories.deletedAt)))
+      .orderBy(desc(categories.deletedAt), desc(categories.id)),
+  ]);
+
+  return { tasks: trashedTasks as TrashedTask[], categories: trashedCategories as TrashedCategory[] };
+}
+
+/**
+ * Takes a user's task out of the trash, together with the subtasks that went to the trash with it.
+ * If a task's category is still in the trash, it comes back without a category and returns to it
+ * when the category is restored.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no such task in the trash.
+ */
+export async function restoreTask(ownerId: number, id: number): Promise<boolean> {
+  const categoryTrashed = sql`exists (select 1 from ${categories} where ${categories.id} = ${tasks.categoryId} and ${categories.deletedAt} is not null)`;
+  const changed = await db.transaction((tx) =>
+    changeTasks(tx, 'restore', and(eq(tasks.ownerId, ownerId), isNotNull(tasks.deletedAt), inSubtree(id)), (ids) =>
+      tx
+        .update(tasks)
+        .set({
+          deletedAt: null,
+          categoryId: sql`case when ${categoryTrashed} then null else ${tasks.categoryId} end`,
+          previousCategoryId: sql`case when ${categoryTrashed} then ${tasks.categoryId} else ${tasks.previousCategoryId} end`,
+        })
+        .where(inArray(tasks.id, ids))
+    )
+  );
+  return changed.length > 0;
+}
+
+/**
+ * Takes a user's category out of the trash in a single transaction, together with the tasks that
+ * went to the trash with it and the assignments of the tasks that were moved out of it.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no such category in the trash. Throws a unique
+ * violation if another category has taken its name in the meantime.
+ */
+export async function restoreCategory(ownerId: number, id: number): Promise<boolean> {
+  return db.transaction(async (tx) => {
+    const [category] = await lockCategory(tx, trashedCategory(ownerId, id));
+    if (!category) {
+      return false;
+    }
+
+    await tx.update(categories).set({ deletedAt: null }).where(eq(categories.id, id));
+    await logActivity(tx, [
+      { userId: ownerId, entity: 'category', entityId: id, action: 'restore', after: { name: category.name } },
+    ]);
+    await changeTasks(tx, 'restore', and(eq(tasks.categoryId, id), eq(tasks.deletedAt, category.deletedAt!)), (ids) =>
+      tx.update(tasks).set({ deletedAt: null }).where(inArray(tasks.id, ids))
+    );
+    await changeTasks(tx, 'update', eq(tasks.previousCategoryId, id), (ids) =>
+      tx.update(tasks).set({ categoryId: id, previousCategoryId: null }).where(inArray(tasks.id, ids))
+    );
+    return true;
+  });
+}
+
+/**
+ * Permanently deletes a user's task from the trash.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no such task in the trash.
+ */
+export async function purgeTask(ownerId: number, id: number): Promise<boolean> {
+  const purged = await db.transaction((tx) =>
+    changeTasks(tx, 'purge', trashedTask(ownerId, id), (ids) => tx.delete(tasks).where(inArray(tasks.id, ids)))
+  );
+  return purged.length > 0;
+}
+
+/**
+ * Permanently deletes a user's category from the trash. Tasks that would have returned to it stay
+ * where they are; tasks that went to the trash with it stay there without a category.
+ *
+ * @returns {Promise<boolean>} `false` if the user has no such category in the trash.
+ */
+export async function purgeCategory(ownerId: number, id: number): Promise<boolean> {
+  const purged = await db.transaction((tx) => purgeCategories(tx, trashedCategory(ownerId, id)));
+  return purged > 0;
+}
+
+/**
+ * Permanently deletes everything a user has in the trash.
+ */
+export async function emptyTrash(ownerId: number): Promise<void> {
+  await db.transaction(async (tx) => {
+    await changeTasks(tx, 'purge', and(eq(tasks.ownerId, ownerId), isNotNull(tasks.deletedAt)), (ids) =>
+      tx.delete(tasks).where(inArray(tasks.id, ids))
+    );
+    await purgeCategories(tx, and(eq(categories.ownerId, ownerId), isNotNull(categories.deletedAt)));
+  });
+}
+
+/**
+ * Permanently deletes tasks and categories of all users that have been in the trash for longer than
+ * `TRASH_RETENTION_DAYS`. Runs whenever something is moved to the trash or the trash is viewed.
+ */
+export async function purgeExpiredTrash(): Promise<void> {
+  const cutoff = sql`now() - make_interval(days => ${TRASH_RETENTION_DAYS})`;
+  await db.transaction(async (tx) => {
+    await changeTasks(tx, 'purge', lt(tasks.deletedAt, cutoff), (ids) =>
+      tx.delete(tasks).where(inArray(tasks.id, ids))
+    );
+    await purgeCategories(tx, lt(categories.deletedAt, cutoff));
+  });
+}
+
+const activityColumns = {
+  id: activity.id,
+  entity: activity.entity,
+  entityId: activity.entityId,
+  action: activity.action,
+  before: activity.before,
+  after: activity.after,
+  createdAt: activity.createdAt,
+  userEmail: users.email,
+};
+
+/**
+ * Builds the WHERE clause for the owner and the filters of an activity query.
+ */
+function activityConditions(ownerId: number, query: ActivityQuery): SQL | undefined {
+  const conditions: SQL[] = [eq(activity.userId, ownerId)];
+
+  if (query.entity) {
+    conditions.push(eq(activity.entity, query.entity));
+  }
+  if (query.action) {
+    conditions.push(eq(activity.action, query.action));
+  }
+  if (query.from) {
+    conditions.push(gte(activity.createdAt, query.from));
+  }
+  if (query.to) {
+    conditions.push(sql`${activity.createdAt} < ${query.to}::date + interval '1 day'`);
+  }
+
+  return and(...conditions);
+}
+
+/**
+ * Carries out an import plan for a user in a single transaction: creates the new categories, then
+ * inserts and updates the tasks, logging every change.
+ *
+ * @returns The number of created categories, created tasks and updated tasks. Throws a unique
+ * violation if a category with one of the new names was created in the meantime.
+ */
+export async function applyImport(
+  ownerId: number,
+  plan: ImportPlan
+): Promise<{ categories: number; created: number; updated: number }> {
+  return db.transaction(async (tx) => {
+    if (plan.newCategories.length > 0) {
+      const created = await tx
+        .insert(categories)
+        .values(plan.newCategories.map((name) => ({ name, ownerId })))
+        .returning({ id: categories.id, name: categories.name });
+      await logActivity(
+        tx,
+        created.map((category) => ({
+          userId: ownerId,
+          entity: 'category' as const,
+          entityId: category.id,
+          action: 'create' as const,
+          after: { name: category.name },
+        }))
+      );
+    }
+
+    const ownCategories = await tx
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(and(eq(categories.ownerId, ownerId), isNull(categories.deletedAt)));
+    const categoryIds = new Map(ownCategories.map((category) => [category.name, category.id]));
+    const categoryId = (name: string | null) => (name === null ? null : (categoryIds.get(name) ?? null));
+
+    if (plan.createTasks.length > 0) {
+      const inserted = await tx
+        .insert(tasks)
+        .values(
+          plan.createTasks.map(({ categoryName, ...task }) => ({
+            ...task,
+            categoryId: categoryId(categoryName),
+            ownerId,
+          }))
+        )
+        .returning({ id: tasks.id });
+      const snapshots = await snapshotTasks(
+        tx,
+        inArray(
+          tasks.id,
+          inserted.map((row) => row.id)
+        )
+      );
+      await logActivity(
+        tx,
+        snapshots.map(({ id, ownerId: userId, ...after }) => ({
+          userId: userId!,
+          entity: 'task' as const,
+          entityId: id,
+          action: 'create' as const,
+          after,
+        }))
+      );
+    }
+
+    for (const { id, done, dueAt, priority } of plan.updateTasks) {
+      await changeTasks(tx, 'update', liveTask(ownerId, id), (ids) =>
+        tx.update(tasks).set({ done, dueAt, priority }).where(inArray(tasks.id, ids))
+      );
+    }
+
+    return {
+      categories: plan.newCategories.length,
+      created: plan.createTasks.length,
+      updated: plan.updateTasks.length,
+    };
+  });
+}
+
+/**
+ * Writes a dataset of categories and tasks for a user in one transaction, keeping the tasks' creation
+ * times. Categories the user already has are used instead of creating them again. Nothing is
+ * written to the activity log.
+ *
+ * @returns {Promise<{ categories: number; tasks: number }>} How many categories and tasks were created.
+ */
+export async function insertDataset(ownerId: number, dataset: Dataset): Promise<{ categories: number; tasks: number }> {
+  return db.transaction(async (tx) => {
+    const existing = await tx
+      .select({ id: categories.id, name: categories.name })
+      .from(categories)
+      .where(and(eq(categories.ownerId, ownerId), isNull(categories.deletedAt)));
+    const idsByName = new Map(existing.map((category) => [category.name, category.id]));
+
+    const newCategories = dataset.categories.filter((category) => !idsByName.has(category.name));
+    if (newCategories.length > 0) {
+      const created = await tx
+        .insert(categories)
+        .values(newCategories.map(({ name }) => ({ name, ownerId })))
+        .returning({ id: categories.id, name: categories.name });
+      created.forEach((category) => idsByName.set(category.name, category.id));
+    }
+    const categoryIds = new Map(dataset.categories.map((category) => [category.id, idsByName.get(category.name)!]));
+
+    if (dataset.tasks.length > 0) {
+      // In order, so the positions they get from the sequence follow their creation times
+      await tx.insert(tasks).values(
+        dataset.tasks.map(({ title, done, createdAt, categoryId, dueAt, priority }) => ({
+          title,
+          done,
+          createdAt,
+          categoryId: categoryId === null ? null : (categoryIds.get(categoryId) ?? null),
+          dueAt,
+          priority,
+          ownerId,
+        }))
+      );
+    }
+    return { categories: newCategories.length, tasks: dataset.tasks.length };
+  });
+}
+
+/**
+ * Fetches a user's activity log, newest first, filtered according to `query`.
+ *
+ * @returns {Promise<ActivityEntry[]>} One page of entries.
+ */
+export async function fetchActivity(ownerId: number, query: ActivityQuery, perPage: number): Promise<ActivityEntry[]> {
+  const result = await db
+    .select(activityColumns)
+    .from(activity)
+    .innerJoin(users, eq(activity.userId, users.id))
+    .where(activityConditions(ownerId, query))
+    .orderBy(desc(activity.createdAt), desc(activity.id))
+    .limit(perPage)
+    .offset((query.page - 1) * perPage);
+
+  return result as ActivityEntry[];
+}
+
+/**
+ * Counts the entries of a user's activity log matching the filters of `query`.
+ *
+ * @returns {Promise<number>} The number of entries.
+ */
+export async function countActivity(ownerId: number, query: ActivityQuery): Promise<number> {
+  const [row] = await db.select({ value: count() }).from(activity).where(activityConditions(ownerId, query));
+  return row.value;
+}
+
+/**
+ * Fetches the history of one of a user's tasks, newest first.
+ */
+export async function fetchTaskHistory(ownerId: number, taskId: number): Promise<ActivityEntry[]> {
+  const result = await db
+    .select(activityColumns)
+    .from(activity)
+    .innerJoin(users, eq(activity.userId, users.id))
+    .where(and(eq(activity.userId, ownerId), eq(activity.entity, 'task'), eq(activity.entityId, taskId)))
+    .orderBy(desc(activity.createdAt), desc(activity.id));
+
+  return result as ActivityEntry[];
+}
+
+/**
+ * Fetches the entries of a user's activity log after the one with the given id, oldest first,
+ * for the live updates of open pages.
+ */
+export async function fetchActivitySince(
+  ownerId: number,
+  afterId: number,
+  limit: number
+): Promise<Pick<ActivityEntry, 'id' | 'entity' | 'entityId' | 'action'>[]> {
+  return db
+    .select({ id: activity.id, entity: activity.entity, entityId: activity.entityId, action: activity.action })
+    .from(activity)
+    .where(and(eq(activity.userId, ownerId), gt(activity.id, afterId)))
+    .orderBy(asc(activity.id))
+    .limit(limit);
+}
+
+/**
+ * Returns the id of the newest entry of a user's activity log, or 0 if it is empty.
+ */
+export async function latestActivityId(ownerId: number): Promise<number> {
+  const [row] = await db
+    .select({ value: sql<number>`coalesce(max(${activity.id}), 0)::int` })
+    .from(activity)
+    .where(eq(activity.userId, ownerId));
+  return row.value;
+}
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type ActivityRecord = typeof activity.$inferInsert;
+
+// Every entry of the log is written through here, inside the transaction of the change it describes
+async function logActivity(tx: Transaction, records: ActivityRecord[]): Promise<void> {
+  if (records.length > 0) {
+    await tx.insert(activity).values(records);
+  }
+}
+
+// Task fields recorded in the activity log. The category is kept by name, so entries stay readable
+// after the category is gone.
+function snapshotTasks(tx: Transaction, where: SQL | undefined) {
+  return tx
+    .select({
+      id: tasks.id,
+      ownerId: tasks.ownerId,
+      title: tasks.title,
+      done: tasks.done,
+      category: categories.name,
+      dueAt: tasks.dueAt,
+      priority: tasks.priority,
+      parentId: tasks.parentId,
+      tags: sql<string[]>`array(select ${tags.name} from ${taskTags} join ${tags} on ${tags.id} = ${taskTags.tagId}
+        where ${taskTags.taskId} = ${tasks.id} order by lower(${tags.name}))`,
+      recurrence: tasks.recurrence,
+    })
+    .from(tasks)
+    .leftJoin(categories, eq(tasks.categoryId, categories.id))
+    .where(where)
+    .orderBy(tasks.id)
+    .for('update', { of: tasks });
+}
+
+/**
+ * Applies `change` to the tasks matching `where` and logs an entry per task with its fields before
+ * and after. Updates that change nothing are not logged.
+ *
+ * @returns {Promise<number[]>} The ids of the changed tasks.
+ */
+async function changeTasks(
+  tx: Transaction,
+  action: ActivityAction,
+  where: SQL | undefined,
+  change: (ids: number[]) => Promise<unknown>
+): Promise<number[]> {
+  const before = await snapshotTasks(tx, where);
+  if (before.length === 0) {
+    return [];
+  }
+
+  const ids = before.map((task) => task.id);
+  await change(ids);
+  const after = action === 'purge' ? [] : await snapshotTasks(tx, inArray(tasks.id, ids));
+  const afterById = new Map(after.map(({ id, ownerId, ...fields }) => [id, fields]));
+
+  const records: ActivityRecord[] = [];
+  for (const { id, ownerId, ...fields } of before) {
+    const afterFields = afterById.get(id) ?? null;
+    if (ownerId === null || (action === 'update' && JSON.stringify(fields) === JSON.stringify(afterFields))) {
+      continue;
+    }
+    records.push({
+      userId: ownerId,
+      entity: 'task',
+      entityId: id,
+      action,
+      before: action === 'restore' ? null : fields,
+      after: action === 'trash' ? null : afterFields,
+    });
+  }
+  await logActivity(tx, records);
+  return ids;
+}
+
+/**
+ * Replaces the tags of a task with the given names, creating the tags the user does not have yet.
+ * Names are matched regardless of case.
+ */
+async function setTaskTags(tx: Transaction, ownerId: number, taskId: number, names: string[]): Promise<void> {
+  const tagIds: number[] = [];
+  if (names.length > 0) {
+    await tx
+      .insert(tags)
+      .values(names.map((name) => ({ name, ownerId })))
+      .onConflictDoNothing();
+    const rows = await tx
+      .select({ id: tags.id })
+      .from(tags)
+      .where(
+        and(
+          eq(tags.ownerId, ownerId),
+          inArray(
+            sql`lower(${tags.name})`,
+            names.map((name) => name.toLowerCase())
+          )
+        )
+      );
+    tagIds.push(...rows.map((row) => row.id));
+  }
+
+  await tx
+    .delete(taskTags)
+    .where(and(eq(taskTags.taskId, taskId), tagIds.length > 0 ? not(inArray(taskTags.tagId, tagIds)) : undefined));
+  if (tagIds.length > 0) {
+    await tx
+      .insert(taskTags)
+      .values(tagIds.map((tagId) => ({ taskId, tagId })))
+      .onConflictDoNothing();
+  }
+}
+
+/**
+ * Creates the next occurrence of each of the given tasks that is done and recurring, with the same
+ * title, category, priority, parent and tags. The rule moves to the new occurrence, so completing a
+ * task again after reopening it does not create a second one.
+ */
+async function createNextOccurrences(tx: Transaction, ids: number[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const completed = await tx
+    .select({
+      id: tasks.id,
+      ownerId: tasks.ownerId,
+      title: tasks.title,
+      categoryId: tasks.categoryId,
+      priority: tasks.priority,
+      parentId: tasks.parentId,
+      dueAt: tasks.dueAt,
+      recurrence: tasks.recurrence,
+      // Due dates are in the database's time zone, so the current time has to be as well
+      now: sql<string>`localtimestamp::text`,
+    })
+    .from(tasks)
+    .where(and(inArray(tasks.id, ids), eq(tasks.done, true), isNotNull(tasks.recurrence)));
+
+  for (const { id: previousId, dueAt, now, recurrence, ...task } of completed) {
+    const rule = recurrence as Recurrence;
+    const [row] = await tx
+      .insert(tasks)
+      .values({ ...task, dueAt: nextOccurrence(rule, dueAt, now), recurrence: rule })
+      .returning({ id: tasks.id });
+    await tx.execute(
+      sql`insert into ${taskTags} (task_id, tag_id) select ${row.id}, tag_id from ${taskTags} where task_id = ${previousId}`
+    );
+    const [{ id, ownerId: userId, ...after }] = await snapshotTasks(tx, eq(tasks.id, row.id));
+    await logActivity(tx, [{ userId: userId!, entity: 'task', entityId: id, action: 'create', after }]);
+
+    await changeTasks(tx, 'update', eq(tasks.id, previousId), (ids) =>
+      tx.update(tasks).set({ recurrence: null }).where(inArray(tasks.id, ids))
+    );
+  }
+}
+
+/**
+ * Completes the parents of the given tasks that are set to complete with their subtasks once all of
+ * their subtasks are done, and so on up the tree.
+ */
+async function completeParents(tx: Transaction, ids: number[]): Promise<void> {
+  while (ids.length > 0) {
+    ids = await changeTasks(
+      tx,
+      'toggle',
+      and(
+        sql`${tasks.id} in (select parent_id from ${tasks} child where child.id in (${sql.join(
+          ids.map((id) => sql`${id}`),
+          sql`, `
+        )}))`,
+        isNull(tasks.deletedAt),
+        eq(tasks.completeWithSubtasks, true),
+        sql`${tasks.done} is not true`,
+        sql`not exists (select 1 from ${tasks} child
+          where child.parent_id = ${tasks.id} and child.deleted_at is null and child.done is not true)`
+      ),
+      (ids) => tx.update(tasks).set({ done: true }).where(inArray(tasks.id, ids))
+    );
+  }
+}
+
+// A task, or the tasks matching a condition, and the subtasks below them that are in the same place,
+// in or out of the trash. For a task in the trash, that is the subtasks that went to the trash at the same time.
+function inSubtree(roots: number | SQL | undefined): SQL {
+  return sql`${tasks.id} in (with recursive subtree(id, deleted_at) as (
+      select id, deleted_at from ${tasks} where ${typeof roots === 'number' ? sql`id = ${roots}` : roots}
+      union
+      select child.id, child.deleted_at from ${tasks} child join subtree on child.parent_id = subtree.id
+        where child.deleted_at is not distinct from subtree.deleted_at
+    ) select id from subtree)`;
+}
+
+function lockCategory(tx: Transaction, where: SQL | undefined) {
+  return tx
+    .select({ name: categories.name, deletedAt: categories.deletedAt })
+    .from(categories)
+    .where(where)
+    .for('update');
+}
+
+// Deletes the categories matching `where` and logs each of them; returns how many there were
+async function purgeCategories(tx: Transaction, where: SQL | undefined): Promise<number> {
+  const purged = await tx
+    .delete(categories)
+    .where(where)
+    .returning({ id: categories.id, ownerId: categories.ownerId, name: categories.name });
+  await logActivity(
+    tx,
+    purged
+      .filter((category) => category.ownerId !== null)
+      .map((category) => ({
+        userId: category.ownerId!,
+        entity: 'category' as const,
+        entityId: category.id,
+        action: 'purge' as const,
+        before: { name: category.name },
+      }))
+  );
+  return purged.length;
+}
+
+// A task of the user that is not in the trash
+function liveTask(ownerId: number, id: number): SQL | undefined {
+  return and(eq(tasks.id, id), eq(tasks.ownerId, ownerId), isNull(tasks.deletedAt));
+}
+
+// A task of the user that is in the trash
+function trashedTask(ownerId: number, id: number): SQL | undefined {
+  return and(eq(tasks.id, id), eq(tasks.ownerId, ownerId), isNotNull(tasks.deletedAt));
+}
+
+// A category of the user that is in the trash
+function trashedCategory(ownerId: number, id: number): SQL | undefined {
+  return and(eq(categories.id, id), eq(categories.ownerId, ownerId), isNotNull(categories.deletedAt));
+}
+
+// A category of the user that is not in the trash
+function liveCategory(ownerId: number, id: number): SQL | undefined {
+  return and(eq(categories.id, id), eq(categories.ownerId, ownerId), isNull(categories.deletedAt));
+}
+
+/**
+ * Runs a trivial query, which fails if no connection to the database can be made.
+ */
+export async function pingDatabase(): Promise<void> {
+  await pool.query('SELECT 1');
+}
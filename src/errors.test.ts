@@ -0,0 +1,98 @@
+import { describe, expect, test } from 'bun:test';
+import { Hono } from 'hono';
+import { requestId } from 'hono/request-id';
+import { HTTPException } from 'hono/http-exception';
+import {
+  isUniqueViolation,
+  isCheckViolation,
+  isConnectionError,
+  describeError,
+  errorHandler,
+  notFoundHandler,
+} from './errors';
+import type { RenderError } from './errors';
+
+// The shapes node-postgres and Bun's SQL client give the same unique violation
+const pgError = Object.assign(new Error('duplicate key'), { code: '23505', constraint: 'categories_name_key' });
+const bunError = Object.assign(new Error('duplicate key'), {
+  code: 'ERR_POSTGRES_SERVER_ERROR',
+  errno: '23505',
+  constraint: 'categories_name_key',
+});
+
+describe('Postgres errors', () => {
+  test('are recognised from both clients', () => {
+    for (const error of [pgError, bunError]) {
+      expect(isUniqueViolation(error)).toBe(true);
+      expect(isUniqueViolation(error, 'categories_name_key')).toBe(true);
+      expect(isUniqueViolation(error, 'tags_name_key')).toBe(false);
+      expect(isCheckViolation(error)).toBe(false);
+    }
+    expect(isUniqueViolation(null)).toBe(false);
+    expect(isUniqueViolation(new Error('23505'))).toBe(false);
+  });
+
+  test('that mean the database cannot be reached are told apart', () => {
+    expect(isConnectionError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toBe(true);
+    expect(isConnectionError(Object.assign(new Error('closed'), { code: 'ERR_POSTGRES_CONNECTION_CLOSED' }))).toBe(
+      true
+    );
+    expect(isConnectionError(Object.assign(new Error('shutting down'), { code: '57P01' }))).toBe(true);
+    expect(isConnectionError(new Error('timeout exceeded when trying to connect'))).toBe(true);
+    expect(isConnectionError(pgError)).toBe(false);
+  });
+});
+
+describe('describeError', () => {
+  test('explains known errors without their details', () => {
+    expect(describeError(bunError)).toMatchObject({ status: 409, title: 'Already exists' });
+    expect(describeError(Object.assign(new Error('fk'), { code: '23503' }))).toMatchObject({ status: 409 });
+    expect(describeError(Object.assign(new Error('refused'), { code: 'ECONNREFUSED' }))).toMatchObject({
+      status: 503,
+    });
+    expect(describeError(new HTTPException(413, { message: 'Too large' }))).toMatchObject({
+      status: 413,
+      message: 'Too large',
+    });
+
+    const page = describeError(new Error('relation "tasks" does not exist'));
+    expect(page).toEqual({
+      status: 500,
+      title: 'Something went wrong',
+      message: 'The request could not be completed.',
+    });
+  });
+});
+
+describe('error handlers', () => {
+  const render: RenderError = (c, page) => c.html(`<h1>${page.title}</h1><p>${page.requestId}</p>`, page.status);
+  const app = new Hono();
+  app.use('*', requestId({ generator: () => 'req-1' }));
+  app.onError(errorHandler(render));
+  app.notFound(notFoundHandler(render));
+  app.get('/broken', () => {
+    throw new Error('relation "tasks" does not exist');
+  });
+  app.get('/api/v1/broken', () => {
+    throw pgError;
+  });
+
+  test('render a page with the request id for browsers', async () => {
+    const res = await app.request('/broken');
+    expect(res.status).toBe(500);
+    const html = await res.text();
+    expect(html).toBe('<h1>Something went wrong</h1><p>req-1</p>');
+    expect((await app.request('/missing')).status).toBe(404);
+  });
+
+  test('answer the API and scripts with JSON', async () => {
+    const res = await app.request('/api/v1/broken');
+    expect(res.status).toBe(409);
+    expect(await res.json()).toEqual({
+      error: 'Something with the same name already exists. Choose another name and try again.',
+      requestId: 'req-1',
+    });
+    const missing = await app.request('/missing', { headers: { Accept: 'application/json' } });
+    expect(await missing.json()).toEqual({ error: 'There is nothing at this address.', requestId: 'req-1' });
+  });
+});
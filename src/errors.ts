@@ -0,0 +1,135 @@
+import type { Context, Env, ErrorHandler, NotFoundHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+
+/**
+ * What went wrong with a request, in words for the person who made it. The details of the cause
+ * only go to the logs.
+ */
+export interface ErrorPage {
+  status: ContentfulStatusCode;
+  title: string;
+  message: string;
+  // Lets a user reporting the problem point at its entry in the logs
+  requestId?: string;
+}
+
+/**
+ * Renders the HTML page for an error, in the layout of the app it happened in.
+ */
+export type RenderError<E extends Env = Env> = (c: Context<E>, page: ErrorPage) => Response | Promise<Response>;
+
+// node-postgres puts the SQLSTATE in `code`, Bun's SQL client in `errno`
+function sqlState(error: unknown): string | undefined {
+  const { code, errno } = (error ?? {}) as { code?: unknown; errno?: unknown };
+  if (typeof code === 'string' && /^[0-9A-Z]{5}$/.test(code)) return code;
+  return typeof errno === 'string' ? errno : undefined;
+}
+
+function violatedConstraint(error: unknown): string | undefined {
+  return (error as { constraint?: string } | null)?.constraint;
+}
+
+/**
+ * Checks whether an error is a Postgres unique violation, optionally on a specific constraint.
+ */
+export function isUniqueViolation(error: unknown, constraint?: string): boolean {
+  return sqlState(error) === '23505' && (!constraint || violatedConstraint(error) === constraint);
+}
+
+/**
+ * Checks whether an error is a Postgres check violation, optionally on a specific constraint.
+ */
+export function isCheckViolation(error: unknown, constraint?: string): boolean {
+  return sqlState(error) === '23514' && (!constraint || violatedConstraint(error) === constraint);
+}
+
+/**
+ * Checks whether an error is a Postgres foreign key violation.
+ */
+export function isForeignKeyViolation(error: unknown): boolean {
+  return sqlState(error) === '23503';
+}
+
+const connectionCodes = ['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'ENOTFOUND', 'EAI_AGAIN'];
+
+/**
+ * Checks whether an error means the database could not be reached or went away: the connection
+ * was refused, timed out or was closed, or the server is starting up or shutting down.
+ */
+export function isConnectionError(error: unknown): boolean {
+  const state = sqlState(error);
+  if (state && (state.startsWith('08') || ['57P01', '57P02', '57P03'].includes(state))) {
+    return true;
+  }
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  if (typeof code === 'string' && (connectionCodes.includes(code) || code.startsWith('ERR_POSTGRES_CONNECTION'))) {
+    return true;
+  }
+  // The pg pool reports a full pool and a dropped connection without a code
+  return typeof message === 'string' && /timeout exceeded when trying to connect|Connection terminated/.test(message);
+}
+
+/**
+ * Turns an error into the response the user sees. Known Postgres errors get an explanation, every
+ * other error a generic message that gives nothing of the query or the schema away.
+ */
+export function describeError(error: unknown): ErrorPage {
+  if (error instanceof HTTPException) {
+    return { status: error.status, title: 'Request failed', message: error.message || 'The request was rejected.' };
+  }
+  if (isUniqueViolation(error)) {
+    return {
+      status: 409,
+      title: 'Already exists',
+      message: 'Something with the same name already exists. Choose another name and try again.',
+    };
+  }
+  if (isForeignKeyViolation(error)) {
+    return {
+      status: 409,
+      title: 'No longer exists',
+      message: 'This refers to something that has been deleted in the meantime. Reload the page and try again.',
+    };
+  }
+  if (isConnectionError(error)) {
+    return {
+      status: 503,
+      title: 'Temporarily unavailable',
+      message: 'The database cannot be reached right now. Try again in a moment.',
+    };
+  }
+  return { status: 500, title: 'Something went wrong', message: 'The request could not be completed.' };
+}
+
+// The JSON API, and scripts that ask for JSON, get errors as JSON instead of a page
+function wantsJson<E extends Env>(c: Context<E>): boolean {
+  const accept = c.req.header('Accept') ?? '';
+  return c.req.path.startsWith('/api/') || (accept.includes('application/json') && !accept.includes('text/html'));
+}
+
+function respond<E extends Env>(c: Context<E>, page: ErrorPage, render: RenderError<E>): Response | Promise<Response> {
+  if (wantsJson(c)) {
+    return c.json({ error: page.message, requestId: page.requestId }, page.status);
+  }
+  return render(c, page);
+}
+
+/**
+ * Handler for `app.onError`. The error itself is logged by `requestLogging` with the request.
+ */
+export function errorHandler<E extends Env>(render: RenderError<E>): ErrorHandler<E> {
+  return (error, c) => respond(c, { ...describeError(error), requestId: c.get('requestId') }, render);
+}
+
+/**
+ * Handler for `app.notFound`, for paths and methods that no route handles.
+ */
+export function notFoundHandler<E extends Env>(render: RenderError<E>): NotFoundHandler<E> {
+  return (c) =>
+    respond(
+      c,
+      { status: 404, title: 'Not found', message: 'There is nothing at this address.', requestId: c.get('requestId') },
+      render
+    );
+}
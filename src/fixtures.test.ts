@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import { generateDataset, defaultDatasetOptions, fixtures } from './fixtures';
+
+describe('generateDataset', () => {
+  const now = new Date('2025-03-08T12:00:00Z');
+  const options = { ...defaultDatasetOptions, now };
+
+  test('gives the same dataset for the same seed and time', () => {
+    expect(generateDataset(options)).toEqual(generateDataset(options));
+    expect(generateDataset({ ...options, seed: 2 })).not.toEqual(generateDataset(options));
+  });
+
+  test('makes the requested number of categories and tasks, oldest first', () => {
+    const { categories, tasks } = generateDataset({ ...options, categories: 14, tasks: 200 });
+    expect(categories.length).toBe(14);
+    expect(new Set(categories.map((category) => category.name)).size).toBe(14);
+    expect(categories[13].name).toBe('Home 2');
+
+    expect(tasks.map((task) => task.id)).toEqual(tasks.map((_, index) => index + 1));
+    expect(tasks.map((task) => task.createdAt)).toEqual(tasks.map((task) => task.createdAt).sort());
+    for (const task of tasks) {
+      expect(task.createdAt >= '2025-02-06 12:00:00' && task.createdAt <= '2025-03-08 12:00:00').toBe(true);
+      expect(categories.some((category) => category.id === task.categoryId)).toBe(true);
+    }
+  });
+
+  test('leaves tasks without a category when there are no categories', () => {
+    const { tasks } = generateDataset({ ...options, categories: 0, tasks: 5, doneRatio: 1 });
+    expect(tasks.every((task) => task.categoryId === null && task.done)).toBe(true);
+  });
+});
+
+describe('fixtures', () => {
+  test('gives a fresh copy each time', () => {
+    const small = fixtures.small();
+    small.tasks[0].done = true;
+    expect(fixtures.small().tasks[0].done).toBe(false);
+    expect(fixtures.empty()).toEqual({ categories: [], tasks: [] });
+  });
+});
@@ -0,0 +1,188 @@
+import type { TaskPriority } from './db';
+
+/**
+ * Categories and tasks to load into a database or a memory repository. Ids only link the tasks to
+ * their categories; the database hands out its own.
+ */
+export interface Dataset {
+  categories: { id: number; name: string }[];
+  tasks: DatasetTask[];
+}
+
+export interface DatasetTask {
+  id: number;
+  title: string;
+  done: boolean;
+  // Timestamps in the format of Drizzle's `string` mode, e.g. `2025-03-01 09:30:00`
+  createdAt: string;
+  categoryId: number | null;
+  dueAt: string | null;
+  priority: TaskPriority;
+}
+
+export interface DatasetOptions {
+  categories: number;
+  tasks: number;
+  // Share of the tasks that are done, from 0 to 1
+  doneRatio: number;
+  // Tasks are created at random times over this many days before `now`
+  days: number;
+  // The same seed and `now` always give the same dataset
+  seed: number;
+  now: Date;
+}
+
+export const defaultDatasetOptions: Omit<DatasetOptions, 'now'> = {
+  categories: 6,
+  tasks: 60,
+  doneRatio: 0.3,
+  days: 30,
+  seed: 1,
+};
+
+const categoryNames = [
+  'Work',
+  'Home',
+  'Errands',
+  'Health',
+  'Finance',
+  'Learning',
+  'Garden',
+  'Travel',
+  'Family',
+  'Car',
+  'Hobbies',
+  'Admin',
+];
+
+const verbs = ['Call', 'Email', 'Book', 'Fix', 'Clean', 'Plan', 'Review', 'Pay', 'Renew', 'Order', 'Sort out', 'Check'];
+
+const things = [
+  'the dentist',
+  'the plumber',
+  'quarterly report',
+  'car insurance',
+  'gym membership',
+  'the gutters',
+  'birthday present for Sam',
+  'library books',
+  'passport',
+  'team offsite',
+  'electricity bill',
+  'bike tyres',
+  'flights for the summer',
+  'kitchen tap',
+  'tax return',
+  'school forms',
+  'winter tyres',
+  'photo backup',
+  'the spare room',
+  'conference talk',
+];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// mulberry32: small, fast and good enough to make believable data from a seed
+function random(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/**
+ * Makes up categories and tasks: titles like "Renew passport", mostly normal priorities, due dates
+ * on about half of the tasks (some of them overdue) and creation times spread over `days`.
+ */
+export function generateDataset(options: DatasetOptions): Dataset {
+  const next = random(options.seed);
+  const pick = <T>(items: T[]): T => items[Math.floor(next() * items.length)];
+
+  const categories = Array.from({ length: options.categories }, (_, index) => ({
+    id: index + 1,
+    // Numbered once the names run out, since names are unique
+    name:
+      categoryNames[index % categoryNames.length] +
+      (index >= categoryNames.length ? ` ${Math.floor(index / categoryNames.length) + 1}` : ''),
+  }));
+
+  const tasks = Array.from({ length: options.tasks }, (_, index): DatasetTask => {
+    const created = options.now.getTime() - next() * options.days * DAY;
+    const roll = next();
+    const priority: TaskPriority = roll < 0.05 ? 'urgent' : roll < 0.25 ? 'high' : roll < 0.85 ? 'normal' : 'low';
+    return {
+      id: index + 1,
+      title: `${pick(verbs)} ${pick(things)}`,
+      done: next() < options.doneRatio,
+      createdAt: formatTimestamp(new Date(created)),
+      categoryId: categories.length > 0 ? pick(categories).id : null,
+      dueAt: next() < 0.5 ? formatTimestamp(new Date(created + (1 + Math.floor(next() * 21)) * DAY)) : null,
+      priority,
+    };
+  });
+
+  // Oldest first, like tasks that were added one after another
+  tasks.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  tasks.forEach((task, index) => (task.id = index + 1));
+  return { categories, tasks };
+}
+
+/**
+ * Named datasets for tests and demos. `small` never changes, so tests can rely on its exact contents.
+ */
+export const fixtures: Record<string, () => Dataset> = {
+  empty: () => ({ categories: [], tasks: [] }),
+  small: () => ({
+    categories: [
+      { id: 1, name: 'Home' },
+      { id: 2, name: 'Work' },
+    ],
+    tasks: [
+      {
+        id: 1,
+        title: 'Fix kitchen tap',
+        done: false,
+        createdAt: '2025-03-03 09:00:00',
+        categoryId: 1,
+        dueAt: '2025-03-08 18:00:00',
+        priority: 'high',
+      },
+      {
+        id: 2,
+        title: 'Clean the gutters',
+        done: true,
+        createdAt: '2025-03-04 10:30:00',
+        categoryId: 1,
+        dueAt: null,
+        priority: 'low',
+      },
+      {
+        id: 3,
+        title: 'Review quarterly report',
+        done: false,
+        createdAt: '2025-03-05 14:15:00',
+        categoryId: 2,
+        dueAt: '2025-03-07 17:00:00',
+        priority: 'urgent',
+      },
+      {
+        id: 4,
+        title: 'Book team offsite',
+        done: false,
+        createdAt: '2025-03-06 11:45:00',
+        categoryId: 2,
+        dueAt: null,
+        priority: 'normal',
+      },
+    ],
+  }),
+  demo: () => generateDataset({ ...defaultDatasetOptions, now: new Date() }),
+};
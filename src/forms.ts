@@ -0,0 +1,55 @@
+import { text, id, choice, dateTime, checkbox, flag, tagList, integer, integerList } from './validation';
+import { taskPriorities, bulkTaskActions } from './db';
+import { recurrenceFrequencies } from './recurrence';
+import { MAX_ID } from './utils';
+
+// Validation schemas for the HTML forms, keyed by the form field names
+
+export const categoryForm = {
+  name: text('Category name', { required: true, maxLength: 100 }),
+};
+
+export const tagForm = {
+  name: text('Tag name', { required: true, maxLength: 50 }),
+};
+
+export const taskForm = {
+  title: text('Title', { required: true, maxLength: 500 }),
+  category_id: id('Category'),
+  due_at: dateTime('Due date'),
+  priority: choice('Priority', taskPriorities, 'normal'),
+  parent_id: id('Parent task'),
+  tags: tagList('Tags', { maxLength: 50, maxCount: 20 }),
+  // Combined into a rule by recurrenceFromFields(), which also reports fields the frequency needs
+  repeat: choice('Repeat', ['none', ...recurrenceFrequencies], 'none'),
+  repeat_weekdays: integerList('Weekdays', { min: 0, max: 6 }),
+  repeat_day: integer('Day of month', { min: 1, max: 31 }),
+  repeat_every: integer('Number of days', { min: 1, max: 365 }),
+};
+
+export const editTaskForm = {
+  ...taskForm,
+  done: checkbox(),
+  complete_with_subtasks: checkbox(),
+};
+
+// The selected tasks are checkboxes in the rows of the task list, which belong to this form through
+// their `form` attribute. `all` applies the action to every task matching the list's filters instead.
+export const bulkTaskForm = {
+  action: choice('Action', bulkTaskActions),
+  ids: integerList('Selected tasks', { min: 1, max: MAX_ID }),
+  all: checkbox(),
+  category_id: id('Category'),
+};
+
+// Schemas for the rows of imported files, keyed by the field names of the exports
+
+export const importTaskRow = {
+  title: text('Title', { required: true, maxLength: 500 }),
+  categoryName: text('Category', { maxLength: 100 }),
+  done: flag('Done'),
+  dueAt: dateTime('Due date'),
+  priority: choice('Priority', taskPriorities, 'normal'),
+};
+
+export const importCategoryRow = categoryForm;
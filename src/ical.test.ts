@@ -0,0 +1,73 @@
+import { describe, expect, test, setSystemTime, afterEach } from 'bun:test';
+import { escapeText, foldLine, serializeCalendar } from './ical';
+import { fixtures } from './fixtures';
+import { createMemoryRepository } from './repositories/memory';
+
+describe('escapeText', () => {
+  test('escapes backslashes, separators and line breaks', () => {
+    expect(escapeText('a\\b; c, d\r\ne\nf')).toBe('a\\\\b\\; c\\, d\\ne\\nf');
+  });
+});
+
+describe('foldLine', () => {
+  test('leaves short lines alone', () => {
+    expect(foldLine('SUMMARY:Paint')).toBe('SUMMARY:Paint');
+  });
+
+  test('folds lines at 75 octets without splitting characters', () => {
+    const folded = foldLine(`SUMMARY:${'é'.repeat(80)}`);
+    const lines = folded.split('\r\n');
+    expect(lines.length).toBe(3);
+    for (const line of lines) {
+      expect(new TextEncoder().encode(line).length).toBeLessThanOrEqual(75);
+    }
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(lines.map((line, index) => (index === 0 ? line : line.slice(1))).join('')).toBe(`SUMMARY:${'é'.repeat(80)}`);
+  });
+});
+
+describe('serializeCalendar', () => {
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('gives each task a VTODO', async () => {
+    setSystemTime(new Date('2025-03-08T12:00:00Z'));
+    const repo = createMemoryRepository(fixtures.small());
+    const parentId = await repo.createTask(1, { title: 'Plan the garden', categoryId: null });
+    const childId = await repo.createTask(1, { title: 'Buy seeds, soil', categoryId: null, parentId });
+    const tasks = [(await repo.fetchTask(1, 1))!, (await repo.fetchTask(1, childId))!].map((task) => ({
+      ...task,
+      createdAtUtc: '20250303T090000Z',
+    }));
+
+    expect(serializeCalendar(tasks, { name: 'Tasks; mine', host: 'tasks.example.com' }).split('\r\n')).toEqual([
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//hono-bun-forms-postgresql//Task Manager//EN',
+      'CALSCALE:GREGORIAN',
+      'X-WR-CALNAME:Tasks\\; mine',
+      'BEGIN:VTODO',
+      'UID:task-1@tasks.example.com',
+      'DTSTAMP:20250308T120000Z',
+      'CREATED:20250303T090000Z',
+      'SUMMARY:Fix kitchen tap',
+      'STATUS:NEEDS-ACTION',
+      'PRIORITY:3',
+      'DUE:20250308T180000',
+      'CATEGORIES:Home',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      `UID:task-${childId}@tasks.example.com`,
+      'DTSTAMP:20250308T120000Z',
+      'CREATED:20250303T090000Z',
+      'SUMMARY:Buy seeds\\, soil',
+      'STATUS:NEEDS-ACTION',
+      'PRIORITY:5',
+      `RELATED-TO;RELTYPE=PARENT:task-${parentId}@tasks.example.com`,
+      'END:VTODO',
+      'END:VCALENDAR',
+      '',
+    ]);
+  });
+});
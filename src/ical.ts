@@ -0,0 +1,101 @@
+import type { CalendarTask, TaskPriority } from './db';
+
+const PRODUCT_ID = '-//hono-bun-forms-postgresql//Task Manager//EN';
+
+// RFC 5545 priorities run from 1 (highest) to 9 (lowest); 0 means undefined
+const priorities: Record<TaskPriority, number> = { urgent: 1, high: 3, normal: 5, low: 9 };
+
+/**
+ * Escapes a TEXT value (RFC 5545, section 3.3.11).
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r\n|\r|\n/g, '\\n');
+}
+
+/**
+ * Folds a content line so that no line is longer than 75 octets (RFC 5545, section 3.1).
+ * Continuation lines start with a space, and multi-byte UTF-8 characters are never split.
+ */
+export function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  // The first line may hold 75 octets; continuation lines lose one to the leading space
+  let limit = 75;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+      limit = 74;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/**
+ * Formats a Postgres timestamp string as a floating DATE-TIME, which calendar clients show in
+ * their own time zone, like the app does.
+ */
+function floatingDateTime(value: string): string {
+  return value.slice(0, 19).replace(/[-:]/g, '').replace(' ', 'T');
+}
+
+function utcDateTime(date: Date): string {
+  return date
+    .toISOString()
+    .replace(/[-:]/g, '')
+    .replace(/\.\d{3}/, '');
+}
+
+/**
+ * Serialises tasks as an iCalendar object with one VTODO per task.
+ *
+ * @param {CalendarTask[]} tasks - The tasks, with their creation time in UTC.
+ * @param {object} options - `name` is shown by calendar clients; `host` makes the UIDs globally unique.
+ */
+export function serializeCalendar(tasks: CalendarTask[], options: { name: string; host: string }): string {
+  const stamp = utcDateTime(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeText(options.name)}`,
+  ];
+
+  for (const task of tasks) {
+    lines.push(
+      'BEGIN:VTODO',
+      `UID:task-${task.id}@${options.host}`,
+      `DTSTAMP:${stamp}`,
+      `CREATED:${task.createdAtUtc}`,
+      `SUMMARY:${escapeText(task.title)}`,
+      `STATUS:${task.done ? 'COMPLETED' : 'NEEDS-ACTION'}`,
+      `PRIORITY:${priorities[task.priority]}`
+    );
+    if (task.dueAt) {
+      lines.push(`DUE:${floatingDateTime(task.dueAt)}`);
+    }
+    if (task.categoryName) {
+      lines.push(`CATEGORIES:${escapeText(task.categoryName)}`);
+    }
+    if (task.parentId) {
+      lines.push(`RELATED-TO;RELTYPE=PARENT:task-${task.parentId}@${options.host}`);
+    }
+    lines.push('END:VTODO');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
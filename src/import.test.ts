@@ -0,0 +1,163 @@
+import { describe, expect, test } from 'bun:test';
+import { readImportFile, planImport } from './import';
+import { toCsv } from './csv';
+import { fixtures } from './fixtures';
+import { createMemoryRepository } from './repositories/memory';
+
+// The tasks and categories of the `small` fixture, as the import page loads them
+async function existing() {
+  const repo = createMemoryRepository(fixtures.small());
+  return { tasks: await repo.fetchTaskTree(1), categories: await repo.fetchCategories(1) };
+}
+
+describe('readImportFile', () => {
+  test('reads tasks from CSV, counting rows from the header line', () => {
+    const csv = toCsv([['title', 'categoryName', 'done'], ['=Paint', 'Home', 'yes'], ['Sand']]);
+    expect(readImportFile('tasks.csv', `${csv}\r\n`)).toEqual({
+      kind: 'tasks',
+      records: [
+        { row: 2, values: { title: '=Paint', categoryName: 'Home', done: 'yes' } },
+        { row: 3, values: { title: 'Sand', categoryName: null, done: null } },
+      ],
+    });
+  });
+
+  test('reads categories from JSON and marks rows that are not objects or have nested fields', () => {
+    expect(readImportFile('Categories.JSON', '[{"name": "Home"}, ["Work"], {"name": {"en": "Garden"}}]')).toEqual({
+      kind: 'categories',
+      records: [
+        { row: 1, values: { name: 'Home' } },
+        { row: 2, values: {}, error: 'Not an object' },
+        { row: 3, values: {}, nested: ['name'] },
+      ],
+    });
+  });
+
+  test('explains why a file cannot be read', () => {
+    expect(readImportFile('tasks.json', '{"title": "Paint"}')).toEqual({
+      error: 'The JSON file must contain an array of objects',
+    });
+    expect(readImportFile('tasks.json', '[')).toEqual({ error: 'The file is not valid JSON' });
+    expect(readImportFile('tasks.csv', '')).toEqual({ error: 'The file is empty' });
+    expect(readImportFile('tasks.csv', 'title\n"Paint')).toEqual({
+      error: 'The CSV file has a quoted field that is never closed',
+    });
+    expect(readImportFile('tasks.csv', 'summary\nPaint')).toEqual({
+      error: 'The file needs a "title" field for tasks or a "name" field for categories',
+    });
+  });
+});
+
+describe('planImport', () => {
+  const record = (row: number, values: Record<string, string | null>) => ({ row, values });
+
+  test('creates new tasks and the categories they need', async () => {
+    const plan = planImport(
+      'tasks',
+      [
+        record(2, { title: 'Paint the fence', categoryName: 'garden', dueAt: '2025-04-01', priority: 'high' }),
+        record(3, { title: 'Buy seeds', categoryName: 'Garden' }),
+        record(4, { title: 'Call the bank', categoryName: 'home' }),
+      ],
+      'skip',
+      await existing()
+    );
+    expect(plan.newCategories).toEqual(['garden']);
+    expect(plan.createTasks).toEqual([
+      { title: 'Paint the fence', categoryName: 'garden', done: false, dueAt: '2025-04-01 23:59:59', priority: 'high' },
+      { title: 'Buy seeds', categoryName: 'garden', done: false, dueAt: null, priority: 'normal' },
+      { title: 'Call the bank', categoryName: 'Home', done: false, dueAt: null, priority: 'normal' },
+    ]);
+    expect(plan.rejected).toEqual([]);
+  });
+
+  test('skips or updates tasks that already exist', async () => {
+    const records = [
+      record(2, { title: 'fix kitchen tap', categoryName: 'Home', done: 'true', dueAt: '2025-03-08 18:00:00' }),
+      record(3, { title: 'Clean the gutters', categoryName: 'Home', done: 'true', priority: 'low' }),
+    ];
+
+    const skipped = planImport('tasks', records, 'skip', await existing());
+    expect(skipped.skipped.map((note) => note.reason)).toEqual([
+      'Task "Fix kitchen tap" already exists',
+      'Task "Clean the gutters" already exists',
+    ]);
+
+    const updated = planImport('tasks', records, 'update', await existing());
+    expect(updated.updateTasks).toEqual([
+      {
+        id: 1,
+        title: 'fix kitchen tap',
+        categoryName: 'Home',
+        done: true,
+        dueAt: '2025-03-08 18:00:00',
+        priority: 'normal',
+      },
+    ]);
+    expect(updated.skipped).toEqual([{ row: 3, reason: 'Task "Clean the gutters" is already up to date' }]);
+  });
+
+  test('rejects invalid and repeated rows with a reason', async () => {
+    const plan = planImport(
+      'tasks',
+      [
+        record(2, { title: '', done: 'maybe' }),
+        record(3, { title: 'Paint' }),
+        record(4, { title: 'paint', categoryName: '' }),
+        { row: 5, values: {}, error: 'Not an object' },
+        { row: 6, values: {}, nested: ['title'] },
+        { row: 7, values: { title: 'Sand' }, nested: ['tags'] },
+      ],
+      'skip',
+      await existing()
+    );
+    expect(plan.createTasks.map((task) => task.title)).toEqual(['Paint', 'Sand']);
+    expect(plan.rejected).toEqual([
+      { row: 2, reason: 'Title is required; Done must be true or false' },
+      { row: 4, reason: 'Same title and category as row 3' },
+      { row: 5, reason: 'Not an object' },
+      { row: 6, reason: 'Field "title" must be a string, number, boolean or null' },
+    ]);
+  });
+
+  test('adds categories that do not exist yet', async () => {
+    const plan = planImport(
+      'categories',
+      [record(1, { name: 'Garden' }), record(2, { name: 'work' }), record(3, { name: 'garden' }), record(4, {})],
+      'skip',
+      await existing()
+    );
+    expect(plan.newCategories).toEqual(['Garden']);
+    expect(plan.skipped).toEqual([
+      { row: 2, reason: 'Category "work" already exists' },
+      { row: 3, reason: 'Category "garden" already exists' },
+    ]);
+    expect(plan.rejected).toEqual([{ row: 4, reason: 'Category name is required' }]);
+  });
+});
+
+describe('export and import', () => {
+  test('imports the JSON export of the tasks, with their tags and recurrence', async () => {
+    const repo = createMemoryRepository(fixtures.small());
+    await repo.createTask(1, { title: 'Water plants', categoryId: 1, tags: ['garden'], recurrence: { freq: 'daily' } });
+    const exported = JSON.stringify(await repo.fetchTaskTree(1));
+    expect(exported).toContain('"tags":[{');
+    expect(exported).toContain('"recurrence":{');
+
+    const file = readImportFile('tasks.json', exported);
+    if ('error' in file) throw new Error(file.error);
+    const empty = { tasks: [], categories: [] };
+    const plan = planImport(file.kind, file.records, 'skip', empty);
+    expect(plan.rejected).toEqual([]);
+    expect(plan.createTasks.map((task) => task.title).sort()).toEqual(
+      (await repo.fetchTaskTree(1)).map((task) => task.title).sort()
+    );
+
+    const again = planImport(file.kind, file.records, 'skip', {
+      tasks: await repo.fetchTaskTree(1),
+      categories: await repo.fetchCategories(1),
+    });
+    expect(again.createTasks).toEqual([]);
+    expect(again.skipped).toHaveLength(file.records.length);
+  });
+});
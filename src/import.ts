@@ -0,0 +1,224 @@
+import { parseCsv } from './csv';
+import { validateRecord } from './validation';
+import type { FormSchema, FormValues } from './validation';
+import { importTaskRow, importCategoryRow } from './forms';
+import type { Task, Category, TaskPriority } from './db';
+
+export type ImportKind = 'tasks' | 'categories';
+
+/**
+ * What happens to an imported task that already exists (same title in the same category).
+ */
+export type ImportMode = 'skip' | 'update';
+
+export const MAX_IMPORT_BYTES = 1024 * 1024;
+
+/**
+ * One row of an imported file. `row` counts from 1 and, for CSV files, includes the header line.
+ */
+interface ImportRecord {
+  row: number;
+  values: Record<string, string | null>;
+  error?: string;
+  // Fields of a JSON row holding an object or array, like the tags and recurrence of exported tasks.
+  // They are only an error if the import reads them.
+  nested?: string[];
+}
+
+export interface ImportedTask {
+  title: string;
+  categoryName: string | null;
+  done: boolean;
+  dueAt: string | null;
+  priority: TaskPriority;
+}
+
+export interface ImportRowNote {
+  row: number;
+  reason: string;
+}
+
+/**
+ * What an import will do, worked out before anything is written so it can be shown as a preview.
+ */
+export interface ImportPlan {
+  kind: ImportKind;
+  newCategories: string[];
+  createTasks: ImportedTask[];
+  updateTasks: (ImportedTask & { id: number })[];
+  skipped: ImportRowNote[];
+  rejected: ImportRowNote[];
+}
+
+/**
+ * Reads an uploaded CSV or JSON file, as produced by the exports. A file with a `title` field
+ * holds tasks, one with only a `name` field holds categories.
+ *
+ * @returns The kind of file and its rows, or an error message if the file cannot be read at all.
+ */
+export function readImportFile(
+  fileName: string,
+  text: string
+): { kind: ImportKind; records: ImportRecord[] } | { error: string } {
+  const records = fileName.toLowerCase().endsWith('.json') ? readJson(text) : readCsv(text);
+  if ('error' in records) {
+    return records;
+  }
+
+  const fields = new Set(records.flatMap((record) => Object.keys(record.values)));
+  if (fields.has('title')) {
+    return { kind: 'tasks', records };
+  }
+  if (fields.has('name')) {
+    return { kind: 'categories', records };
+  }
+  return { error: 'The file needs a "title" field for tasks or a "name" field for categories' };
+}
+
+function readCsv(text: string): ImportRecord[] | { error: string } {
+  const rows = parseCsv(text);
+  if (!rows) {
+    return { error: 'The CSV file has a quoted field that is never closed' };
+  }
+  const [header, ...data] = rows;
+  if (!header) {
+    return { error: 'The file is empty' };
+  }
+
+  const records: ImportRecord[] = [];
+  data.forEach((cells, index) => {
+    // Skip blank lines, which spreadsheets like to leave at the end
+    if (cells.length === 1 && cells[0] === '') return;
+    const values: Record<string, string | null> = {};
+    header.forEach((name, column) => {
+      values[name.trim()] = column < cells.length ? unescapeFormula(cells[column]) : null;
+    });
+    records.push({ row: index + 2, values });
+  });
+  return records;
+}
+
+// Undoes the quote the CSV export puts in front of text that looks like a spreadsheet formula
+function unescapeFormula(value: string): string {
+  return /^'[=+\-@]/.test(value) ? value.slice(1) : value;
+}
+
+function readJson(text: string): ImportRecord[] | { error: string } {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { error: 'The file is not valid JSON' };
+  }
+  if (!Array.isArray(data)) {
+    return { error: 'The JSON file must contain an array of objects' };
+  }
+
+  return data.map((item, index) => {
+    const row = index + 1;
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      return { row, values: {}, error: 'Not an object' };
+    }
+    const values: Record<string, string | null> = {};
+    const nested: string[] = [];
+    for (const [name, value] of Object.entries(item)) {
+      if (value !== null && typeof value === 'object') {
+        nested.push(name);
+      } else {
+        values[name] = value === null || value === undefined ? null : String(value);
+      }
+    }
+    return nested.length > 0 ? { row, values, nested } : { row, values };
+  });
+}
+
+// Tasks are matched case-insensitively by title within their category
+function taskKey(title: string, categoryName: string | null): string {
+  return `${title.toLowerCase()}\u0000${(categoryName ?? '').toLowerCase()}`;
+}
+
+// Validates the fields of a row that the import reads, ignoring any others
+function validateRow<S extends FormSchema>(
+  schema: S,
+  record: ImportRecord
+): { values: FormValues<S> } | { error: string } {
+  const nested = record.nested?.find((name) => name in schema);
+  if (record.error || nested) {
+    return { error: record.error ?? `Field "${nested}" must be a string, number, boolean or null` };
+  }
+  const result = validateRecord(schema, record.values);
+  return result.ok ? { values: result.values } : { error: Object.values(result.errors).join('; ') };
+}
+
+/**
+ * Works out what importing the given rows into a user's existing tasks and categories would do.
+ * Categories are matched by name regardless of case, and missing ones are created. Tasks that
+ * already exist are skipped or updated according to `mode`. Invalid rows are rejected with a reason.
+ */
+export function planImport(
+  kind: ImportKind,
+  records: ImportRecord[],
+  mode: ImportMode,
+  existing: { tasks: Task[]; categories: Category[] }
+): ImportPlan {
+  const plan: ImportPlan = { kind, newCategories: [], createTasks: [], updateTasks: [], skipped: [], rejected: [] };
+  const categoryNames = new Map(existing.categories.map((category) => [category.name.toLowerCase(), category.name]));
+
+  const resolveCategory = (name: string): string => {
+    const known = categoryNames.get(name.toLowerCase());
+    if (known) {
+      return known;
+    }
+    categoryNames.set(name.toLowerCase(), name);
+    plan.newCategories.push(name);
+    return name;
+  };
+
+  if (kind === 'categories') {
+    for (const record of records) {
+      const result = validateRow(importCategoryRow, record);
+      if ('error' in result) {
+        plan.rejected.push({ row: record.row, reason: result.error });
+      } else if (categoryNames.has(result.values.name.toLowerCase())) {
+        plan.skipped.push({ row: record.row, reason: `Category "${result.values.name}" already exists` });
+      } else {
+        resolveCategory(result.values.name);
+      }
+    }
+    return plan;
+  }
+
+  const existingTasks = new Map(existing.tasks.map((task) => [taskKey(task.title, task.categoryName), task]));
+  const seen = new Map<string, number>();
+
+  for (const record of records) {
+    const result = validateRow(importTaskRow, record);
+    if ('error' in result) {
+      plan.rejected.push({ row: record.row, reason: result.error });
+      continue;
+    }
+
+    const { title, done, dueAt, priority } = result.values;
+    const key = taskKey(title, result.values.categoryName || null);
+    const firstRow = seen.get(key);
+    if (firstRow !== undefined) {
+      plan.rejected.push({ row: record.row, reason: `Same title and category as row ${firstRow}` });
+      continue;
+    }
+    seen.set(key, record.row);
+
+    const categoryName = result.values.categoryName ? resolveCategory(result.values.categoryName) : null;
+    const task = { title, categoryName, done, dueAt, priority };
+    const match = existingTasks.get(key);
+    if (!match) {
+      plan.createTasks.push(task);
+    } else if (mode === 'skip') {
+      plan.skipped.push({ row: record.row, reason: `Task "${match.title}" already exists` });
+    } else if (match.done === done && match.dueAt === dueAt && match.priority === priority) {
+      plan.skipped.push({ row: record.row, reason: `Task "${match.title}" is already up to date` });
+    } else {
+      plan.updateTasks.push({ ...task, id: match.id });
+    }
+  }
+  return plan;
+}
@@ -0,0 +1,20 @@
+import { log } from '../logging';
+
+/**
+ * Bundles the islands for the browser into `public/islands`, where they are served at `/assets/islands/`.
+ * Runs when the server starts, so the bundle always matches the server-rendered markup.
+ *
+ * @returns {Promise<boolean>} `false` if the build failed, in which case pages work without their islands.
+ */
+export async function buildIslands(): Promise<boolean> {
+  const result = await Bun.build({
+    entrypoints: [`${import.meta.dir}/client.ts`],
+    outdir: './public/islands',
+    target: 'browser',
+    minify: true,
+  });
+  if (!result.success) {
+    log('error', 'Building the islands failed', { logs: result.logs.map(String) });
+  }
+  return result.success;
+}
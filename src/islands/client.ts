@@ -0,0 +1,29 @@
+import { hydrate } from 'preact';
+import { islandElement, isIslandName } from './registry';
+
+// Browser entry point: hydrates the islands of the page, and those of rows swapped in later
+const hydrated = new WeakSet<Element>();
+
+function hydrateIslands(root: Document | Element): void {
+  const elements = [...root.querySelectorAll<HTMLElement>('[data-island]')];
+  if (root instanceof HTMLElement && root.dataset.island) {
+    elements.push(root);
+  }
+  for (const element of elements) {
+    const name = element.dataset.island;
+    if (hydrated.has(element) || !isIslandName(name)) continue;
+    hydrated.add(element);
+    hydrate(islandElement(name, JSON.parse(element.dataset.props ?? '{}')), element);
+  }
+}
+
+hydrateIslands(document);
+
+// Live updates and fragment responses replace rows with fresh server-rendered markup
+new MutationObserver((mutations) => {
+  for (const mutation of mutations) {
+    mutation.addedNodes.forEach((node) => {
+      if (node instanceof Element) hydrateIslands(node);
+    });
+  }
+}).observe(document.body, { childList: true, subtree: true });
@@ -0,0 +1,16 @@
+/**
+ * A submit button that asks before its form is sent. Without JavaScript it submits straight away.
+ */
+export default function ConfirmButton({ label, message }: { label: string; message: string }) {
+  return (
+    <button
+      type="submit"
+      onClick={(event) => {
+        if (!confirm(message)) {
+          event.preventDefault();
+        }
+      }}>
+      {label}
+    </button>
+  );
+}
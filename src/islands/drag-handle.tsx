@@ -0,0 +1,99 @@
+import { useEffect, useRef } from 'preact/hooks';
+import { FRAGMENT_TYPE } from '../utils';
+
+// The task row being dragged, shared by all handles on the page
+let dragged: HTMLTableRowElement | null = null;
+
+// A task row followed by the rows of its subtasks, which have a greater depth
+function withSubtasks(row: HTMLTableRowElement): HTMLTableRowElement[] {
+  const rows = [row];
+  let next = row.nextElementSibling as HTMLTableRowElement | null;
+  while (next && Number(next.dataset.depth) > Number(row.dataset.depth)) {
+    rows.push(next);
+    next = next.nextElementSibling as HTMLTableRowElement | null;
+  }
+  return rows;
+}
+
+// The next task in the same manual order: the same parent and, for top-level tasks, the same category
+function nextInOrder(row: HTMLTableRowElement): HTMLTableRowElement | null {
+  const next = withSubtasks(row).at(-1)!.nextElementSibling as HTMLTableRowElement | null;
+  const sameOrder =
+    next !== null &&
+    next.dataset.parent === row.dataset.parent &&
+    (row.dataset.parent !== '' || next.dataset.category === row.dataset.category);
+  return sameOrder ? next : null;
+}
+
+/**
+ * Drag handle of a task row in the manual order. Rows can be dropped on rows with the same parent:
+ * on the upper half to go in front of that task, on the lower half to go after it. The row moves
+ * straight away and is replaced by the one the server sends back; if the move fails, the page reloads.
+ */
+export default function DragHandle() {
+  const handle = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    const row = handle.current!.closest('tr')!;
+    const canDrop = () => dragged !== null && dragged !== row && dragged.dataset.parent === row.dataset.parent;
+    const onDragOver = (event: DragEvent) => {
+      if (canDrop()) event.preventDefault();
+    };
+    const onDrop = (event: DragEvent) => {
+      if (!canDrop()) return;
+      event.preventDefault();
+      const bounds = row.getBoundingClientRect();
+      const before = event.clientY < bounds.top + bounds.height / 2 ? row : nextInOrder(row);
+      if (before !== dragged) move(dragged!, before, row);
+    };
+    row.addEventListener('dragover', onDragOver);
+    row.addEventListener('drop', onDrop);
+    return () => {
+      row.removeEventListener('dragover', onDragOver);
+      row.removeEventListener('drop', onDrop);
+    };
+  }, []);
+
+  return (
+    <span
+      ref={handle}
+      draggable
+      title="Drag to reorder"
+      style="cursor: grab; user-select: none;"
+      onDragStart={(event) => {
+        dragged = handle.current!.closest('tr');
+        event.dataTransfer?.setData('text/plain', dragged?.dataset.key ?? '');
+      }}
+      onDragEnd={() => {
+        dragged = null;
+      }}>
+      ⠿
+    </span>
+  );
+}
+
+// Moves a row, with its subtasks, in front of another or after the last task of the order that
+// `target` is in, and saves the move
+async function move(row: HTMLTableRowElement, before: HTMLTableRowElement | null, target: HTMLTableRowElement) {
+  const form = row.querySelector<HTMLFormElement>('form.move-task')!;
+  const body = new FormData(form);
+  if (before) {
+    body.set('before_id', before.dataset.key!);
+  } else {
+    // Subtasks are ordered within their parent, so they keep their own category
+    body.set('category_id', (row.dataset.parent === '' ? target : row).dataset.category!);
+  }
+
+  const next = before ?? withSubtasks(target).at(-1)!.nextElementSibling;
+  withSubtasks(row).forEach((moved) => row.parentElement!.insertBefore(moved, next));
+  try {
+    const response = await fetch(form.action, { method: 'POST', body, headers: { Accept: FRAGMENT_TYPE } });
+    if (!response.ok) {
+      throw new Error(`Moving the task failed with status ${response.status}`);
+    }
+    row.outerHTML = await response.text();
+  } catch (error) {
+    console.error(error);
+    location.reload();
+  }
+}
@@ -0,0 +1,14 @@
+import { islandElement } from './registry';
+import type { IslandName, IslandProps } from './registry';
+
+/**
+ * Renders an interactive component on the server, marked so that `client.ts` hydrates it with the
+ * same props. The server-rendered markup is what browsers without JavaScript get.
+ */
+export function Island<N extends IslandName>({ name, props }: { name: N; props: IslandProps[N] }) {
+  return (
+    <span data-island={name} data-props={JSON.stringify(props)}>
+      {islandElement(name, props)}
+    </span>
+  );
+}
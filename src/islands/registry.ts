@@ -0,0 +1,37 @@
+import { h } from 'preact';
+import type { FunctionComponent, VNode } from 'preact';
+import ConfirmButton from './confirm-button';
+import DragHandle from './drag-handle';
+import ToggleCheckbox from './toggle-checkbox';
+
+/**
+ * The props of each island, by the name it is marked up with. They reach the browser as JSON.
+ */
+export interface IslandProps {
+  'confirm-button': { label: string; message: string };
+  'drag-handle': Record<string, never>;
+  'toggle-checkbox': { checked: boolean };
+}
+
+export type IslandName = keyof IslandProps;
+
+/**
+ * The components that are hydrated in the browser, by the name they are marked up with.
+ * Everything they import ends up in the browser bundle, so they must not import server code.
+ */
+export const islands: { [N in IslandName]: FunctionComponent<IslandProps[N]> } = {
+  'confirm-button': ConfirmButton,
+  'drag-handle': DragHandle,
+  'toggle-checkbox': ToggleCheckbox,
+};
+
+export function isIslandName(name: string | undefined): name is IslandName {
+  return name !== undefined && Object.hasOwn(islands, name);
+}
+
+/**
+ * Creates the element of an island, on the server to render it and in the browser to hydrate it.
+ */
+export function islandElement<N extends IslandName>(name: N, props: IslandProps[N]): VNode<IslandProps[N]> {
+  return h(islands[name], props);
+}
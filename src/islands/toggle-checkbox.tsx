@@ -0,0 +1,42 @@
+import { FRAGMENT_TYPE } from '../utils';
+
+/**
+ * The done checkbox of a task row. Ticking it posts the enclosing toggle form and swaps in the row
+ * the server sends back. If the request cannot be sent, the form is submitted normally; if the
+ * server answers with an error, the page is reloaded to show the task as it is now, since posting
+ * again could toggle it twice.
+ */
+export default function ToggleCheckbox({ checked }: { checked: boolean }) {
+  const toggle = async (form: HTMLFormElement) => {
+    let response: Response;
+    try {
+      response = await fetch(form.action, {
+        method: 'POST',
+        body: new FormData(form),
+        headers: { Accept: FRAGMENT_TYPE },
+      });
+    } catch (error) {
+      console.error(error);
+      form.submit();
+      return;
+    }
+    const row = form.closest('tr');
+    if (response.ok && row) {
+      row.outerHTML = await response.text();
+    } else {
+      console.error(`Toggling failed with status ${response.status}`);
+      location.reload();
+    }
+  };
+
+  return (
+    <input
+      type="checkbox"
+      checked={checked}
+      onChange={(event) => {
+        const form = event.currentTarget.form;
+        if (form) toggle(form);
+      }}
+    />
+  );
+}
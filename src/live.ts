@@ -0,0 +1,73 @@
+import { Client } from 'pg';
+import { config } from './config';
+import { log, serializeError } from './logging';
+
+type Listener = () => void;
+
+// Listeners by user id
+const listeners = new Map<number, Set<Listener>>();
+let client: Client | null = null;
+let stopped = false;
+
+const RECONNECT_DELAY_MS = 1000;
+
+/**
+ * Calls `listener` whenever something is added to a user's activity log, until the returned function
+ * is called. A trigger on the activity table sends the notifications when the transaction commits,
+ * so every app server sees the changes made through the others.
+ */
+export function onActivity(userId: number, listener: Listener): () => void {
+  const forUser = listeners.get(userId) ?? new Set();
+  forUser.add(listener);
+  listeners.set(userId, forUser);
+  if (!client && !stopped) {
+    listen();
+  }
+
+  return () => {
+    forUser.delete(listener);
+    if (forUser.size === 0) {
+      listeners.delete(userId);
+    }
+  };
+}
+
+// Keeps one connection for LISTEN open while anyone is listening
+function listen(): void {
+  const connection = new Client({ connectionString: config.databaseUrl });
+  client = connection;
+
+  connection.on('notification', (message) => {
+    listeners.get(Number(message.payload))?.forEach((listener) => listener());
+  });
+  const reconnect = (error?: Error) => {
+    if (client !== connection) return;
+    if (error) log('error', 'Activity listener failed', { error: serializeError(error) });
+    client = null;
+    connection.end().catch(() => {});
+    setTimeout(() => {
+      if (listeners.size > 0 && !client && !stopped) {
+        listen();
+        // Notifications sent while the connection was down are lost, so everyone checks for themselves
+        listeners.forEach((forUser) => forUser.forEach((listener) => listener()));
+      }
+    }, RECONNECT_DELAY_MS);
+  };
+  connection.on('error', reconnect);
+  connection.on('end', () => reconnect());
+
+  connection
+    .connect()
+    .then(() => connection.query('LISTEN activity'))
+    .catch(reconnect);
+}
+
+/**
+ * Closes the connection for LISTEN for good, when the server shuts down.
+ */
+export async function stopListening(): Promise<void> {
+  stopped = true;
+  const connection = client;
+  client = null;
+  await connection?.end();
+}
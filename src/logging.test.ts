@@ -0,0 +1,81 @@
+import { describe, expect, test, spyOn, afterEach, afterAll } from 'bun:test';
+import { Hono } from 'hono';
+import { requestId } from 'hono/request-id';
+import { requestLogging, serializeError } from './logging';
+
+describe('requestLogging', () => {
+  const lines: Record<string, unknown>[] = [];
+  const stdout = spyOn(console, 'log').mockImplementation((line: string) => lines.push(JSON.parse(line)));
+  const stderr = spyOn(console, 'error').mockImplementation((line: string) => lines.push(JSON.parse(line)));
+
+  afterEach(() => {
+    lines.length = 0;
+  });
+  afterAll(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  const app = new Hono();
+  app.use('*', requestId({ generator: () => 'req-1' }));
+  app.use('*', requestLogging());
+  app.onError((_, c) => c.text('Something went wrong', 500));
+  app.get('/calendar/:token', (c) => c.text('BEGIN:VCALENDAR'));
+  app.get('/broken', () => {
+    throw new Error('Boom');
+  });
+
+  test('logs each request once it has been answered', async () => {
+    await app.request('/calendar/s3cret');
+    expect(stdout).toHaveBeenCalled();
+    expect(lines).toEqual([
+      {
+        time: expect.any(String),
+        level: 'info',
+        message: 'request',
+        requestId: 'req-1',
+        method: 'GET',
+        path: '/calendar/:token',
+        route: '/calendar/:token',
+        status: 200,
+        durationMs: expect.any(Number),
+      },
+    ]);
+  });
+
+  test('logs failed requests as errors, with the error', async () => {
+    await app.request('/broken');
+    expect(stderr).toHaveBeenCalled();
+    expect(lines[0]).toMatchObject({
+      level: 'error',
+      status: 500,
+      error: { name: 'Error', message: 'Boom', stack: expect.stringContaining('Boom') },
+    });
+  });
+
+  test('writes to the given logger instead of the console', async () => {
+    const entries: unknown[][] = [];
+    const quiet = new Hono();
+    quiet.use(
+      '*',
+      requestLogging((...entry) => entries.push(entry))
+    );
+    quiet.get('/', (c) => c.text('ok'));
+
+    await quiet.request('/');
+    expect(lines).toEqual([]);
+    expect(entries).toEqual([['info', 'request', expect.objectContaining({ method: 'GET', path: '/', status: 200 })]]);
+  });
+});
+
+describe('serializeError', () => {
+  test('keeps the SQLSTATE and constraint of Postgres errors', () => {
+    const error = Object.assign(new Error('duplicate key'), { errno: '23505', constraint: 'tags_name_key' });
+    expect(serializeError(error)).toMatchObject({
+      message: 'duplicate key',
+      errno: '23505',
+      constraint: 'tags_name_key',
+    });
+    expect(serializeError('timeout')).toEqual({ message: 'timeout' });
+  });
+});
@@ -0,0 +1,72 @@
+import type { MiddlewareHandler } from 'hono';
+
+export type LogLevel = 'info' | 'warn' | 'error';
+
+/**
+ * Where log entries go. `log` writes them to stdout and stderr.
+ */
+export type Logger = (level: LogLevel, message: string, fields?: Record<string, unknown>) => void;
+
+/**
+ * Writes one log entry as a line of JSON, so log collectors can search by any of its fields.
+ * Errors go to stderr, everything else to stdout.
+ */
+export function log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  const line = JSON.stringify({ time: new Date().toISOString(), level, message, ...fields });
+  if (level === 'error') {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+/**
+ * The parts of an error worth logging. Postgres errors also carry their SQLSTATE and constraint.
+ */
+export function serializeError(error: unknown): Record<string, unknown> {
+  if (!(error instanceof Error)) {
+    return { message: String(error) };
+  }
+  const { code, errno, constraint } = error as { code?: unknown; errno?: unknown; constraint?: unknown };
+  return { name: error.name, message: error.message, code, errno, constraint, stack: error.stack };
+}
+
+// Route parameters that hold secrets, like the token of a calendar feed, which would let anyone who
+// can read the logs use the URL
+const secretParams = [':token'];
+
+function redactPath(path: string, route: string): string {
+  const routeSegments = route.split('/');
+  return path
+    .split('/')
+    .map((segment, index) => (secretParams.includes(routeSegments[index]) ? routeSegments[index] : segment))
+    .join('/');
+}
+
+/**
+ * Middleware that logs every request once it has been answered: its request id, method, path, the
+ * route that handled it, the status, how long it took and who made it. Requests that failed also
+ * log the error with its stack, which the error handler keeps out of the response. Secret path
+ * parameters are logged by their name instead of their value.
+ *
+ * Expects the `requestId` middleware of Hono to run first.
+ *
+ * @param write - Where the entries go, `log` unless a test wants them elsewhere or not at all.
+ */
+export function requestLogging(write: Logger = log): MiddlewareHandler {
+  return async (c, next) => {
+    const started = performance.now();
+    await next();
+    const status = c.res.status;
+    write(status >= 500 ? 'error' : c.error ? 'warn' : 'info', 'request', {
+      requestId: c.get('requestId'),
+      method: c.req.method,
+      path: redactPath(c.req.path, c.req.routePath),
+      route: c.req.routePath,
+      status,
+      durationMs: Math.round((performance.now() - started) * 10) / 10,
+      userId: c.get('user')?.id,
+      error: c.error ? serializeError(c.error) : undefined,
+    });
+  };
+}
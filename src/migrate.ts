@@ -0,0 +1,39 @@
+import { fetchMigrationStatus, applyMigrations, baselineMigrations, resetDatabase } from './migrations';
+
+/**
+ * Command line for the migrations in `drizzle/`:
+ *
+ * - `bun run migrate`: applies the pending migrations
+ * - `bun run migrate status`: lists the migrations and whether they have been applied
+ * - `bun run migrate baseline`: records all migrations as applied, for a schema created with `drizzle-kit push`
+ * - `bun run migrate reset`: drops everything and migrates from scratch (only when `NODE_ENV` is development)
+ */
+const command = process.argv[2] ?? 'apply';
+
+try {
+  switch (command) {
+    case 'apply': {
+      const applied = await applyMigrations();
+      console.log(applied.length > 0 ? `Applied ${applied.join(', ')}` : 'The database is up to date');
+      break;
+    }
+    case 'status':
+      for (const migration of await fetchMigrationStatus()) {
+        console.log(`${migration.applied ? 'applied' : 'pending'}  ${migration.name}`);
+      }
+      break;
+    case 'baseline':
+      console.log(`Recorded ${await baselineMigrations()} migration(s) as applied`);
+      break;
+    case 'reset':
+      await resetDatabase();
+      console.log('Reset the database and applied all migrations');
+      break;
+    default:
+      console.error(`Unknown command "${command}". Use apply, status, baseline or reset.`);
+      process.exit(1);
+  }
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,155 @@
+import { readFileSync } from 'node:fs';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { migrate } from 'drizzle-orm/node-postgres/migrator';
+import { readMigrationFiles } from 'drizzle-orm/migrator';
+import { Client } from 'pg';
+import { config } from './config';
+import type { MigrationMode } from './config';
+import { log } from './logging';
+
+const MIGRATIONS_FOLDER = `${import.meta.dir}/../drizzle`;
+
+// Where Drizzle's migrator records the migrations it has applied
+const MIGRATIONS_TABLE = 'drizzle.__drizzle_migrations';
+
+// Arbitrary key of the advisory lock that keeps servers starting at the same time from migrating together
+const MIGRATION_LOCK = 730_114_201;
+
+/**
+ * A migration from the journal in `drizzle/meta`, with whether the database has it already.
+ */
+export interface MigrationStatus {
+  name: string;
+  // When the migration was generated; Drizzle applies the ones newer than the last applied one
+  createdAt: Date;
+  applied: boolean;
+}
+
+async function withClient<T>(callback: (client: Client) => Promise<T>): Promise<T> {
+  const client = new Client({
+    connectionString: config.databaseUrl,
+    connectionTimeoutMillis: config.pool.connectionTimeoutMs,
+  });
+  await client.connect();
+  try {
+    return await callback(client);
+  } finally {
+    await client.end();
+  }
+}
+
+async function lastAppliedAt(client: Client): Promise<number | null> {
+  const { rows } = await client.query(`SELECT to_regclass('${MIGRATIONS_TABLE}') IS NOT NULL AS present`);
+  if (!rows[0].present) {
+    return null;
+  }
+  const { rows: applied } = await client.query(`SELECT max(created_at)::text AS last FROM ${MIGRATIONS_TABLE}`);
+  return applied[0].last === null ? null : Number(applied[0].last);
+}
+
+/**
+ * Lists the migrations in the journal, oldest first, and whether each one has been applied.
+ */
+export async function fetchMigrationStatus(): Promise<MigrationStatus[]> {
+  const journal: { entries: { tag: string; when: number }[] } = JSON.parse(
+    readFileSync(`${MIGRATIONS_FOLDER}/meta/_journal.json`, 'utf8')
+  );
+  const last = await withClient(lastAppliedAt);
+  return journal.entries.map((entry) => ({
+    name: entry.tag,
+    createdAt: new Date(entry.when),
+    applied: last !== null && entry.when <= last,
+  }));
+}
+
+/**
+ * Applies the pending migrations in one transaction. An advisory lock makes other servers wait
+ * until it is done, after which they find nothing left to apply.
+ *
+ * @returns {Promise<string[]>} The names of the migrations that were applied.
+ */
+export async function applyMigrations(): Promise<string[]> {
+  const pending = (await fetchMigrationStatus()).filter((migration) => !migration.applied);
+  if (pending.length === 0) {
+    return [];
+  }
+
+  return withClient(async (client) => {
+    // Held until the connection closes
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK]);
+    const before = await lastAppliedAt(client);
+    await migrate(drizzle(client), { migrationsFolder: MIGRATIONS_FOLDER });
+    return pending
+      .filter((migration) => before === null || migration.createdAt.getTime() > before)
+      .map((migration) => migration.name);
+  });
+}
+
+/**
+ * Records every migration as applied without running it, for databases whose schema was created
+ * some other way, such as with `drizzle-kit push`.
+ *
+ * @returns {Promise<number>} How many migrations were recorded.
+ */
+export async function baselineMigrations(): Promise<number> {
+  const migrations = readMigrationFiles({ migrationsFolder: MIGRATIONS_FOLDER });
+  return withClient(async (client) => {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK]);
+    const last = await lastAppliedAt(client);
+    await client.query('CREATE SCHEMA IF NOT EXISTS drizzle');
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (id SERIAL PRIMARY KEY, hash text NOT NULL, created_at bigint)`
+    );
+    const missing = migrations.filter((migration) => last === null || migration.folderMillis > last);
+    for (const migration of missing) {
+      await client.query(`INSERT INTO ${MIGRATIONS_TABLE} (hash, created_at) VALUES ($1, $2)`, [
+        migration.hash,
+        migration.folderMillis,
+      ]);
+    }
+    return missing.length;
+  });
+}
+
+/**
+ * Drops all tables, data and recorded migrations and migrates the empty database again. Refuses to
+ * run unless `NODE_ENV` is `development`, so a missing setting cannot wipe a live database.
+ */
+export async function resetDatabase(): Promise<void> {
+  if (!config.development) {
+    throw new Error('Resetting the database is only allowed when NODE_ENV is development');
+  }
+  await withClient(async (client) => {
+    await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK]);
+    await client.query('DROP SCHEMA IF EXISTS drizzle CASCADE');
+    await client.query('DROP SCHEMA public CASCADE');
+    await client.query('CREATE SCHEMA public');
+  });
+  await applyMigrations();
+}
+
+/**
+ * Brings the database up to date when the server starts, according to `MIGRATIONS` (see `MigrationMode`).
+ * Throws if the database is behind and the mode is `check`, so the server does not start on an old schema.
+ */
+export async function migrateOnStartup(mode: MigrationMode = config.migrations): Promise<void> {
+  if (mode === 'off') {
+    return;
+  }
+  if (mode === 'apply') {
+    const applied = await applyMigrations();
+    if (applied.length > 0) {
+      log('info', 'Applied migrations', { migrations: applied });
+    }
+    return;
+  }
+
+  const pending = (await fetchMigrationStatus()).filter((migration) => !migration.applied);
+  if (pending.length > 0) {
+    const names = pending.map((migration) => migration.name).join(', ');
+    throw new Error(
+      `The database is missing ${pending.length} migration(s): ${names}. ` +
+        'Run `bun run migrate`, or start with MIGRATIONS=apply.'
+    );
+  }
+}
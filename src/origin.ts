@@ -0,0 +1,30 @@
+import type { Context } from 'hono';
+import { config } from './config';
+
+// The first value of a header a trusted proxy sets, which may list one value per proxy
+function forwarded(c: Context, name: string): string | undefined {
+  return config.trustProxy ? c.req.header(name)?.split(',')[0].trim() || undefined : undefined;
+}
+
+/**
+ * The origin browsers reach this site at, such as `https://tasks.example.com`: `PUBLIC_ORIGIN` when
+ * it is set, otherwise the host and protocol the request arrived with. Behind a proxy that
+ * terminates TLS the request arrives over `http:`, so with `TRUST_PROXY` set the proxy's
+ * `X-Forwarded-Proto` and `X-Forwarded-Host` headers take their place.
+ */
+export function siteOrigin(c: Context): string {
+  if (config.publicOrigin) {
+    return config.publicOrigin;
+  }
+  const url = new URL(c.req.url);
+  const protocol = forwarded(c, 'X-Forwarded-Proto');
+  const host = forwarded(c, 'X-Forwarded-Host') ?? url.host;
+  return `${protocol === 'https' || protocol === 'http' ? protocol : url.protocol.slice(0, -1)}://${host}`;
+}
+
+/**
+ * Whether browsers reach this site over HTTPS, so its cookies can be limited to secure connections.
+ */
+export function isSecure(c: Context): boolean {
+  return siteOrigin(c).startsWith('https:');
+}
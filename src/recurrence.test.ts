@@ -0,0 +1,84 @@
+import { describe, expect, test } from 'bun:test';
+import { recurrenceFromFields, isRecurrence, describeRecurrence, nextOccurrence } from './recurrence';
+
+describe('recurrenceFromFields', () => {
+  const fields = { repeat: 'none' as const, repeat_weekdays: [], repeat_day: null, repeat_every: null };
+
+  test('builds the rule of the chosen frequency', () => {
+    expect(recurrenceFromFields(fields)).toEqual({ rule: null });
+    expect(recurrenceFromFields({ ...fields, repeat: 'weekly', repeat_weekdays: [1, 4] })).toEqual({
+      rule: { freq: 'weekly', weekdays: [1, 4] },
+    });
+    expect(recurrenceFromFields({ ...fields, repeat: 'interval', repeat_every: 3, repeat_day: 9 })).toEqual({
+      rule: { freq: 'interval', days: 3 },
+    });
+  });
+
+  test('reports the fields the frequency needs', () => {
+    expect(recurrenceFromFields({ ...fields, repeat: 'weekly' })).toEqual({
+      errors: { repeat_weekdays: 'Choose at least one weekday' },
+    });
+    expect(recurrenceFromFields({ ...fields, repeat: 'monthly' })).toEqual({
+      errors: { repeat_day: 'Day of month is required' },
+    });
+  });
+});
+
+describe('isRecurrence', () => {
+  test('accepts valid rules only', () => {
+    expect(isRecurrence({ freq: 'daily' })).toBe(true);
+    expect(isRecurrence({ freq: 'weekly', weekdays: [0, 6] })).toBe(true);
+    expect(isRecurrence({ freq: 'monthly', day: 31 })).toBe(true);
+    for (const value of [
+      null,
+      'daily',
+      { freq: 'yearly' },
+      { freq: 'weekly', weekdays: [] },
+      { freq: 'weekly', weekdays: [7] },
+      { freq: 'monthly', day: 1.5 },
+      { freq: 'interval', days: 0 },
+    ]) {
+      expect(isRecurrence(value)).toBe(false);
+    }
+  });
+});
+
+describe('describeRecurrence', () => {
+  test('names the frequency and its days', () => {
+    expect(describeRecurrence({ freq: 'weekly', weekdays: [4, 1] })).toBe('Weekly on Mon, Thu');
+    expect(describeRecurrence({ freq: 'monthly', day: 15 })).toBe('Monthly on day 15');
+    expect(describeRecurrence({ freq: 'interval', days: 1 })).toBe('Every day');
+    expect(describeRecurrence({ freq: 'interval', days: 10 })).toBe('Every 10 days');
+  });
+});
+
+describe('nextOccurrence', () => {
+  // A Saturday
+  const now = '2025-03-08 10:00:00';
+
+  test('moves the due date on by the rule, keeping the time of day', () => {
+    expect(nextOccurrence({ freq: 'daily' }, '2025-03-08 18:00:00', now)).toBe('2025-03-09 18:00:00');
+    expect(nextOccurrence({ freq: 'interval', days: 14 }, '2025-03-08 18:00:00', now)).toBe('2025-03-22 18:00:00');
+    expect(nextOccurrence({ freq: 'weekly', weekdays: [1, 4] }, '2025-03-08 18:00:00', now)).toBe(
+      '2025-03-10 18:00:00'
+    );
+  });
+
+  test('skips occurrences that are already past', () => {
+    expect(nextOccurrence({ freq: 'daily' }, '2025-03-01 09:00:00', now)).toBe('2025-03-09 09:00:00');
+    expect(nextOccurrence({ freq: 'interval', days: 3 }, '2025-03-01 12:00:00', now)).toBe('2025-03-10 12:00:00');
+  });
+
+  test('uses the last day of months without the chosen day', () => {
+    expect(nextOccurrence({ freq: 'monthly', day: 31 }, '2025-01-31 09:00:00', '2025-01-31 10:00:00')).toBe(
+      '2025-02-28 09:00:00'
+    );
+    expect(nextOccurrence({ freq: 'monthly', day: 31 }, '2025-02-28 09:00:00', '2025-02-28 10:00:00')).toBe(
+      '2025-03-31 09:00:00'
+    );
+  });
+
+  test('counts from the end of today for tasks without a due date', () => {
+    expect(nextOccurrence({ freq: 'daily' }, null, now)).toBe('2025-03-09 23:59:59');
+  });
+});
@@ -0,0 +1,165 @@
+import type { FieldErrors } from './validation';
+
+/**
+ * How a recurring task repeats. Weekdays count from 0 (Sunday) to 6 (Saturday).
+ */
+export type Recurrence =
+  | { freq: 'daily' }
+  | { freq: 'weekly'; weekdays: number[] }
+  | { freq: 'monthly'; day: number }
+  | { freq: 'interval'; days: number };
+
+export type RecurrenceFrequency = Recurrence['freq'];
+
+export const recurrenceFrequencies: RecurrenceFrequency[] = ['daily', 'weekly', 'monthly', 'interval'];
+
+export const weekdayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Builds a rule from the separately validated repeat fields of a task form.
+ *
+ * @returns The rule (`null` for tasks that do not repeat), or the errors of fields the chosen frequency needs.
+ */
+export function recurrenceFromFields(fields: {
+  repeat: RecurrenceFrequency | 'none';
+  repeat_weekdays: number[];
+  repeat_day: number | null;
+  repeat_every: number | null;
+}): { rule: Recurrence | null } | { errors: FieldErrors } {
+  switch (fields.repeat) {
+    case 'none':
+      return { rule: null };
+    case 'daily':
+      return { rule: { freq: 'daily' } };
+    case 'weekly':
+      return fields.repeat_weekdays.length > 0
+        ? { rule: { freq: 'weekly', weekdays: fields.repeat_weekdays } }
+        : { errors: { repeat_weekdays: 'Choose at least one weekday' } };
+    case 'monthly':
+      return fields.repeat_day !== null
+        ? { rule: { freq: 'monthly', day: fields.repeat_day } }
+        : { errors: { repeat_day: 'Day of month is required' } };
+    case 'interval':
+      return fields.repeat_every !== null
+        ? { rule: { freq: 'interval', days: fields.repeat_every } }
+        : { errors: { repeat_every: 'Number of days is required' } };
+  }
+}
+
+// The raw form values for a rule, the reverse of recurrenceFromFields()
+export function recurrenceInput(rule: Recurrence | null): Record<string, string> {
+  return {
+    repeat: rule?.freq ?? 'none',
+    repeat_weekdays: rule?.freq === 'weekly' ? rule.weekdays.join(',') : '',
+    repeat_day: rule?.freq === 'monthly' ? String(rule.day) : '',
+    repeat_every: rule?.freq === 'interval' ? String(rule.days) : '',
+  };
+}
+
+/**
+ * Checks a rule that comes from outside, such as a JSON API request body.
+ */
+export function isRecurrence(value: unknown): value is Recurrence {
+  const rule = value as Record<string, unknown> | null;
+  const isInteger = (n: unknown, min: number, max: number) =>
+    typeof n === 'number' && Number.isInteger(n) && n >= min && n <= max;
+
+  switch (rule && typeof rule === 'object' ? rule.freq : undefined) {
+    case 'daily':
+      return true;
+    case 'weekly':
+      return (
+        Array.isArray(rule!.weekdays) &&
+        rule!.weekdays.length > 0 &&
+        rule!.weekdays.every((weekday) => isInteger(weekday, 0, 6))
+      );
+    case 'monthly':
+      return isInteger(rule!.day, 1, 31);
+    case 'interval':
+      return isInteger(rule!.days, 1, 365);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Describes a rule for the task list, e.g. "Weekly on Mon, Thu".
+ */
+export function describeRecurrence(rule: Recurrence): string {
+  switch (rule.freq) {
+    case 'daily':
+      return 'Daily';
+    case 'weekly':
+      return `Weekly on ${[...rule.weekdays]
+        .sort()
+        .map((weekday) => weekdayNames[weekday])
+        .join(', ')}`;
+    case 'monthly':
+      return `Monthly on day ${rule.day}`;
+    case 'interval':
+      return rule.days === 1 ? 'Every day' : `Every ${rule.days} days`;
+  }
+}
+
+// Timestamps are Postgres `timestamp` strings without a time zone, so the arithmetic is done in UTC
+// to keep the wall-clock time unchanged across daylight saving changes
+function parseTimestamp(value: string): Date {
+  return new Date(`${value.slice(0, 19).replace(' ', 'T')}Z`);
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// The first time after `date` that matches the rule, at the same time of day
+function step(rule: Recurrence, date: Date): Date {
+  switch (rule.freq) {
+    case 'daily':
+      return new Date(date.getTime() + DAY);
+    case 'interval':
+      return new Date(date.getTime() + rule.days * DAY);
+    case 'weekly': {
+      let next = new Date(date.getTime() + DAY);
+      while (!rule.weekdays.includes(next.getUTCDay())) {
+        next = new Date(next.getTime() + DAY);
+      }
+      return next;
+    }
+    case 'monthly': {
+      // Months without the day use their last day instead, e.g. the 31st becomes April 30th
+      for (let offset = 0; ; offset++) {
+        const year = date.getUTCFullYear();
+        const month = date.getUTCMonth() + offset;
+        const candidate = new Date(date);
+        candidate.setUTCDate(1);
+        candidate.setUTCFullYear(year, month, Math.min(rule.day, daysInMonth(year, month)));
+        if (candidate > date) {
+          return candidate;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Works out the due date of the next occurrence of a recurring task: the first date after the
+ * current due date that matches the rule and is still in the future. Tasks without a due date
+ * count from the end of today, like a due date without a time.
+ *
+ * @param {string | null} dueAt - The due date of the occurrence that was completed.
+ * @param {string} now - The current time, as a timestamp string in the same time zone as `dueAt`.
+ */
+export function nextOccurrence(rule: Recurrence, dueAt: string | null, now: string): string {
+  const current = parseTimestamp(now);
+  let next = dueAt ? parseTimestamp(dueAt) : parseTimestamp(`${now.slice(0, 10)} 23:59:59`);
+  do {
+    next = step(rule, next);
+  } while (next <= current);
+  return formatTimestamp(next);
+}
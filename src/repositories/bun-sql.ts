@@ -0,0 +1,982 @@
+import { SQL } from 'bun';
+import { config } from '../config';
+import type {
+  Task,
+  NestedTask,
+  Category,
+  Tag,
+  TaskTag,
+  TrashedTask,
+  TrashedCategory,
+  CalendarTask,
+  ActivityEntry,
+} from '../db';
+import type { ActivityEntity, ActivityAction, ActivityQuery } from '../activity-query';
+import { defaultTaskQuery } from '../task-query';
+import type { TaskQuery } from '../task-query';
+import { nextOccurrence } from '../recurrence';
+import type { Recurrence } from '../recurrence';
+import { generateToken, hashToken } from '../tokens';
+import type { Repository } from './repository';
+
+interface ActivityRecord {
+  userId: number;
+  entity: ActivityEntity;
+  entityId: number;
+  action: ActivityAction;
+  before?: Record<string, unknown> | null;
+  after?: Record<string, unknown> | null;
+}
+
+// The queries below follow those of db.ts, so both repositories return and record the same. Every
+// fragment is built with the client or transaction of the query it ends up in.
+
+// Columns shared by every query that returns tasks joined with their category, as `t` and `c`
+function taskColumns(sql: SQL) {
+  // Timestamps come back as text, like Drizzle's `string` mode gives them
+  return sql`t.id, t.title, t.done, t.created_at::text AS "createdAt", t.due_at::text AS "dueAt", t.priority,
+    (t.due_at IS NOT NULL AND t.due_at < now() AND t.done IS NOT TRUE) AS overdue,
+    t.category_id AS "categoryId", c.name AS "categoryName", t.parent_id AS "parentId",
+    t.complete_with_subtasks AS "completeWithSubtasks",
+    (SELECT count(*)::int FROM tasks s WHERE s.parent_id = t.id AND s.deleted_at IS NULL) AS "subtaskCount",
+    (SELECT count(*)::int FROM tasks s WHERE s.parent_id = t.id AND s.deleted_at IS NULL AND s.done) AS "subtasksDone",
+    coalesce((SELECT json_agg(json_build_object('id', g.id, 'name', g.name) ORDER BY lower(g.name))
+      FROM task_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.task_id = t.id), '[]') AS tags,
+    t.recurrence`;
+}
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+function taskConditions(sql: SQL, ownerId: number, query: TaskQuery) {
+  let where = sql`t.owner_id = ${ownerId} AND t.deleted_at IS NULL`;
+  if (query.search) {
+    where = sql`${where} AND t.title ILIKE ${`%${escapeLike(query.search)}%`}`;
+  }
+  if (query.categoryId === 'none') {
+    where = sql`${where} AND t.category_id IS NULL`;
+  } else if (query.categoryId !== null) {
+    where = sql`${where} AND t.category_id = ${query.categoryId}`;
+  }
+  if (query.tagId !== null) {
+    where = sql`${where} AND EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id = ${query.tagId})`;
+  }
+  if (query.status === 'done') {
+    where = sql`${where} AND t.done = true`;
+  } else if (query.status === 'open') {
+    where = sql`${where} AND t.done IS NOT TRUE`;
+  }
+  if (query.due === 'overdue') {
+    where = sql`${where} AND t.due_at < now() AND t.done IS NOT TRUE`;
+  } else if (query.due === 'today') {
+    where = sql`${where} AND t.due_at >= date_trunc('day', now()) AND t.due_at < date_trunc('day', now()) + interval '1 day'`;
+  } else if (query.due === 'week') {
+    where = sql`${where} AND t.due_at >= date_trunc('week', now()) AND t.due_at < date_trunc('week', now()) + interval '1 week'`;
+  }
+  return where;
+}
+
+const sortColumns: Record<TaskQuery['sort'], string> = {
+  created: 't.created_at',
+  title: 't.title',
+  status: 't.done',
+  category: 'c.name',
+  due: 't.due_at IS NULL, t.due_at',
+  priority: 't.priority',
+  position: 'c.name IS NULL, c.name, t.position',
+};
+
+function taskOrder(sql: SQL, query: TaskQuery) {
+  const direction = query.dir === 'asc' || query.sort === 'position' ? 'ASC' : 'DESC';
+  return sql.unsafe(`${sortColumns[query.sort]} ${direction}, t.id ${direction}`);
+}
+
+// The ids of the tasks matching a query together with all of their ancestors outside the trash
+function visibleTasks(sql: SQL, ownerId: number, query: TaskQuery) {
+  return sql`WITH RECURSIVE visible(id, parent_id) AS (
+      SELECT t.id, t.parent_id FROM tasks t WHERE ${taskConditions(sql, ownerId, query)}
+      UNION
+      SELECT parent.id, parent.parent_id FROM tasks parent
+        JOIN visible ON parent.id = visible.parent_id
+        WHERE parent.deleted_at IS NULL
+    ) SELECT id FROM visible`;
+}
+
+function isTopLevel(sql: SQL) {
+  return sql`(t.parent_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM tasks parent WHERE parent.id = t.parent_id AND parent.deleted_at IS NULL))`;
+}
+
+function liveTask(sql: SQL, ownerId: number, id: number) {
+  return sql`t.id = ${id} AND t.owner_id = ${ownerId} AND t.deleted_at IS NULL`;
+}
+
+function trashedTask(sql: SQL, ownerId: number, id: number) {
+  return sql`t.id = ${id} AND t.owner_id = ${ownerId} AND t.deleted_at IS NOT NULL`;
+}
+
+// The tasks with the given id, or matching the given conditions on `t`, and the subtasks below them
+// that are in the same place, in or out of the trash
+function inSubtree(sql: SQL, roots: number | ReturnType<typeof liveTask>) {
+  return sql`t.id IN (WITH RECURSIVE subtree(id, deleted_at) AS (
+      SELECT t.id, t.deleted_at FROM tasks t WHERE ${typeof roots === 'number' ? sql`t.id = ${roots}` : roots}
+      UNION
+      SELECT child.id, child.deleted_at FROM tasks child JOIN subtree ON child.parent_id = subtree.id
+        WHERE child.deleted_at IS NOT DISTINCT FROM subtree.deleted_at
+    ) SELECT id FROM subtree)`;
+}
+
+async function logActivity(sql: SQL, records: ActivityRecord[]): Promise<void> {
+  for (const { userId, entity, entityId, action, before = null, after = null } of records) {
+    await sql`INSERT INTO activity (user_id, entity, entity_id, action, before, after)
+      VALUES (${userId}, ${entity}, ${entityId}, ${action}, ${before}::jsonb, ${after}::jsonb)`;
+  }
+}
+
+// Task fields recorded in the activity log, with the category by name
+async function snapshotTasks(sql: SQL, where: ReturnType<typeof liveTask>) {
+  const rows: ({ id: number; ownerId: number | null; parentId: number | null } & Record<string, unknown>)[] = await sql`
+    SELECT t.id, t.owner_id AS "ownerId", t.title, t.done, c.name AS category, t.due_at::text AS "dueAt", t.priority,
+      t.parent_id AS "parentId",
+      array(SELECT g.name FROM task_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.task_id = t.id ORDER BY lower(g.name))
+        AS tags,
+      t.recurrence
+    FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+    WHERE ${where}
+    ORDER BY t.id
+    FOR UPDATE OF t`;
+  // Copied out of the driver's row objects, so they compare and serialise like plain objects
+  return rows.map((row) => ({ ...row, tags: [...(row.tags as string[])] }));
+}
+
+async function changeTasks(
+  sql: SQL,
+  action: ActivityAction,
+  where: ReturnType<typeof liveTask>,
+  change: (ids: number[]) => Promise<unknown>
+): Promise<number[]> {
+  const before = await snapshotTasks(sql, where);
+  if (before.length === 0) {
+    return [];
+  }
+
+  const ids = before.map((task) => task.id);
+  await change(ids);
+  const after = action === 'purge' ? [] : await snapshotTasks(sql, sql`t.id IN ${sql(ids)}`);
+  const afterById = new Map(after.map(({ id, ownerId, ...fields }) => [id, fields]));
+
+  const records: ActivityRecord[] = [];
+  for (const { id, ownerId, ...fields } of before) {
+    const afterFields = afterById.get(id) ?? null;
+    if (ownerId === null || (action === 'update' && JSON.stringify(fields) === JSON.stringify(afterFields))) {
+      continue;
+    }
+    records.push({
+      userId: ownerId,
+      entity: 'task',
+      entityId: id,
+      action,
+      before: action === 'restore' ? null : fields,
+      after: action === 'trash' ? null : afterFields,
+    });
+  }
+  await logActivity(sql, records);
+  return ids;
+}
+
+async function setTaskTags(sql: SQL, ownerId: number, taskId: number, names: string[]): Promise<void> {
+  const tagIds: number[] = [];
+  for (const name of names) {
+    await sql`INSERT INTO tags (name, owner_id) VALUES (${name}, ${ownerId}) ON CONFLICT DO NOTHING`;
+    const [tag] = await sql`SELECT id FROM tags WHERE owner_id = ${ownerId} AND lower(name) = ${name.toLowerCase()}`;
+    tagIds.push(tag.id);
+  }
+  await sql`DELETE FROM task_tags WHERE task_id = ${taskId}`;
+  for (const tagId of new Set(tagIds)) {
+    await sql`INSERT INTO task_tags (task_id, tag_id) VALUES (${taskId}, ${tagId})`;
+  }
+}
+
+async function logCreatedTask(sql: SQL, id: number): Promise<void> {
+  const [{ ownerId, id: entityId, ...after }] = await snapshotTasks(sql, sql`t.id = ${id}`);
+  await logActivity(sql, [{ userId: ownerId!, entity: 'task', entityId, action: 'create', after }]);
+}
+
+async function createNextOccurrences(sql: SQL, ids: number[]): Promise<void> {
+  if (ids.length === 0) {
+    return;
+  }
+
+  const completed = await sql`
+    SELECT id, owner_id, title, category_id, priority, parent_id, due_at::text AS "dueAt", recurrence,
+      localtimestamp::text AS now
+    FROM tasks WHERE id IN ${sql(ids)} AND done = true AND recurrence IS NOT NULL`;
+  for (const task of completed) {
+    const rule = task.recurrence as Recurrence;
+    const [row] = await sql`
+      INSERT INTO tasks (owner_id, title, category_id, priority, parent_id, due_at, recurrence)
+      VALUES (${task.owner_id}, ${task.title}, ${task.category_id}, ${task.priority}, ${task.parent_id},
+        ${nextOccurrence(rule, task.dueAt, task.now)}, ${rule}::jsonb)
+      RETURNING id`;
+    await sql`INSERT INTO task_tags (task_id, tag_id) SELECT ${row.id}, tag_id FROM task_tags WHERE task_id = ${task.id}`;
+    await logCreatedTask(sql, row.id);
+
+    await changeTasks(
+      sql,
+      'update',
+      sql`t.id = ${task.id}`,
+      (ids) => sql`UPDATE tasks SET recurrence = NULL WHERE id IN ${sql(ids)}`
+    );
+  }
+}
+
+async function completeParents(sql: SQL, ids: number[]): Promise<void> {
+  while (ids.length > 0) {
+    ids = await changeTasks(
+      sql,
+      'toggle',
+      sql`t.id IN (SELECT parent_id FROM tasks child WHERE child.id IN ${sql(ids)})
+        AND t.deleted_at IS NULL AND t.complete_with_subtasks = true AND t.done IS NOT TRUE
+        AND NOT EXISTS (SELECT 1 FROM tasks child
+          WHERE child.parent_id = t.id AND child.deleted_at IS NULL AND child.done IS NOT TRUE)`,
+      (ids) => sql`UPDATE tasks SET done = true WHERE id IN ${sql(ids)}`
+    );
+  }
+}
+
+// A rank between the task with id `beforeId` and the one in front of it, like rankBefore() in db.ts
+async function rankBefore(sql: SQL, siblings: () => ReturnType<typeof liveTask>, beforeId: number): Promise<number> {
+  for (let attempt = 0; ; attempt++) {
+    const [{ before }] = await sql`SELECT position AS before FROM tasks WHERE id = ${beforeId}`;
+    const [{ previous }] = await sql`SELECT max(t.position) AS previous FROM tasks t
+      WHERE ${siblings()} AND t.position < ${before}`;
+    const position = previous === null ? before - 1 : (previous + before) / 2;
+    if ((position !== previous && position !== before) || attempt > 0) {
+      return position;
+    }
+    await sql`UPDATE tasks SET position = ranked.rank
+      FROM (SELECT t.id, row_number() OVER (ORDER BY t.position, t.id) AS rank FROM tasks t WHERE ${siblings()}) ranked
+      WHERE tasks.id = ranked.id`;
+  }
+}
+
+// Deletes the categories matching `where` and logs each of them; returns how many there were
+async function purgeCategories(sql: SQL, where: ReturnType<typeof liveTask>): Promise<number> {
+  const purged = await sql`DELETE FROM categories WHERE ${where} RETURNING id, owner_id AS "ownerId", name`;
+  await logActivity(
+    sql,
+    [...purged]
+      .filter((category) => category.ownerId !== null)
+      .map((category) => ({
+        userId: category.ownerId,
+        entity: 'category' as const,
+        entityId: category.id,
+        action: 'purge' as const,
+        before: { name: category.name },
+      }))
+  );
+  return purged.length;
+}
+
+async function purgeExpiredTrash(client: SQL): Promise<void> {
+  await client.begin(async (tx) => {
+    const cutoff = () => tx`now() - make_interval(days => ${config.trashRetentionDays}::int)`;
+    await changeTasks(
+      tx,
+      'purge',
+      tx`t.deleted_at < ${cutoff()}`,
+      (ids) => tx`DELETE FROM tasks WHERE id IN ${tx(ids)}`
+    );
+    await purgeCategories(tx, tx`deleted_at < ${cutoff()}`);
+  });
+}
+
+function activityConditions(sql: SQL, ownerId: number, query: ActivityQuery) {
+  let where = sql`a.user_id = ${ownerId}`;
+  if (query.entity) {
+    where = sql`${where} AND a.entity = ${query.entity}`;
+  }
+  if (query.action) {
+    where = sql`${where} AND a.action = ${query.action}`;
+  }
+  if (query.from) {
+    where = sql`${where} AND a.created_at >= ${query.from}::date`;
+  }
+  if (query.to) {
+    where = sql`${where} AND a.created_at < ${query.to}::date + interval '1 day'`;
+  }
+  return where;
+}
+
+function activityColumns(sql: SQL) {
+  return sql`a.id, a.entity, a.entity_id AS "entityId", a.action, a.before, a.after, a.created_at::text AS "createdAt",
+    u.email AS "userEmail"`;
+}
+
+/**
+ * Stores tasks and categories in Postgres through Bun's built-in SQL client. The default client
+ * uses the configured database and pool settings.
+ */
+export function createBunSqlRepository(
+  client: SQL = new SQL({
+    url: config.databaseUrl,
+    max: config.pool.max,
+    connectionTimeout: config.pool.connectionTimeoutMs / 1000,
+    idleTimeout: config.pool.idleTimeoutMs / 1000,
+  })
+): Repository {
+  const selectTasks = (where: ReturnType<typeof liveTask>) =>
+    client`SELECT ${taskColumns(client)} FROM tasks t LEFT JOIN categories c ON c.id = t.category_id WHERE ${where}`;
+
+  return {
+    async fetchTasks(ownerId, query = defaultTaskQuery, perPage) {
+      const page = perPage ? client`LIMIT ${perPage} OFFSET ${(query.page - 1) * perPage}` : client``;
+      const rows = await client`
+        SELECT ${taskColumns(client)} FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+        WHERE ${taskConditions(client, ownerId, query)}
+        ORDER BY ${taskOrder(client, query)} ${page}`;
+      return rows as Task[];
+    },
+
+    async countTasks(ownerId, query = defaultTaskQuery) {
+      const [row] =
+        await client`SELECT count(*)::int AS value FROM tasks t WHERE ${taskConditions(client, ownerId, query)}`;
+      return row.value;
+    },
+
+    async fetchTaskTree(ownerId, query = defaultTaskQuery, perPage) {
+      const page = perPage ? client`LIMIT ${perPage} OFFSET ${(query.page - 1) * perPage}` : client``;
+      const roots: Task[] = await client`
+        SELECT ${taskColumns(client)} FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+        WHERE t.id IN (${visibleTasks(client, ownerId, query)}) AND ${isTopLevel(client)}
+        ORDER BY ${taskOrder(client, query)} ${page}`;
+      if (roots.length === 0) {
+        return [];
+      }
+
+      const descendants: Task[] = await client`
+        SELECT ${taskColumns(client)} FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+        WHERE t.id IN (${visibleTasks(client, ownerId, query)})
+          AND t.id IN (WITH RECURSIVE subtree(id) AS (
+            SELECT id FROM tasks WHERE parent_id IN ${client(roots.map((task) => task.id))} AND deleted_at IS NULL
+            UNION
+            SELECT child.id FROM tasks child JOIN subtree ON child.parent_id = subtree.id
+              WHERE child.deleted_at IS NULL
+          ) SELECT id FROM subtree)
+        ORDER BY ${client.unsafe(query.sort === 'position' ? 't.position' : 't.id')}, t.id`;
+
+      const children = new Map<number, Task[]>();
+      for (const task of descendants) {
+        children.set(task.parentId!, [...(children.get(task.parentId!) ?? []), task]);
+      }
+      const result: NestedTask[] = [];
+      const visit = (task: Task, depth: number) => {
+        result.push({ ...task, depth });
+        for (const child of children.get(task.id) ?? []) {
+          visit(child, depth + 1);
+        }
+      };
+      roots.forEach((task) => visit(task, 0));
+      return result;
+    },
+
+    async countTaskTrees(ownerId, query = defaultTaskQuery) {
+      const [row] = await client`SELECT count(*)::int AS value FROM tasks t
+        WHERE t.id IN (${visibleTasks(client, ownerId, query)}) AND ${isTopLevel(client)}`;
+      return row.value;
+    },
+
+    async fetchCalendarTasks(ownerId, categoryId) {
+      // created_at holds the server's local time, so convert it to UTC as RFC 5545 requires for CREATED
+      const rows = await client`
+        SELECT ${taskColumns(client)}, to_char(t.created_at AT TIME ZONE current_setting('TimeZone') AT TIME ZONE 'UTC',
+          'YYYYMMDD"T"HH24MISS"Z"') AS "createdAtUtc"
+        FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+        WHERE ${taskConditions(client, ownerId, { ...defaultTaskQuery, categoryId })}
+        ORDER BY t.id`;
+      return rows as CalendarTask[];
+    },
+
+    async fetchTask(ownerId, id) {
+      const [task] = await selectTasks(liveTask(client, ownerId, id));
+      return task as Task | undefined;
+    },
+
+    async fetchNestedTask(ownerId, id) {
+      const [task] = await client`
+        SELECT ${taskColumns(client)}, (WITH RECURSIVE ancestors(id, parent_id) AS (
+            SELECT parent.id, parent.parent_id FROM tasks parent
+              WHERE parent.id = t.parent_id AND parent.deleted_at IS NULL
+            UNION ALL
+            SELECT parent.id, parent.parent_id FROM tasks parent
+              JOIN ancestors ON parent.id = ancestors.parent_id
+              WHERE parent.deleted_at IS NULL
+          ) SELECT count(*)::int FROM ancestors) AS depth
+        FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+        WHERE ${liveTask(client, ownerId, id)}`;
+      return task as NestedTask | undefined;
+    },
+
+    async countSubtasks(ownerId, id) {
+      const [row] = await client`SELECT count(*)::int AS value FROM tasks t
+        WHERE t.owner_id = ${ownerId} AND t.deleted_at IS NULL AND ${inSubtree(client, id)} AND t.id <> ${id}`;
+      return row.value;
+    },
+
+    async fetchCategories(ownerId) {
+      const rows = await client`SELECT id, name FROM categories
+        WHERE owner_id = ${ownerId} AND deleted_at IS NULL ORDER BY name ASC`;
+      return rows as Category[];
+    },
+
+    async fetchCategory(ownerId, id) {
+      const [category] = await client`SELECT id, name FROM categories
+        WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL`;
+      return category as Category | undefined;
+    },
+
+    async countCategoryTasks(ownerId, id) {
+      const [row] = await client`SELECT count(*)::int AS value FROM tasks
+        WHERE category_id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL`;
+      return row.value;
+    },
+
+    async fetchTags(ownerId) {
+      const rows =
+        await client`SELECT g.id, g.name, (SELECT count(*)::int FROM task_tags tt JOIN tasks t ON t.id = tt.task_id
+          WHERE tt.tag_id = g.id AND t.deleted_at IS NULL) AS "taskCount"
+        FROM tags g WHERE g.owner_id = ${ownerId} ORDER BY lower(g.name)`;
+      return rows as Tag[];
+    },
+
+    async fetchTag(ownerId, id) {
+      const [tag] = await client`SELECT id, name FROM tags WHERE id = ${id} AND owner_id = ${ownerId}`;
+      return tag as TaskTag | undefined;
+    },
+
+    async createTask(
+      ownerId,
+      { title, categoryId, dueAt = null, priority = 'normal', parentId = null, tags, recurrence = null }
+    ) {
+      return client.begin(async (tx) => {
+        const [row] = await tx`
+          INSERT INTO tasks (owner_id, title, category_id, due_at, priority, parent_id, recurrence)
+          VALUES (${ownerId}, ${title}, ${categoryId}, ${dueAt}, ${priority}, ${parentId}, ${recurrence}::jsonb)
+          RETURNING id`;
+        if (tags) {
+          await setTaskTags(tx, ownerId, row.id, tags);
+        }
+        await logCreatedTask(tx, row.id);
+        return row.id as number;
+      });
+    },
+
+    async updateTask(ownerId, id, values) {
+      const { tags: tagNames, ...columns } = values;
+      let set = client`id = id`;
+      if (columns.title !== undefined) set = client`${set}, title = ${columns.title}`;
+      if (columns.done !== undefined) set = client`${set}, done = ${columns.done}`;
+      if (columns.dueAt !== undefined) set = client`${set}, due_at = ${columns.dueAt}`;
+      if (columns.priority !== undefined) set = client`${set}, priority = ${columns.priority}`;
+      if (columns.parentId !== undefined) set = client`${set}, parent_id = ${columns.parentId}`;
+      if (columns.completeWithSubtasks !== undefined) {
+        set = client`${set}, complete_with_subtasks = ${columns.completeWithSubtasks}`;
+      }
+      if (columns.recurrence !== undefined) set = client`${set}, recurrence = ${columns.recurrence}::jsonb`;
+      if (columns.categoryId !== undefined) {
+        set = client`${set}, category_id = ${columns.categoryId}, previous_category_id = NULL,
+          position = CASE WHEN category_id IS DISTINCT FROM ${columns.categoryId}::int
+            THEN nextval('tasks_position_seq') ELSE position END`;
+      }
+
+      const changed: number[] = await client.begin(async (tx) => {
+        const ids = await changeTasks(tx, 'update', liveTask(tx, ownerId, id), async (ids) => {
+          await tx`UPDATE tasks SET ${set} WHERE id IN ${tx(ids)}`;
+          if (tagNames) {
+            await setTaskTags(tx, ownerId, id, tagNames);
+          }
+        });
+        await createNextOccurrences(tx, ids);
+        await completeParents(tx, ids);
+        return ids;
+      });
+      return changed.length > 0;
+    },
+
+    async toggleTask(ownerId, id) {
+      const changed: number[] = await client.begin(async (tx) => {
+        const ids = await changeTasks(
+          tx,
+          'toggle',
+          liveTask(tx, ownerId, id),
+          (ids) => tx`UPDATE tasks SET done = NOT done WHERE id IN ${tx(ids)}`
+        );
+        await createNextOccurrences(tx, ids);
+        await completeParents(tx, ids);
+        return ids;
+      });
+      return changed.length > 0;
+    },
+
+    async moveTask(ownerId, id, move) {
+      return client.begin(async (tx) => {
+        const [task] = await tx`SELECT t.parent_id AS "parentId", t.category_id AS "categoryId", t.position
+          FROM tasks t WHERE ${liveTask(tx, ownerId, id)} FOR UPDATE`;
+        if (!task) {
+          return false;
+        }
+
+        // The tasks that the task is ordered among when it is in the given category
+        const siblings = (categoryId: number | null) => () =>
+          tx`t.owner_id = ${ownerId} AND t.deleted_at IS NULL AND t.id <> ${id} AND ${
+            task.parentId === null
+              ? tx`t.parent_id IS NULL AND t.category_id IS NOT DISTINCT FROM ${categoryId}::int`
+              : tx`t.parent_id = ${task.parentId}`
+          }`;
+
+        let beforeId: number | null = null;
+        let categoryId: number | null = task.categoryId;
+        if ('beforeId' in move) {
+          beforeId = move.beforeId;
+        } else if ('categoryId' in move) {
+          categoryId = move.categoryId;
+        } else if (move.direction === 'up') {
+          // In front of the previous sibling; the first task stays where it is
+          const [previous] = await tx`SELECT t.id FROM tasks t
+            WHERE ${siblings(categoryId)()} AND t.position < ${task.position} ORDER BY t.position DESC LIMIT 1`;
+          if (!previous) return true;
+          beforeId = previous.id;
+        } else {
+          // In front of the sibling after the next one, or last; the last task stays where it is
+          const [next, afterNext] = await tx`SELECT t.id FROM tasks t
+            WHERE ${siblings(categoryId)()} AND t.position > ${task.position} ORDER BY t.position ASC LIMIT 2`;
+          if (!next) return true;
+          beforeId = afterNext?.id ?? null;
+        }
+
+        let position: number | null = null;
+        if (beforeId !== null) {
+          const [before] = await tx`SELECT t.parent_id AS "parentId", t.category_id AS "categoryId" FROM tasks t
+            WHERE ${liveTask(tx, ownerId, beforeId)} AND t.id <> ${id}`;
+          if (!before || before.parentId !== task.parentId) {
+            return false;
+          }
+          if (task.parentId === null) {
+            categoryId = before.categoryId;
+          }
+          position = await rankBefore(tx, siblings(categoryId), beforeId);
+        }
+
+        await changeTasks(
+          tx,
+          'move',
+          liveTask(tx, ownerId, id),
+          (ids) => tx`UPDATE tasks SET category_id = ${categoryId},
+            position = coalesce(${position}::double precision, nextval('tasks_position_seq')),
+            previous_category_id = CASE WHEN category_id IS DISTINCT FROM ${categoryId}::int
+              THEN NULL ELSE previous_category_id END
+            WHERE id IN ${tx(ids)}`
+        );
+        return true;
+      });
+    },
+
+    async bulkUpdateTasks(ownerId, selection, change) {
+      if ('ids' in selection && selection.ids.length === 0) {
+        return 0;
+      }
+      if (change.action === 'delete') {
+        await purgeExpiredTrash(client);
+      }
+
+      const changed: number[] = await client.begin(async (tx) => {
+        const selected = () =>
+          'ids' in selection
+            ? tx`t.owner_id = ${ownerId} AND t.deleted_at IS NULL AND t.id IN ${tx(selection.ids)}`
+            : taskConditions(tx, ownerId, selection.query);
+        switch (change.action) {
+          case 'done':
+          case 'open': {
+            const done = change.action === 'done';
+            const ids = await changeTasks(
+              tx,
+              'toggle',
+              tx`${selected()} AND ${done ? tx`t.done IS NOT TRUE` : tx`t.done = true`}`,
+              (ids) => tx`UPDATE tasks SET done = ${done} WHERE id IN ${tx(ids)}`
+            );
+            await createNextOccurrences(tx, ids);
+            await completeParents(tx, ids);
+            return ids;
+          }
+          case 'move':
+            return changeTasks(
+              tx,
+              'update',
+              tx`${selected()} AND t.category_id IS DISTINCT FROM ${change.categoryId}::int`,
+              (ids) => tx`UPDATE tasks SET category_id = ${change.categoryId}, previous_category_id = NULL,
+                position = nextval('tasks_position_seq') WHERE id IN ${tx(ids)}`
+            );
+          case 'delete':
+            return changeTasks(
+              tx,
+              'trash',
+              tx`t.owner_id = ${ownerId} AND t.deleted_at IS NULL AND ${inSubtree(tx, selected())}`,
+              (ids) => tx`UPDATE tasks SET deleted_at = now() WHERE id IN ${tx(ids)}`
+            );
+        }
+      });
+      return changed.length;
+    },
+
+    async trashTask(ownerId, id, subtasks = 'promote') {
+      await purgeExpiredTrash(client);
+      const changed: number[] = await client.begin(async (tx) => {
+        if (subtasks === 'promote') {
+          const [task] = await snapshotTasks(tx, liveTask(tx, ownerId, id));
+          if (!task) {
+            return [];
+          }
+          await changeTasks(
+            tx,
+            'update',
+            tx`t.parent_id = ${id} AND t.deleted_at IS NULL`,
+            (ids) => tx`UPDATE tasks SET parent_id = ${task.parentId} WHERE id IN ${tx(ids)}`
+          );
+        }
+        return changeTasks(
+          tx,
+          'trash',
+          tx`t.owner_id = ${ownerId} AND t.deleted_at IS NULL AND ${inSubtree(tx, id)}`,
+          (ids) => tx`UPDATE tasks SET deleted_at = now() WHERE id IN ${tx(ids)}`
+        );
+      });
+      return changed.length > 0;
+    },
+
+    async createCategory(ownerId, name) {
+      return client.begin(async (tx) => {
+        const [row] = await tx`INSERT INTO categories (name, owner_id) VALUES (${name}, ${ownerId}) RETURNING id`;
+        await logActivity(tx, [
+          { userId: ownerId, entity: 'category', entityId: row.id, action: 'create', after: { name } },
+        ]);
+        return row.id as number;
+      });
+    },
+
+    async updateCategory(ownerId, id, name) {
+      return client.begin(async (tx) => {
+        const [category] = await tx`SELECT name FROM categories
+          WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL FOR UPDATE`;
+        if (!category) {
+          return false;
+        }
+
+        await tx`UPDATE categories SET name = ${name} WHERE id = ${id}`;
+        if (category.name !== name) {
+          await logActivity(tx, [
+            {
+              userId: ownerId,
+              entity: 'category',
+              entityId: id,
+              action: 'rename',
+              before: { name: category.name },
+              after: { name },
+            },
+          ]);
+        }
+        return true;
+      });
+    },
+
+    async mergeCategory(ownerId, sourceId, targetId) {
+      return client.begin(async (tx) => {
+        const [source] = await tx`SELECT name FROM categories
+          WHERE id = ${sourceId} AND owner_id = ${ownerId} AND deleted_at IS NULL FOR UPDATE`;
+        if (!source) {
+          return null;
+        }
+
+        const moved = await changeTasks(
+          tx,
+          'update',
+          tx`t.category_id = ${sourceId} AND t.owner_id = ${ownerId} AND t.deleted_at IS NULL`,
+          (ids) => tx`UPDATE tasks SET category_id = ${targetId} WHERE id IN ${tx(ids)}`
+        );
+        // Tasks in the trash follow silently; their history starts again when they are restored
+        await tx`UPDATE tasks SET category_id = ${targetId} WHERE category_id = ${sourceId}`;
+        await tx`DELETE FROM categories WHERE id = ${sourceId}`;
+
+        const [target] = await tx`SELECT name FROM categories WHERE id = ${targetId}`;
+        await logActivity(tx, [
+          {
+            userId: ownerId,
+            entity: 'category',
+            entityId: sourceId,
+            action: 'merge',
+            before: { name: source.name },
+            after: { mergedInto: target?.name ?? null, tasks: moved.length },
+          },
+        ]);
+        return moved.length;
+      });
+    },
+
+    async trashCategory(ownerId, id, action = 'uncategorise', targetId) {
+      await purgeExpiredTrash(client);
+      return client.begin(async (tx) => {
+        const [category] = await tx`SELECT name FROM categories
+          WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NULL FOR UPDATE`;
+        if (!category) {
+          return false;
+        }
+
+        const categoryTasks = tx`t.category_id = ${id} AND t.owner_id = ${ownerId} AND t.deleted_at IS NULL`;
+        if (action === 'delete') {
+          await changeTasks(
+            tx,
+            'trash',
+            categoryTasks,
+            (ids) => tx`UPDATE tasks SET deleted_at = now() WHERE id IN ${tx(ids)}`
+          );
+        } else {
+          await changeTasks(
+            tx,
+            'update',
+            categoryTasks,
+            (ids) =>
+              tx`UPDATE tasks SET category_id = ${action === 'reassign' ? (targetId ?? null) : null}, previous_category_id = ${id}
+              WHERE id IN ${tx(ids)}`
+          );
+        }
+
+        // now() is the start of the transaction, so this matches the tasks trashed above
+        await tx`UPDATE categories SET deleted_at = now() WHERE id = ${id}`;
+        await logActivity(tx, [
+          { userId: ownerId, entity: 'category', entityId: id, action: 'trash', before: { name: category.name } },
+        ]);
+        return true;
+      });
+    },
+
+    async renameTag(ownerId, id, name) {
+      const renamed =
+        await client`UPDATE tags SET name = ${name} WHERE id = ${id} AND owner_id = ${ownerId} RETURNING id`;
+      return renamed.length > 0;
+    },
+
+    async deleteTag(ownerId, id) {
+      return client.begin(async (tx) => {
+        const [tag] = await tx`SELECT id FROM tags WHERE id = ${id} AND owner_id = ${ownerId} FOR UPDATE`;
+        if (!tag) {
+          return false;
+        }
+
+        await changeTasks(
+          tx,
+          'update',
+          tx`t.owner_id = ${ownerId} AND t.deleted_at IS NULL
+            AND EXISTS (SELECT 1 FROM task_tags tt WHERE tt.task_id = t.id AND tt.tag_id = ${id})`,
+          (ids) => tx`DELETE FROM task_tags WHERE tag_id = ${id} AND task_id IN ${tx(ids)}`
+        );
+        // Removes the tag from the tasks in the trash as well
+        await tx`DELETE FROM tags WHERE id = ${id}`;
+        return true;
+      });
+    },
+
+    async fetchTrash(ownerId) {
+      const [tasks, categories] = await Promise.all([
+        client`SELECT t.id, t.title, c.name AS "categoryName", t.deleted_at::text AS "deletedAt"
+          FROM tasks t LEFT JOIN categories c ON c.id = t.category_id
+          WHERE t.owner_id = ${ownerId} AND t.deleted_at IS NOT NULL
+          ORDER BY t.deleted_at DESC, t.id DESC`,
+        client`SELECT c.id, c.name, c.deleted_at::text AS "deletedAt",
+            (SELECT count(*)::int FROM tasks t WHERE t.previous_category_id = c.id
+              OR (t.category_id = c.id AND t.deleted_at = c.deleted_at)) AS "taskCount"
+          FROM categories c
+          WHERE c.owner_id = ${ownerId} AND c.deleted_at IS NOT NULL
+          ORDER BY c.deleted_at DESC, c.id DESC`,
+      ]);
+      return { tasks: [...tasks] as TrashedTask[], categories: [...categories] as TrashedCategory[] };
+    },
+
+    async restoreTask(ownerId, id) {
+      const changed: number[] = await client.begin((tx) => {
+        const categoryTrashed = () =>
+          tx`EXISTS (SELECT 1 FROM categories c WHERE c.id = tasks.category_id AND c.deleted_at IS NOT NULL)`;
+        return changeTasks(
+          tx,
+          'restore',
+          tx`t.owner_id = ${ownerId} AND t.deleted_at IS NOT NULL AND ${inSubtree(tx, id)}`,
+          (ids) => tx`UPDATE tasks SET deleted_at = NULL,
+            category_id = CASE WHEN ${categoryTrashed()} THEN NULL ELSE category_id END,
+            previous_category_id = CASE WHEN ${categoryTrashed()} THEN category_id ELSE previous_category_id END
+            WHERE id IN ${tx(ids)}`
+        );
+      });
+      return changed.length > 0;
+    },
+
+    async restoreCategory(ownerId, id) {
+      return client.begin(async (tx) => {
+        // As text, since a Date would lose the microseconds the tasks trashed with it are matched on
+        const [category] = await tx`SELECT name, deleted_at::text AS "deletedAt" FROM categories
+          WHERE id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NOT NULL FOR UPDATE`;
+        if (!category) {
+          return false;
+        }
+
+        await tx`UPDATE categories SET deleted_at = NULL WHERE id = ${id}`;
+        await logActivity(tx, [
+          { userId: ownerId, entity: 'category', entityId: id, action: 'restore', after: { name: category.name } },
+        ]);
+        await changeTasks(
+          tx,
+          'restore',
+          tx`t.category_id = ${id} AND t.deleted_at = ${category.deletedAt}::timestamp`,
+          (ids) => tx`UPDATE tasks SET deleted_at = NULL WHERE id IN ${tx(ids)}`
+        );
+        await changeTasks(
+          tx,
+          'update',
+          tx`t.previous_category_id = ${id}`,
+          (ids) => tx`UPDATE tasks SET category_id = ${id}, previous_category_id = NULL WHERE id IN ${tx(ids)}`
+        );
+        return true;
+      });
+    },
+
+    async purgeTask(ownerId, id) {
+      const purged: number[] = await client.begin((tx) =>
+        changeTasks(tx, 'purge', trashedTask(tx, ownerId, id), (ids) => tx`DELETE FROM tasks WHERE id IN ${tx(ids)}`)
+      );
+      return purged.length > 0;
+    },
+
+    async purgeCategory(ownerId, id) {
+      const purged: number = await client.begin((tx) =>
+        purgeCategories(tx, tx`id = ${id} AND owner_id = ${ownerId} AND deleted_at IS NOT NULL`)
+      );
+      return purged > 0;
+    },
+
+    async emptyTrash(ownerId) {
+      await client.begin(async (tx) => {
+        await changeTasks(
+          tx,
+          'purge',
+          tx`t.owner_id = ${ownerId} AND t.deleted_at IS NOT NULL`,
+          (ids) => tx`DELETE FROM tasks WHERE id IN ${tx(ids)}`
+        );
+        await purgeCategories(tx, tx`owner_id = ${ownerId} AND deleted_at IS NOT NULL`);
+      });
+    },
+
+    async purgeExpiredTrash() {
+      await purgeExpiredTrash(client);
+    },
+
+    async applyImport(ownerId, plan) {
+      return client.begin(async (tx) => {
+        for (const name of plan.newCategories) {
+          const [row] = await tx`INSERT INTO categories (name, owner_id) VALUES (${name}, ${ownerId}) RETURNING id`;
+          await logActivity(tx, [
+            { userId: ownerId, entity: 'category', entityId: row.id, action: 'create', after: { name } },
+          ]);
+        }
+
+        const ownCategories = await tx`SELECT id, name FROM categories
+          WHERE owner_id = ${ownerId} AND deleted_at IS NULL`;
+        const categoryIds = new Map<string, number>(
+          ownCategories.map((category: Category) => [category.name, category.id])
+        );
+        const categoryId = (name: string | null) => (name === null ? null : (categoryIds.get(name) ?? null));
+
+        for (const { title, categoryName, done, dueAt, priority } of plan.createTasks) {
+          const [row] = await tx`INSERT INTO tasks (owner_id, title, category_id, done, due_at, priority)
+            VALUES (${ownerId}, ${title}, ${categoryId(categoryName)}, ${done}, ${dueAt}, ${priority})
+            RETURNING id`;
+          await logCreatedTask(tx, row.id);
+        }
+        for (const { id, done, dueAt, priority } of plan.updateTasks) {
+          await changeTasks(
+            tx,
+            'update',
+            liveTask(tx, ownerId, id),
+            (ids) =>
+              tx`UPDATE tasks SET done = ${done}, due_at = ${dueAt}, priority = ${priority} WHERE id IN ${tx(ids)}`
+          );
+        }
+
+        return {
+          categories: plan.newCategories.length,
+          created: plan.createTasks.length,
+          updated: plan.updateTasks.length,
+        };
+      });
+    },
+
+    async fetchActivity(ownerId, query, perPage) {
+      const rows = await client`SELECT ${activityColumns(client)}
+        FROM activity a JOIN users u ON u.id = a.user_id
+        WHERE ${activityConditions(client, ownerId, query)}
+        ORDER BY a.created_at DESC, a.id DESC
+        LIMIT ${perPage} OFFSET ${(query.page - 1) * perPage}`;
+      return rows as ActivityEntry[];
+    },
+
+    async countActivity(ownerId, query) {
+      const [row] = await client`SELECT count(*)::int AS value FROM activity a
+        WHERE ${activityConditions(client, ownerId, query)}`;
+      return row.value;
+    },
+
+    async fetchTaskHistory(ownerId, taskId) {
+      const rows = await client`SELECT ${activityColumns(client)}
+        FROM activity a JOIN users u ON u.id = a.user_id
+        WHERE a.user_id = ${ownerId} AND a.entity = 'task' AND a.entity_id = ${taskId}
+        ORDER BY a.created_at DESC, a.id DESC`;
+      return rows as ActivityEntry[];
+    },
+
+    async fetchActivitySince(ownerId, afterId, limit) {
+      const rows = await client`SELECT id, entity, entity_id AS "entityId", action FROM activity
+        WHERE user_id = ${ownerId} AND id > ${afterId} ORDER BY id ASC LIMIT ${limit}`;
+      return [...rows];
+    },
+
+    async latestActivityId(ownerId) {
+      const [row] = await client`SELECT coalesce(max(id), 0)::int AS value FROM activity WHERE user_id = ${ownerId}`;
+      return row.value;
+    },
+
+    async createFeedToken(ownerId) {
+      const token = generateToken();
+      await client`UPDATE users SET feed_token_hash = ${hashToken(token)} WHERE id = ${ownerId}`;
+      return token;
+    },
+
+    async revokeFeedToken(ownerId) {
+      await client`UPDATE users SET feed_token_hash = NULL WHERE id = ${ownerId}`;
+    },
+
+    async hasFeedToken(ownerId) {
+      const [row] = await client`SELECT id FROM users WHERE id = ${ownerId} AND feed_token_hash IS NOT NULL`;
+      return row !== undefined;
+    },
+
+    async feedTokenOwner(token) {
+      const [row] = await client`SELECT id FROM users WHERE feed_token_hash = ${hashToken(token)}`;
+      return row?.id ?? null;
+    },
+
+    async ping() {
+      await client`SELECT 1`;
+    },
+
+    async close() {
+      await client.close();
+    },
+  };
+}
@@ -0,0 +1,97 @@
+import {
+  fetchTasks,
+  countTasks,
+  fetchTaskTree,
+  countTaskTrees,
+  fetchCalendarTasks,
+  fetchTask,
+  fetchNestedTask,
+  countSubtasks,
+  fetchCategories,
+  fetchCategory,
+  countCategoryTasks,
+  fetchTags,
+  fetchTag,
+  createTask,
+  updateTask,
+  toggleTask,
+  moveTask,
+  bulkUpdateTasks,
+  trashTask,
+  createCategory,
+  updateCategory,
+  mergeCategory,
+  trashCategory,
+  renameTag,
+  deleteTag,
+  fetchTrash,
+  restoreTask,
+  restoreCategory,
+  purgeTask,
+  purgeCategory,
+  emptyTrash,
+  purgeExpiredTrash,
+  applyImport,
+  fetchActivity,
+  countActivity,
+  fetchTaskHistory,
+  fetchActivitySince,
+  latestActivityId,
+  pingDatabase,
+  pool,
+} from '../db';
+import { createFeedToken, revokeFeedToken, hasFeedToken, feedTokenUser } from '../auth';
+import type { Repository } from './repository';
+
+/**
+ * Stores tasks and categories in Postgres through Drizzle, with the queries of `db.ts` and the
+ * feed token functions of `auth.ts`.
+ */
+export function createDrizzleRepository(): Repository {
+  return {
+    fetchTasks,
+    countTasks,
+    fetchTaskTree,
+    countTaskTrees,
+    fetchCalendarTasks,
+    fetchTask,
+    fetchNestedTask,
+    countSubtasks,
+    fetchCategories,
+    fetchCategory,
+    countCategoryTasks,
+    fetchTags,
+    fetchTag,
+    createTask,
+    updateTask,
+    toggleTask,
+    moveTask,
+    bulkUpdateTasks,
+    trashTask,
+    createCategory,
+    updateCategory,
+    mergeCategory,
+    trashCategory,
+    renameTag,
+    deleteTag,
+    fetchTrash,
+    restoreTask,
+    restoreCategory,
+    purgeTask,
+    purgeCategory,
+    emptyTrash,
+    purgeExpiredTrash,
+    applyImport,
+    fetchActivity,
+    countActivity,
+    fetchTaskHistory,
+    fetchActivitySince,
+    latestActivityId,
+    createFeedToken,
+    revokeFeedToken,
+    hasFeedToken,
+    feedTokenOwner: async (token) => (await feedTokenUser(token))?.id ?? null,
+    ping: pingDatabase,
+    close: () => pool.end(),
+  };
+}
@@ -0,0 +1,966 @@
+import type { Task, NestedTask, Category, Tag, TaskTag, TaskPriority, ActivityEntry } from '../db';
+import type { ActivityEntity, ActivityAction, ActivityQuery } from '../activity-query';
+import { defaultTaskQuery } from '../task-query';
+import type { TaskQuery } from '../task-query';
+import { nextOccurrence } from '../recurrence';
+import type { Recurrence } from '../recurrence';
+import { config } from '../config';
+import { generateToken, hashToken } from '../tokens';
+import { fixtures } from '../fixtures';
+import type { Dataset } from '../fixtures';
+import type { NewTask, Repository } from './repository';
+
+interface StoredTask {
+  id: number;
+  ownerId: number;
+  title: string;
+  done: boolean;
+  createdAt: string;
+  dueAt: string | null;
+  priority: TaskPriority;
+  categoryId: number | null;
+  previousCategoryId: number | null;
+  parentId: number | null;
+  completeWithSubtasks: boolean;
+  recurrence: Recurrence | null;
+  position: number;
+  tagIds: number[];
+  deletedAt: string | null;
+  // The move to the trash that took the task there, standing in for the deleted_at that all rows
+  // trashed in one transaction share in the database
+  trashId: number | null;
+}
+
+interface StoredCategory {
+  id: number;
+  ownerId: number;
+  name: string;
+  deletedAt: string | null;
+  trashId: number | null;
+}
+
+interface StoredTag {
+  id: number;
+  ownerId: number;
+  name: string;
+}
+
+interface ActivityRecord {
+  id: number;
+  userId: number;
+  entity: ActivityEntity;
+  entityId: number;
+  action: ActivityAction;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  createdAt: string;
+}
+
+const priorityOrder: TaskPriority[] = ['low', 'normal', 'high', 'urgent'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Same format as Postgres timestamps in Drizzle's `string` mode; the memory repository keeps them in UTC
+function timestamp(date: Date): string {
+  return date.toISOString().slice(0, 19).replace('T', ' ');
+}
+
+function compareText(a: string, b: string): number {
+  return a.localeCompare(b);
+}
+
+// Shaped like the errors of the constraints in the database, which the routes recognise
+function constraintError(code: string, constraint: string, message: string): Error {
+  return Object.assign(new Error(message), { code, constraint });
+}
+
+/**
+ * Keeps tasks and categories in memory, for running the routes with `app.request()` without a
+ * database. It starts with the given dataset, owned by the user `ownerId`, and follows the same
+ * rules as the database: rows of other users are out of reach, deleting moves to the trash and
+ * every change goes into the activity log.
+ *
+ * @param options.now - The clock for creation times, due date filters and trash times.
+ * @param options.userEmail - The email address shown for a user in the activity log, as there are no accounts.
+ */
+export function createMemoryRepository(
+  dataset: Dataset = fixtures.empty(),
+  options: { ownerId?: number; now?: () => Date; userEmail?: (userId: number) => string } = {}
+): Repository {
+  const ownerId = options.ownerId ?? 1;
+  const clock = options.now ?? (() => new Date());
+  const userEmail = options.userEmail ?? ((userId: number) => `user${userId}@example.com`);
+  const categories: StoredCategory[] = dataset.categories.map((category) => ({
+    ...category,
+    ownerId,
+    deletedAt: null,
+    trashId: null,
+  }));
+  const tasks: StoredTask[] = dataset.tasks.map((task, index) => ({
+    ...task,
+    ownerId,
+    previousCategoryId: null,
+    parentId: null,
+    completeWithSubtasks: false,
+    recurrence: null,
+    position: index + 1,
+    tagIds: [],
+    deletedAt: null,
+    trashId: null,
+  }));
+  const tags: StoredTag[] = [];
+  const activity: ActivityRecord[] = [];
+  // Hashes of the calendar feed tokens by user id
+  const feedTokens = new Map<number, string>();
+  const ids = {
+    category: Math.max(0, ...categories.map((category) => category.id)),
+    task: Math.max(0, ...tasks.map((task) => task.id)),
+    tag: 0,
+    position: tasks.length,
+    activity: 0,
+    trash: 0,
+  };
+  const nextId = (sequence: keyof typeof ids) => ++ids[sequence];
+
+  const now = () => timestamp(clock());
+  // The fields of the rows that one move to the trash takes there
+  const trashed = () => ({ deletedAt: now(), trashId: nextId('trash') });
+  const restored = { deletedAt: null, trashId: null };
+  const liveTask = (owner: number, id: number) =>
+    tasks.find((task) => task.id === id && task.ownerId === owner && task.deletedAt === null);
+  const trashedTask = (owner: number, id: number) =>
+    tasks.find((task) => task.id === id && task.ownerId === owner && task.deletedAt !== null);
+  const liveCategory = (owner: number, id: number) =>
+    categories.find((category) => category.id === id && category.ownerId === owner && category.deletedAt === null);
+  const trashedCategory = (owner: number, id: number) =>
+    categories.find((category) => category.id === id && category.ownerId === owner && category.deletedAt !== null);
+  const liveChildren = (task: StoredTask) =>
+    tasks.filter((child) => child.parentId === task.id && child.deletedAt === null);
+  const parentOf = (task: StoredTask) =>
+    task.parentId === null
+      ? undefined
+      : tasks.find((parent) => parent.id === task.parentId && parent.deletedAt === null);
+  const categoryName = (task: StoredTask) =>
+    categories.find((category) => category.id === task.categoryId)?.name ?? null;
+  const taskTags = (task: StoredTask): TaskTag[] =>
+    tags
+      .filter((tag) => task.tagIds.includes(tag.id))
+      .map(({ id, name }) => ({ id, name }))
+      .sort((a, b) => compareText(a.name.toLowerCase(), b.name.toLowerCase()));
+
+  const overdue = (task: StoredTask) => task.dueAt !== null && task.dueAt < now() && !task.done;
+
+  function toTask(task: StoredTask): Task {
+    const children = liveChildren(task);
+    return {
+      id: task.id,
+      title: task.title,
+      done: task.done,
+      createdAt: task.createdAt,
+      dueAt: task.dueAt,
+      priority: task.priority,
+      overdue: overdue(task),
+      categoryId: task.categoryId,
+      categoryName: categoryName(task),
+      parentId: task.parentId,
+      completeWithSubtasks: task.completeWithSubtasks,
+      subtaskCount: children.length,
+      subtasksDone: children.filter((child) => child.done).length,
+      tags: taskTags(task),
+      recurrence: task.recurrence,
+    };
+  }
+
+  // The same filters as taskConditions() in db.ts
+  function matches(task: StoredTask, owner: number, query: TaskQuery): boolean {
+    if (task.ownerId !== owner || task.deletedAt !== null) return false;
+    if (query.search && !task.title.toLowerCase().includes(query.search.toLowerCase())) return false;
+    if (
+      query.categoryId === 'none'
+        ? task.categoryId !== null
+        : query.categoryId !== null && task.categoryId !== query.categoryId
+    ) {
+      return false;
+    }
+    if (query.tagId !== null && !task.tagIds.includes(query.tagId)) return false;
+    if (query.status === 'done' && !task.done) return false;
+    if (query.status === 'open' && task.done) return false;
+    if (query.due === 'overdue') return overdue(task);
+    if (query.due === 'today' || query.due === 'week') {
+      const start = clock();
+      start.setUTCHours(0, 0, 0, 0);
+      if (query.due === 'week') {
+        // Weeks start on Monday, like date_trunc('week', ...)
+        start.setTime(start.getTime() - ((start.getUTCDay() + 6) % 7) * DAY);
+      }
+      const end = new Date(start.getTime() + (query.due === 'week' ? 7 : 1) * DAY);
+      return task.dueAt !== null && task.dueAt >= timestamp(start) && task.dueAt < timestamp(end);
+    }
+    return true;
+  }
+
+  // The top-level tasks matching a query, and all tasks to show: the matches with their ancestors
+  function visibleTasks(owner: number, query: TaskQuery): { roots: StoredTask[]; visible: Set<number> } {
+    const visible = new Set<number>();
+    for (const task of tasks.filter((task) => matches(task, owner, query))) {
+      for (let current: StoredTask | undefined = task; current; current = parentOf(current)) {
+        visible.add(current.id);
+      }
+    }
+    const roots = tasks.filter((task) => visible.has(task.id) && !parentOf(task));
+    return { roots, visible };
+  }
+
+  // The same order as sortColumns in db.ts, with the id to break ties
+  function compareTasks(query: TaskQuery): (a: StoredTask, b: StoredTask) => number {
+    const sign = query.dir === 'asc' || query.sort === 'position' ? 1 : -1;
+    const nullsLast = (a: unknown, b: unknown) => (a === null ? 1 : 0) - (b === null ? 1 : 0);
+    const compare: Record<TaskQuery['sort'], (a: StoredTask, b: StoredTask) => number> = {
+      created: (a, b) => sign * compareText(a.createdAt, b.createdAt),
+      title: (a, b) => sign * compareText(a.title, b.title),
+      status: (a, b) => sign * (Number(a.done) - Number(b.done)),
+      // Postgres puts nulls last in ascending order and first in descending order
+      category: (a, b) =>
+        sign *
+        (nullsLast(categoryName(a), categoryName(b)) || compareText(categoryName(a) ?? '', categoryName(b) ?? '')),
+      due: (a, b) => nullsLast(a.dueAt, b.dueAt) || sign * compareText(a.dueAt ?? '', b.dueAt ?? ''),
+      priority: (a, b) => sign * (priorityOrder.indexOf(a.priority) - priorityOrder.indexOf(b.priority)),
+      position: (a, b) =>
+        nullsLast(categoryName(a), categoryName(b)) ||
+        compareText(categoryName(a) ?? '', categoryName(b) ?? '') ||
+        a.position - b.position,
+    };
+    return (a, b) => compare[query.sort](a, b) || sign * (a.id - b.id);
+  }
+
+  // Task fields recorded in the activity log, like snapshotTasks() in db.ts
+  function snapshot(task: StoredTask): Record<string, unknown> {
+    return {
+      title: task.title,
+      done: task.done,
+      category: categoryName(task),
+      dueAt: task.dueAt,
+      priority: task.priority,
+      parentId: task.parentId,
+      tags: taskTags(task).map((tag) => tag.name),
+      recurrence: task.recurrence,
+    };
+  }
+
+  function log(
+    record: Omit<ActivityRecord, 'id' | 'before' | 'after' | 'createdAt'> &
+      Partial<Pick<ActivityRecord, 'before' | 'after'>>
+  ): void {
+    activity.push({ before: null, after: null, ...record, id: nextId('activity'), createdAt: now() });
+  }
+
+  // Applies `change` to the tasks and logs an entry per task, leaving out updates that change nothing
+  function changeTasks(action: ActivityAction, targets: StoredTask[], change: (task: StoredTask) => void): number[] {
+    for (const task of targets) {
+      const before = snapshot(task);
+      change(task);
+      const after = snapshot(task);
+      if (action === 'update' && JSON.stringify(before) === JSON.stringify(after)) continue;
+      log({
+        userId: task.ownerId,
+        entity: 'task',
+        entityId: task.id,
+        action,
+        before: action === 'restore' ? null : before,
+        after: action === 'trash' || action === 'purge' ? null : after,
+      });
+    }
+    return targets.map((task) => task.id);
+  }
+
+  function setTaskTags(task: StoredTask, names: string[]): void {
+    const tagIds = names.map((name) => {
+      const existing = tags.find(
+        (tag) => tag.ownerId === task.ownerId && tag.name.toLowerCase() === name.toLowerCase()
+      );
+      if (existing) return existing.id;
+      const tag = { id: nextId('tag'), ownerId: task.ownerId, name };
+      tags.push(tag);
+      return tag.id;
+    });
+    task.tagIds = [...new Set(tagIds)];
+  }
+
+  function insertTask(owner: number, values: NewTask & { done?: boolean }, tagIds: number[] = []): StoredTask {
+    const task: StoredTask = {
+      id: nextId('task'),
+      ownerId: owner,
+      title: values.title,
+      done: values.done ?? false,
+      createdAt: now(),
+      dueAt: values.dueAt ?? null,
+      priority: values.priority ?? 'normal',
+      categoryId: values.categoryId,
+      previousCategoryId: null,
+      parentId: values.parentId ?? null,
+      completeWithSubtasks: false,
+      recurrence: values.recurrence ?? null,
+      position: nextId('position'),
+      tagIds,
+      deletedAt: null,
+      trashId: null,
+    };
+    tasks.push(task);
+    if (values.tags) setTaskTags(task, values.tags);
+    log({ userId: owner, entity: 'task', entityId: task.id, action: 'create', after: snapshot(task) });
+    return task;
+  }
+
+  // Completing a recurring task hands its rule over to a new occurrence, like createNextOccurrences() in db.ts
+  function createNextOccurrences(ids: number[]): void {
+    for (const previous of tasks.filter((task) => ids.includes(task.id) && task.done && task.recurrence)) {
+      const rule = previous.recurrence!;
+      insertTask(
+        previous.ownerId,
+        {
+          title: previous.title,
+          categoryId: previous.categoryId,
+          priority: previous.priority,
+          parentId: previous.parentId,
+          dueAt: nextOccurrence(rule, previous.dueAt, now()),
+          recurrence: rule,
+        },
+        [...previous.tagIds]
+      );
+      changeTasks('update', [previous], (task) => (task.recurrence = null));
+    }
+  }
+
+  function completeParents(ids: number[]): void {
+    while (ids.length > 0) {
+      const parents = tasks.filter(
+        (parent) =>
+          parent.deletedAt === null &&
+          parent.completeWithSubtasks &&
+          !parent.done &&
+          tasks.some((child) => ids.includes(child.id) && child.parentId === parent.id) &&
+          liveChildren(parent).every((child) => child.done)
+      );
+      ids = changeTasks('toggle', parents, (task) => (task.done = true));
+    }
+  }
+
+  // A task and the subtasks below it that are in the same place: outside the trash, or trashed with it
+  function subtree(task: StoredTask): StoredTask[] {
+    return [
+      task,
+      ...tasks.filter((child) => child.parentId === task.id && child.trashId === task.trashId).flatMap(subtree),
+    ];
+  }
+
+  // Deleting a task leaves its subtasks without a parent, like the foreign key in the database
+  function deleteTask(task: StoredTask): void {
+    tasks.splice(tasks.indexOf(task), 1);
+    tasks.filter((child) => child.parentId === task.id).forEach((child) => (child.parentId = null));
+  }
+
+  // Deletes the categories for good and logs each of them, like purgeCategories() in db.ts
+  function purgeCategories(targets: StoredCategory[]): number {
+    for (const category of targets) {
+      categories.splice(categories.indexOf(category), 1);
+      for (const task of tasks) {
+        if (task.categoryId === category.id) task.categoryId = null;
+        if (task.previousCategoryId === category.id) task.previousCategoryId = null;
+      }
+      log({
+        userId: category.ownerId,
+        entity: 'category',
+        entityId: category.id,
+        action: 'purge',
+        before: { name: category.name },
+      });
+    }
+    return targets.length;
+  }
+
+  function purgeExpiredTrash(): void {
+    const cutoff = timestamp(new Date(clock().getTime() - config.trashRetentionDays * DAY));
+    changeTasks(
+      'purge',
+      tasks.filter((task) => task.deletedAt !== null && task.deletedAt < cutoff),
+      deleteTask
+    );
+    purgeCategories(categories.filter((category) => category.deletedAt !== null && category.deletedAt < cutoff));
+  }
+
+  // Like the unique index on the names of the categories outside the trash
+  function checkCategoryName(owner: number, name: string, id?: number): void {
+    if (
+      categories.some(
+        (category) =>
+          category.ownerId === owner && category.name === name && category.deletedAt === null && category.id !== id
+      )
+    ) {
+      throw constraintError(
+        '23505',
+        'categories_name_key',
+        'duplicate key value violates unique constraint "categories_name_key"'
+      );
+    }
+  }
+
+  function toActivityEntry({ userId, ...entry }: ActivityRecord): ActivityEntry {
+    return { ...entry, userEmail: userEmail(userId) };
+  }
+
+  // The same filters as activityConditions() in db.ts; `to` includes the whole day
+  function activityMatches(record: ActivityRecord, owner: number, query: ActivityQuery): boolean {
+    const dayAfter = (date: string) => timestamp(new Date(Date.parse(`${date}T00:00:00Z`) + DAY));
+    return (
+      record.userId === owner &&
+      (!query.entity || record.entity === query.entity) &&
+      (!query.action || record.action === query.action) &&
+      (!query.from || record.createdAt >= query.from) &&
+      (!query.to || record.createdAt < dayAfter(query.to))
+    );
+  }
+
+  const newestFirst = (a: ActivityRecord, b: ActivityRecord) => compareText(b.createdAt, a.createdAt) || b.id - a.id;
+
+  return {
+    async fetchTasks(owner, query = defaultTaskQuery, perPage) {
+      const matching = tasks.filter((task) => matches(task, owner, query)).sort(compareTasks(query));
+      const page = perPage ? matching.slice((query.page - 1) * perPage, query.page * perPage) : matching;
+      return page.map(toTask);
+    },
+
+    async countTasks(owner, query = defaultTaskQuery) {
+      return tasks.filter((task) => matches(task, owner, query)).length;
+    },
+
+    async fetchTaskTree(owner, query = defaultTaskQuery, perPage) {
+      const { roots, visible } = visibleTasks(owner, query);
+      roots.sort(compareTasks(query));
+      const page = perPage ? roots.slice((query.page - 1) * perPage, query.page * perPage) : roots;
+      const childOrder = (a: StoredTask, b: StoredTask) =>
+        (query.sort === 'position' ? a.position - b.position : 0) || a.id - b.id;
+
+      const result: NestedTask[] = [];
+      const visit = (task: StoredTask, depth: number) => {
+        result.push({ ...toTask(task), depth });
+        liveChildren(task)
+          .filter((child) => visible.has(child.id))
+          .sort(childOrder)
+          .forEach((child) => visit(child, depth + 1));
+      };
+      page.forEach((task) => visit(task, 0));
+      return result;
+    },
+
+    async countTaskTrees(owner, query = defaultTaskQuery) {
+      return visibleTasks(owner, query).roots.length;
+    },
+
+    async fetchCalendarTasks(owner, categoryId) {
+      return tasks
+        .filter((task) => matches(task, owner, { ...defaultTaskQuery, categoryId }))
+        .sort((a, b) => a.id - b.id)
+        .map((task) => ({
+          ...toTask(task),
+          createdAtUtc: `${task.createdAt.replace(/[-:]/g, '').replace(' ', 'T')}Z`,
+        }));
+    },
+
+    async fetchTask(owner, id) {
+      const task = liveTask(owner, id);
+      return task && toTask(task);
+    },
+
+    async fetchNestedTask(owner, id) {
+      const task = liveTask(owner, id);
+      if (!task) return undefined;
+      let depth = 0;
+      for (let parent = parentOf(task); parent; parent = parentOf(parent)) depth++;
+      return { ...toTask(task), depth };
+    },
+
+    async countSubtasks(owner, id) {
+      const task = liveTask(owner, id);
+      return task ? subtree(task).length - 1 : 0;
+    },
+
+    async fetchCategories(owner) {
+      return categories
+        .filter((category) => category.ownerId === owner && category.deletedAt === null)
+        .sort((a, b) => compareText(a.name, b.name))
+        .map(({ id, name }) => ({ id, name }));
+    },
+
+    async fetchCategory(owner, id): Promise<Category | undefined> {
+      const category = liveCategory(owner, id);
+      return category && { id: category.id, name: category.name };
+    },
+
+    async countCategoryTasks(owner, id) {
+      return tasks.filter((task) => task.categoryId === id && task.ownerId === owner && task.deletedAt === null).length;
+    },
+
+    async fetchTags(owner): Promise<Tag[]> {
+      return tags
+        .filter((tag) => tag.ownerId === owner)
+        .sort((a, b) => compareText(a.name.toLowerCase(), b.name.toLowerCase()))
+        .map(({ id, name }) => ({
+          id,
+          name,
+          taskCount: tasks.filter((task) => task.tagIds.includes(id) && task.deletedAt === null).length,
+        }));
+    },
+
+    async fetchTag(owner, id) {
+      const tag = tags.find((tag) => tag.id === id && tag.ownerId === owner);
+      return tag && { id: tag.id, name: tag.name };
+    },
+
+    async createTask(owner, values) {
+      return insertTask(owner, values).id;
+    },
+
+    async updateTask(owner, id, values) {
+      const task = liveTask(owner, id);
+      if (!task) return false;
+      const { tags: tagNames, ...columns } = values;
+      // Like the trigger in the database, which follows the parents in the trash as well
+      for (let parentId = columns.parentId ?? null; parentId !== null;) {
+        if (parentId === id) {
+          throw constraintError('23514', 'tasks_parent_id_cycle', 'a task cannot be a subtask of itself');
+        }
+        parentId = tasks.find((parent) => parent.id === parentId)?.parentId ?? null;
+      }
+
+      const changed = changeTasks('update', [task], (task) => {
+        if (columns.categoryId !== undefined) {
+          // A category the task was not in before puts it last in the manual order
+          if (columns.categoryId !== task.categoryId) task.position = nextId('position');
+          task.previousCategoryId = null;
+        }
+        for (const [key, value] of Object.entries(columns)) {
+          if (value !== undefined) Object.assign(task, { [key]: value });
+        }
+        if (tagNames) setTaskTags(task, tagNames);
+      });
+      createNextOccurrences(changed);
+      completeParents(changed);
+      return true;
+    },
+
+    async toggleTask(owner, id) {
+      const task = liveTask(owner, id);
+      if (!task) return false;
+      const changed = changeTasks('toggle', [task], (task) => (task.done = !task.done));
+      createNextOccurrences(changed);
+      completeParents(changed);
+      return true;
+    },
+
+    async moveTask(owner, id, move) {
+      const task = liveTask(owner, id);
+      if (!task) return false;
+      // The tasks that the task is ordered among when it is in the given category, in their order
+      const siblings = (categoryId: number | null) =>
+        tasks
+          .filter(
+            (sibling) =>
+              sibling.ownerId === owner &&
+              sibling.deletedAt === null &&
+              sibling.id !== id &&
+              (task.parentId === null
+                ? sibling.parentId === null && sibling.categoryId === categoryId
+                : sibling.parentId === task.parentId)
+          )
+          .sort((a, b) => a.position - b.position || a.id - b.id);
+
+      let beforeId: number | null = null;
+      let categoryId = task.categoryId;
+      if ('beforeId' in move) {
+        beforeId = move.beforeId;
+      } else if ('categoryId' in move) {
+        categoryId = move.categoryId;
+      } else if (move.direction === 'up') {
+        // In front of the previous sibling; the first task stays where it is
+        const previous = siblings(categoryId)
+          .filter((sibling) => sibling.position < task.position)
+          .at(-1);
+        if (!previous) return true;
+        beforeId = previous.id;
+      } else {
+        // In front of the sibling after the next one, or last; the last task stays where it is
+        const [next, afterNext] = siblings(categoryId).filter((sibling) => sibling.position > task.position);
+        if (!next) return true;
+        beforeId = afterNext?.id ?? null;
+      }
+
+      let position: number;
+      if (beforeId === null) {
+        position = nextId('position');
+      } else {
+        const before = liveTask(owner, beforeId);
+        if (!before || before.id === id || before.parentId !== task.parentId) {
+          return false;
+        }
+        if (task.parentId === null) {
+          categoryId = before.categoryId;
+        }
+        // Between the task to move in front of and the one in front of it, spreading the ranks out
+        // again when there is no number in between
+        const rankBefore = () => {
+          const previous = siblings(categoryId)
+            .filter((sibling) => sibling.position < before.position)
+            .at(-1);
+          return previous ? (previous.position + before.position) / 2 : before.position - 1;
+        };
+        position = rankBefore();
+        if (siblings(categoryId).some((sibling) => sibling.position === position)) {
+          siblings(categoryId).forEach((sibling, index) => (sibling.position = index + 1));
+          position = rankBefore();
+        }
+      }
+
+      changeTasks('move', [task], (task) => {
+        if (categoryId !== task.categoryId) task.previousCategoryId = null;
+        task.categoryId = categoryId;
+        task.position = position;
+      });
+      return true;
+    },
+
+    async bulkUpdateTasks(owner, selection, change) {
+      if ('ids' in selection && selection.ids.length === 0) return 0;
+      if (change.action === 'delete') purgeExpiredTrash();
+      const selected = tasks.filter((task) =>
+        'ids' in selection
+          ? task.ownerId === owner && task.deletedAt === null && selection.ids.includes(task.id)
+          : matches(task, owner, selection.query)
+      );
+
+      switch (change.action) {
+        case 'done':
+        case 'open': {
+          const done = change.action === 'done';
+          const ids = changeTasks(
+            'toggle',
+            selected.filter((task) => task.done !== done),
+            (task) => (task.done = done)
+          );
+          createNextOccurrences(ids);
+          completeParents(ids);
+          return ids.length;
+        }
+        case 'move':
+          return changeTasks(
+            'update',
+            selected.filter((task) => task.categoryId !== change.categoryId),
+            (task) => {
+              task.categoryId = change.categoryId;
+              task.previousCategoryId = null;
+              task.position = nextId('position');
+            }
+          ).length;
+        case 'delete': {
+          const targets = new Set(selected.flatMap(subtree));
+          const stamp = trashed();
+          return changeTasks(
+            'trash',
+            tasks.filter((task) => targets.has(task)),
+            (task) => Object.assign(task, stamp)
+          ).length;
+        }
+      }
+    },
+
+    async trashTask(owner, id, subtasks = 'promote') {
+      purgeExpiredTrash();
+      const task = liveTask(owner, id);
+      if (!task) return false;
+      if (subtasks === 'promote') {
+        changeTasks('update', liveChildren(task), (child) => (child.parentId = task.parentId));
+      }
+      const stamp = trashed();
+      changeTasks('trash', subtree(task), (task) => Object.assign(task, stamp));
+      return true;
+    },
+
+    async createCategory(owner, name) {
+      checkCategoryName(owner, name);
+      const category = { id: nextId('category'), ownerId: owner, name, ...restored };
+      categories.push(category);
+      log({ userId: owner, entity: 'category', entityId: category.id, action: 'create', after: { name } });
+      return category.id;
+    },
+
+    async updateCategory(owner, id, name) {
+      const category = liveCategory(owner, id);
+      if (!category) return false;
+      checkCategoryName(owner, name, id);
+      if (category.name !== name) {
+        log({
+          userId: owner,
+          entity: 'category',
+          entityId: id,
+          action: 'rename',
+          before: { name: category.name },
+          after: { name },
+        });
+        category.name = name;
+      }
+      return true;
+    },
+
+    async mergeCategory(owner, sourceId, targetId) {
+      const source = liveCategory(owner, sourceId);
+      if (!source) return null;
+      const moved = changeTasks(
+        'update',
+        tasks.filter((task) => task.categoryId === sourceId && task.ownerId === owner && task.deletedAt === null),
+        (task) => (task.categoryId = targetId)
+      );
+      // Tasks in the trash follow silently; their history starts again when they are restored
+      tasks.filter((task) => task.categoryId === sourceId).forEach((task) => (task.categoryId = targetId));
+      categories.splice(categories.indexOf(source), 1);
+      tasks.filter((task) => task.previousCategoryId === sourceId).forEach((task) => (task.previousCategoryId = null));
+
+      const target = categories.find((category) => category.id === targetId);
+      log({
+        userId: owner,
+        entity: 'category',
+        entityId: sourceId,
+        action: 'merge',
+        before: { name: source.name },
+        after: { mergedInto: target?.name ?? null, tasks: moved.length },
+      });
+      return moved.length;
+    },
+
+    async trashCategory(owner, id, action = 'uncategorise', targetId) {
+      purgeExpiredTrash();
+      const category = liveCategory(owner, id);
+      if (!category) return false;
+      const stamp = trashed();
+      const categoryTasks = tasks.filter(
+        (task) => task.categoryId === id && task.ownerId === owner && task.deletedAt === null
+      );
+      if (action === 'delete') {
+        changeTasks('trash', categoryTasks, (task) => Object.assign(task, stamp));
+      } else {
+        changeTasks('update', categoryTasks, (task) => {
+          task.categoryId = action === 'reassign' ? (targetId ?? null) : null;
+          task.previousCategoryId = id;
+        });
+      }
+      Object.assign(category, stamp);
+      log({ userId: owner, entity: 'category', entityId: id, action: 'trash', before: { name: category.name } });
+      return true;
+    },
+
+    async renameTag(owner, id, name) {
+      const tag = tags.find((tag) => tag.id === id && tag.ownerId === owner);
+      if (!tag) return false;
+      if (
+        tags.some(
+          (other) => other.ownerId === owner && other.id !== id && other.name.toLowerCase() === name.toLowerCase()
+        )
+      ) {
+        throw constraintError(
+          '23505',
+          'tags_name_key',
+          'duplicate key value violates unique constraint "tags_name_key"'
+        );
+      }
+      tag.name = name;
+      return true;
+    },
+
+    async deleteTag(owner, id) {
+      const tag = tags.find((tag) => tag.id === id && tag.ownerId === owner);
+      if (!tag) return false;
+      const untag = (task: StoredTask) => (task.tagIds = task.tagIds.filter((tagId) => tagId !== id));
+      changeTasks(
+        'update',
+        tasks.filter((task) => task.ownerId === owner && task.deletedAt === null && task.tagIds.includes(id)),
+        untag
+      );
+      // Removes the tag from the tasks in the trash as well
+      tasks.forEach(untag);
+      tags.splice(tags.indexOf(tag), 1);
+      return true;
+    },
+
+    async fetchTrash(owner) {
+      const recentFirst = (a: StoredTask | StoredCategory, b: StoredTask | StoredCategory) =>
+        compareText(b.deletedAt!, a.deletedAt!) || b.id - a.id;
+      return {
+        tasks: tasks
+          .filter((task) => task.ownerId === owner && task.deletedAt !== null)
+          .sort(recentFirst)
+          .map((task) => ({
+            id: task.id,
+            title: task.title,
+            categoryName: categoryName(task),
+            deletedAt: task.deletedAt!,
+          })),
+        categories: categories
+          .filter((category) => category.ownerId === owner && category.deletedAt !== null)
+          .sort(recentFirst)
+          .map((category) => ({
+            id: category.id,
+            name: category.name,
+            deletedAt: category.deletedAt!,
+            taskCount: tasks.filter(
+              (task) =>
+                task.previousCategoryId === category.id ||
+                (task.categoryId === category.id && task.trashId === category.trashId)
+            ).length,
+          })),
+      };
+    },
+
+    async restoreTask(owner, id) {
+      const task = trashedTask(owner, id);
+      if (!task) return false;
+      changeTasks('restore', subtree(task), (task) => {
+        // A task whose category is still in the trash returns to it when the category is restored
+        if (categories.some((category) => category.id === task.categoryId && category.deletedAt !== null)) {
+          task.previousCategoryId = task.categoryId;
+          task.categoryId = null;
+        }
+        Object.assign(task, restored);
+      });
+      return true;
+    },
+
+    async restoreCategory(owner, id) {
+      const category = trashedCategory(owner, id);
+      if (!category) return false;
+      checkCategoryName(owner, category.name, id);
+      const { trashId } = category;
+      Object.assign(category, restored);
+      log({ userId: owner, entity: 'category', entityId: id, action: 'restore', after: { name: category.name } });
+      changeTasks(
+        'restore',
+        tasks.filter((task) => task.categoryId === id && task.trashId === trashId),
+        (task) => Object.assign(task, restored)
+      );
+      changeTasks(
+        'update',
+        tasks.filter((task) => task.previousCategoryId === id),
+        (task) => {
+          task.categoryId = id;
+          task.previousCategoryId = null;
+        }
+      );
+      return true;
+    },
+
+    async purgeTask(owner, id) {
+      const task = trashedTask(owner, id);
+      if (!task) return false;
+      changeTasks('purge', [task], deleteTask);
+      return true;
+    },
+
+    async purgeCategory(owner, id) {
+      const category = trashedCategory(owner, id);
+      return category !== undefined && purgeCategories([category]) > 0;
+    },
+
+    async emptyTrash(owner) {
+      changeTasks(
+        'purge',
+        tasks.filter((task) => task.ownerId === owner && task.deletedAt !== null),
+        deleteTask
+      );
+      purgeCategories(categories.filter((category) => category.ownerId === owner && category.deletedAt !== null));
+    },
+
+    async purgeExpiredTrash() {
+      purgeExpiredTrash();
+    },
+
+    async applyImport(owner, plan) {
+      // Nothing is written if one of the names is taken, as the database rolls the transaction back
+      plan.newCategories.forEach((name) => checkCategoryName(owner, name));
+      for (const name of plan.newCategories) {
+        const category = { id: nextId('category'), ownerId: owner, name, ...restored };
+        categories.push(category);
+        log({ userId: owner, entity: 'category', entityId: category.id, action: 'create', after: { name } });
+      }
+
+      const categoryId = (name: string | null) =>
+        categories.find(
+          (category) => category.ownerId === owner && category.deletedAt === null && category.name === name
+        )?.id ?? null;
+      for (const { categoryName, ...task } of plan.createTasks) {
+        insertTask(owner, { ...task, categoryId: categoryId(categoryName) });
+      }
+      for (const { id, done, dueAt, priority } of plan.updateTasks) {
+        const task = liveTask(owner, id);
+        if (task) {
+          changeTasks('update', [task], (task) => Object.assign(task, { done, dueAt, priority }));
+        }
+      }
+
+      return {
+        categories: plan.newCategories.length,
+        created: plan.createTasks.length,
+        updated: plan.updateTasks.length,
+      };
+    },
+
+    async fetchActivity(owner, query, perPage) {
+      return activity
+        .filter((record) => activityMatches(record, owner, query))
+        .sort(newestFirst)
+        .slice((query.page - 1) * perPage, query.page * perPage)
+        .map(toActivityEntry);
+    },
+
+    async countActivity(owner, query) {
+      return activity.filter((record) => activityMatches(record, owner, query)).length;
+    },
+
+    async fetchTaskHistory(owner, taskId) {
+      return activity
+        .filter((record) => record.userId === owner && record.entity === 'task' && record.entityId === taskId)
+        .sort(newestFirst)
+        .map(toActivityEntry);
+    },
+
+    async fetchActivitySince(owner, afterId, limit) {
+      return activity
+        .filter((record) => record.userId === owner && record.id > afterId)
+        .slice(0, limit)
+        .map(({ id, entity, entityId, action }) => ({ id, entity, entityId, action }));
+    },
+
+    async latestActivityId(owner) {
+      return Math.max(0, ...activity.filter((entry) => entry.userId === owner).map((entry) => entry.id));
+    },
+
+    async createFeedToken(owner) {
+      const token = generateToken();
+      feedTokens.set(owner, hashToken(token));
+      return token;
+    },
+
+    async revokeFeedToken(owner) {
+      feedTokens.delete(owner);
+    },
+
+    async hasFeedToken(owner) {
+      return feedTokens.has(owner);
+    },
+
+    async feedTokenOwner(token) {
+      const hash = hashToken(token);
+      return [...feedTokens].find(([, stored]) => stored === hash)?.[0] ?? null;
+    },
+
+    async ping() {},
+
+    async close() {},
+  };
+}
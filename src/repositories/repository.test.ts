@@ -0,0 +1,434 @@
+import { describe, expect, test, beforeEach, afterAll } from 'bun:test';
+import { SQL } from 'bun';
+import { defaultTaskQuery } from '../task-query';
+import type { TaskQuery } from '../task-query';
+import { isUniqueViolation, isCheckViolation } from '../errors';
+import { parseActivityQuery } from '../activity-query';
+import { createMemoryRepository } from './memory';
+import { createDrizzleRepository } from './drizzle';
+import { createBunSqlRepository } from './bun-sql';
+import type { Repository } from './repository';
+
+// The same checks run against every repository. The Postgres ones need a migrated database in
+// TEST_DB_URL; each test signs up two new users there, who are deleted with their rows afterwards.
+const databaseUrl = process.env.TEST_DB_URL;
+
+interface Subject {
+  // A repository with two users: the owner of the rows a test creates, and another user
+  setup(): Promise<{ repo: Repository; owner: number; other: number }>;
+}
+
+function memorySubject(): Subject {
+  return {
+    async setup() {
+      return { repo: createMemoryRepository(), owner: 1, other: 2 };
+    },
+  };
+}
+
+function databaseSubject(repo: Repository): Subject {
+  const admin = new SQL(databaseUrl!);
+  const created: number[] = [];
+  afterAll(async () => {
+    if (created.length > 0) await admin`DELETE FROM users WHERE id IN ${admin(created)}`;
+    await admin.close();
+    await repo.close();
+  });
+  const signUp = async (): Promise<number> => {
+    const [user] = await admin`INSERT INTO users (email, password_hash)
+      VALUES (${`test-${crypto.randomUUID()}@example.com`}, 'x') RETURNING id`;
+    created.push(user.id);
+    return user.id;
+  };
+  return {
+    async setup() {
+      return { repo, owner: await signUp(), other: await signUp() };
+    },
+  };
+}
+
+const subjects: [string, () => Subject, boolean][] = [
+  ['memory', memorySubject, true],
+  ['drizzle', () => databaseSubject(createDrizzleRepository()), Boolean(databaseUrl)],
+  ['bun-sql', () => databaseSubject(createBunSqlRepository()), Boolean(databaseUrl)],
+];
+
+for (const [name, subject, enabled] of subjects) {
+  describe.skipIf(!enabled)(`${name} repository`, () => {
+    const { setup } = enabled ? subject() : memorySubject();
+    let r: Repository;
+    let owner: number;
+    let other: number;
+
+    beforeEach(async () => {
+      ({ repo: r, owner, other } = await setup());
+    });
+
+    const query = (fields: Partial<TaskQuery>): TaskQuery => ({ ...defaultTaskQuery, ...fields });
+    const titles = async (fields: Partial<TaskQuery> = {}, perPage?: number) =>
+      (await r.fetchTaskTree(owner, query(fields), perPage)).map((task) => task.title);
+
+    test('creates tasks with their category and tags', async () => {
+      const categoryId = await r.createCategory(owner, 'Home');
+      const id = await r.createTask(owner, { title: 'Paint', categoryId, priority: 'high', tags: ['b', 'A', 'a'] });
+
+      const task = await r.fetchTask(owner, id);
+      expect(task).toMatchObject({
+        title: 'Paint',
+        done: false,
+        priority: 'high',
+        categoryName: 'Home',
+        parentId: null,
+      });
+      expect(task!.tags.map((tag) => tag.name)).toEqual(['A', 'b']);
+      expect((await r.fetchTags(owner)).map(({ name, taskCount }) => [name, taskCount])).toEqual([
+        ['A', 1],
+        ['b', 1],
+      ]);
+    });
+
+    test("keeps each user's rows out of other users' reach", async () => {
+      const categoryId = await r.createCategory(owner, 'Home');
+      const id = await r.createTask(owner, { title: 'Paint', categoryId });
+
+      expect(await r.fetchTask(other, id)).toBeUndefined();
+      expect(await r.fetchCategory(other, categoryId)).toBeUndefined();
+      expect(await r.fetchTaskTree(other)).toEqual([]);
+      expect(await r.toggleTask(other, id)).toBe(false);
+      expect(await r.trashTask(other, id)).toBe(false);
+      expect(await r.trashCategory(other, categoryId)).toBe(false);
+      expect(await r.fetchTask(owner, id)).toMatchObject({ done: false });
+      expect(await r.latestActivityId(other)).toBe(0);
+    });
+
+    test('nests subtasks below their parents and pages by top-level task', async () => {
+      const parent = await r.createTask(owner, { title: 'Parent', categoryId: null });
+      const child = await r.createTask(owner, { title: 'Child', categoryId: null, parentId: parent });
+      await r.createTask(owner, { title: 'Grandchild', categoryId: null, parentId: child });
+      await r.createTask(owner, { title: 'Other', categoryId: null });
+
+      const tree = await r.fetchTaskTree(owner, query({ sort: 'title', dir: 'desc' }));
+      expect(tree.map(({ title, depth }) => [title, depth])).toEqual([
+        ['Parent', 0],
+        ['Child', 1],
+        ['Grandchild', 2],
+        ['Other', 0],
+      ]);
+      expect(await r.countTaskTrees(owner)).toBe(2);
+      expect(await r.countSubtasks(owner, parent)).toBe(2);
+      expect(await titles({ sort: 'title', dir: 'asc', page: 2 }, 1)).toEqual(['Parent', 'Child', 'Grandchild']);
+      expect(await r.fetchNestedTask(owner, child)).toMatchObject({ title: 'Child', depth: 1, subtaskCount: 1 });
+    });
+
+    test('filters tasks and keeps the parents of matching subtasks', async () => {
+      const categoryId = await r.createCategory(owner, 'Home');
+      const parent = await r.createTask(owner, { title: 'Garden', categoryId });
+      await r.createTask(owner, { title: 'Buy 100% peat', categoryId: null, parentId: parent });
+      const done = await r.createTask(owner, { title: 'Shed', categoryId: null });
+      await r.toggleTask(owner, done);
+
+      expect(await titles({ search: '100%' })).toEqual(['Garden', 'Buy 100% peat']);
+      expect(await titles({ search: '_' })).toEqual([]);
+      expect(await titles({ categoryId })).toEqual(['Garden']);
+      expect(await titles({ categoryId: 'none', sort: 'title', dir: 'asc' })).toEqual([
+        'Garden',
+        'Buy 100% peat',
+        'Shed',
+      ]);
+      expect(await titles({ status: 'done' })).toEqual(['Shed']);
+      expect(await r.countTaskTrees(owner, query({ status: 'open' }))).toBe(1);
+    });
+
+    test('creates the next occurrence when a recurring task is completed', async () => {
+      const id = await r.createTask(owner, {
+        title: 'Water plants',
+        categoryId: null,
+        dueAt: '2030-01-01 09:00:00',
+        tags: ['garden'],
+        recurrence: { freq: 'daily' },
+      });
+
+      expect(await r.toggleTask(owner, id)).toBe(true);
+      expect(await r.fetchTask(owner, id)).toMatchObject({ done: true, recurrence: null });
+      const [next] = (await r.fetchTaskTree(owner)).filter((task) => task.id !== id);
+      expect(next).toMatchObject({ title: 'Water plants', done: false, dueAt: '2030-01-02 09:00:00' });
+      expect(next.recurrence).toEqual({ freq: 'daily' });
+      expect(next.tags.map((tag) => tag.name)).toEqual(['garden']);
+    });
+
+    test('moves trashed tasks out of reach, promoting or trashing their subtasks', async () => {
+      const parent = await r.createTask(owner, { title: 'Parent', categoryId: null });
+      const child = await r.createTask(owner, { title: 'Child', categoryId: null, parentId: parent });
+      const sibling = await r.createTask(owner, { title: 'Other', categoryId: null });
+      await r.createTask(owner, { title: 'Other child', categoryId: null, parentId: sibling });
+
+      expect(await r.trashTask(owner, parent)).toBe(true);
+      expect(await r.fetchTask(owner, parent)).toBeUndefined();
+      expect(await r.fetchTask(owner, child)).toMatchObject({ parentId: null });
+      expect(await r.trashTask(owner, parent)).toBe(false);
+
+      expect(await r.trashTask(owner, sibling, 'delete')).toBe(true);
+      expect(await titles()).toEqual(['Child']);
+    });
+
+    test('rejects category names the owner already uses', async () => {
+      await r.createCategory(owner, 'Home');
+      await r.createCategory(other, 'Home');
+
+      const error = await r.createCategory(owner, 'Home').catch((error: unknown) => error);
+      expect(isUniqueViolation(error, 'categories_name_key')).toBe(true);
+    });
+
+    test('trashes categories, moving or trashing their tasks', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const work = await r.createCategory(owner, 'Work');
+      const errands = await r.createCategory(owner, 'Errands');
+      const paint = await r.createTask(owner, { title: 'Paint', categoryId: home });
+      const report = await r.createTask(owner, { title: 'Report', categoryId: work });
+      await r.createTask(owner, { title: 'Post', categoryId: errands });
+
+      expect(await r.countCategoryTasks(owner, home)).toBe(1);
+      expect(await r.trashCategory(owner, home)).toBe(true);
+      expect(await r.fetchTask(owner, paint)).toMatchObject({ categoryId: null });
+      expect(await r.fetchCategory(owner, home)).toBeUndefined();
+
+      expect(await r.trashCategory(owner, work, 'reassign', errands)).toBe(true);
+      expect(await r.fetchTask(owner, report)).toMatchObject({ categoryName: 'Errands' });
+
+      expect(await r.trashCategory(owner, errands, 'delete')).toBe(true);
+      expect(await titles()).toEqual(['Paint']);
+      expect((await r.fetchCategories(owner)).length).toBe(0);
+      expect(await r.createCategory(owner, 'Home')).toBeGreaterThan(0);
+    });
+
+    test('lists tasks flat, with the creation time in UTC for the calendar', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const parent = await r.createTask(owner, { title: 'Garden', categoryId: home });
+      await r.createTask(owner, { title: 'Weed', categoryId: null, parentId: parent });
+
+      expect((await r.fetchTasks(owner, query({ sort: 'title', dir: 'asc' }))).map((task) => task.title)).toEqual([
+        'Garden',
+        'Weed',
+      ]);
+      expect((await r.fetchTasks(owner, query({ sort: 'title', dir: 'asc', page: 2 }), 1)).map((t) => t.title)).toEqual(
+        ['Weed']
+      );
+      expect(await r.countTasks(owner, query({ categoryId: 'none' }))).toBe(1);
+      const [task] = await r.fetchCalendarTasks(owner, home);
+      expect(task).toMatchObject({ title: 'Garden' });
+      expect(task.createdAtUtc).toMatch(/^\d{8}T\d{6}Z$/);
+    });
+
+    test('updates the given fields of a task and rejects cycles', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const parent = await r.createTask(owner, { title: 'Parent', categoryId: null });
+      const child = await r.createTask(owner, { title: 'Child', categoryId: null, parentId: parent });
+
+      expect(await r.updateTask(owner, parent, { title: 'Garden', categoryId: home, tags: ['outside'] })).toBe(true);
+      const task = await r.fetchTask(owner, parent);
+      expect(task).toMatchObject({ title: 'Garden', categoryName: 'Home', priority: 'normal' });
+      expect(task!.tags.map((tag) => tag.name)).toEqual(['outside']);
+      expect(await r.updateTask(other, parent, { title: 'Sneaky' })).toBe(false);
+
+      const error = await r.updateTask(owner, parent, { parentId: child }).catch((error: unknown) => error);
+      expect(isCheckViolation(error, 'tasks_parent_id_cycle')).toBe(true);
+    });
+
+    test('moves tasks in the manual order and between categories', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const [a, b, c] = [
+        await r.createTask(owner, { title: 'A', categoryId: null }),
+        await r.createTask(owner, { title: 'B', categoryId: null }),
+        await r.createTask(owner, { title: 'C', categoryId: null }),
+      ];
+      const order = () => titles({ sort: 'position' });
+
+      expect(await r.moveTask(owner, c, { beforeId: a })).toBe(true);
+      expect(await order()).toEqual(['C', 'A', 'B']);
+      expect(await r.moveTask(owner, c, { direction: 'down' })).toBe(true);
+      expect(await order()).toEqual(['A', 'C', 'B']);
+      expect(await r.moveTask(owner, a, { direction: 'up' })).toBe(true);
+      expect(await order()).toEqual(['A', 'C', 'B']);
+      expect(await r.moveTask(owner, b, { categoryId: home })).toBe(true);
+      expect(await r.fetchTask(owner, b)).toMatchObject({ categoryName: 'Home' });
+      expect(await r.moveTask(owner, a, { beforeId: b })).toBe(true);
+      expect(await r.fetchTask(owner, a)).toMatchObject({ categoryName: 'Home' });
+      expect(await order()).toEqual(['A', 'B', 'C']);
+
+      const child = await r.createTask(owner, { title: 'Child', categoryId: null, parentId: c });
+      expect(await r.moveTask(owner, child, { beforeId: a })).toBe(false);
+    });
+
+    test('applies bulk actions to selected or matching tasks', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const paint = await r.createTask(owner, { title: 'Paint', categoryId: null });
+      const parent = await r.createTask(owner, { title: 'Garden', categoryId: null });
+      await r.createTask(owner, { title: 'Weed', categoryId: null, parentId: parent });
+
+      expect(await r.bulkUpdateTasks(owner, { ids: [] }, { action: 'done' })).toBe(0);
+      expect(await r.bulkUpdateTasks(owner, { ids: [paint, parent] }, { action: 'done' })).toBe(2);
+      expect(await r.bulkUpdateTasks(owner, { ids: [paint, parent] }, { action: 'done' })).toBe(0);
+      expect(await r.bulkUpdateTasks(owner, { query: query({ status: 'done' }) }, { action: 'open' })).toBe(2);
+      expect(await r.bulkUpdateTasks(owner, { query: query({}) }, { action: 'move', categoryId: home })).toBe(3);
+      expect(await r.countCategoryTasks(owner, home)).toBe(3);
+      expect(await r.bulkUpdateTasks(other, { ids: [paint] }, { action: 'delete' })).toBe(0);
+      expect(await r.bulkUpdateTasks(owner, { ids: [parent] }, { action: 'delete' })).toBe(2);
+      expect(await titles()).toEqual(['Paint']);
+    });
+
+    test('renames and merges categories', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const work = await r.createCategory(owner, 'Work');
+      await r.createTask(owner, { title: 'Paint', categoryId: home });
+      const trashed = await r.createTask(owner, { title: 'Fence', categoryId: home });
+      await r.trashTask(owner, trashed);
+
+      expect(await r.updateCategory(owner, home, 'House')).toBe(true);
+      expect(await r.fetchCategory(owner, home)).toEqual({ id: home, name: 'House' });
+      const error = await r.updateCategory(owner, home, 'Work').catch((error: unknown) => error);
+      expect(isUniqueViolation(error, 'categories_name_key')).toBe(true);
+
+      expect(await r.mergeCategory(other, home, work)).toBeNull();
+      expect(await r.mergeCategory(owner, home, work)).toBe(1);
+      expect(await r.fetchCategory(owner, home)).toBeUndefined();
+      expect(await r.countCategoryTasks(owner, work)).toBe(1);
+      expect((await r.fetchTrash(owner)).tasks).toMatchObject([{ title: 'Fence', categoryName: 'Work' }]);
+    });
+
+    test('renames and deletes tags', async () => {
+      const id = await r.createTask(owner, { title: 'Paint', categoryId: null, tags: ['home', 'diy'] });
+      const [diy, home] = await r.fetchTags(owner);
+
+      expect(await r.fetchTag(owner, home.id)).toEqual({ id: home.id, name: 'home' });
+      expect(await r.fetchTag(other, home.id)).toBeUndefined();
+      expect(await r.renameTag(owner, home.id, 'house')).toBe(true);
+      const error = await r.renameTag(owner, home.id, 'DIY').catch((error: unknown) => error);
+      expect(isUniqueViolation(error, 'tags_name_key')).toBe(true);
+
+      expect(await r.deleteTag(other, diy.id)).toBe(false);
+      expect(await r.deleteTag(owner, diy.id)).toBe(true);
+      expect((await r.fetchTask(owner, id))!.tags.map((tag) => tag.name)).toEqual(['house']);
+    });
+
+    test('restores and purges what is in the trash', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const parent = await r.createTask(owner, { title: 'Parent', categoryId: null });
+      await r.createTask(owner, { title: 'Child', categoryId: null, parentId: parent });
+      await r.createTask(owner, { title: 'Paint', categoryId: home });
+      await r.createTask(owner, { title: 'Fence', categoryId: home });
+      await r.trashTask(owner, parent, 'delete');
+      await r.trashCategory(owner, home, 'delete');
+
+      const trash = await r.fetchTrash(owner);
+      expect(trash.tasks.map((task) => task.title).sort()).toEqual(['Child', 'Fence', 'Paint', 'Parent']);
+      expect(trash.categories).toMatchObject([{ name: 'Home', taskCount: 2 }]);
+      expect(await r.fetchTrash(other)).toEqual({ tasks: [], categories: [] });
+
+      expect(await r.restoreTask(owner, parent)).toBe(true);
+      expect(await titles()).toEqual(['Parent', 'Child']);
+      expect(await r.restoreTask(owner, parent)).toBe(false);
+
+      const fence = trash.tasks.find((task) => task.title === 'Fence')!;
+      expect(await r.restoreTask(owner, fence.id)).toBe(true);
+      expect(await r.fetchTask(owner, fence.id)).toMatchObject({ categoryId: null });
+      expect(await r.restoreCategory(owner, home)).toBe(true);
+      expect(await r.countCategoryTasks(owner, home)).toBe(2);
+
+      await r.trashTask(owner, fence.id);
+      expect(await r.purgeTask(owner, fence.id)).toBe(true);
+      expect(await r.purgeTask(owner, fence.id)).toBe(false);
+      await r.trashCategory(owner, home);
+      expect(await r.purgeCategory(other, home)).toBe(false);
+      expect(await r.purgeCategory(owner, home)).toBe(true);
+      await r.trashTask(owner, parent, 'delete');
+      await r.emptyTrash(owner);
+      expect(await r.fetchTrash(owner)).toEqual({ tasks: [], categories: [] });
+      expect(await titles()).toEqual(['Paint']);
+    });
+
+    test('applies an import plan', async () => {
+      const home = await r.createCategory(owner, 'Home');
+      const paint = await r.createTask(owner, { title: 'Paint', categoryId: home });
+
+      const result = await r.applyImport(owner, {
+        kind: 'tasks',
+        newCategories: ['Work'],
+        createTasks: [{ title: 'Report', categoryName: 'Work', done: true, dueAt: null, priority: 'high' }],
+        updateTasks: [{ id: paint, title: 'Paint', categoryName: 'Home', done: true, dueAt: null, priority: 'low' }],
+        skipped: [],
+        rejected: [],
+      });
+      expect(result).toEqual({ categories: 1, created: 1, updated: 1 });
+      expect(await titles({ sort: 'title', dir: 'asc' })).toEqual(['Paint', 'Report']);
+      expect((await r.fetchTasks(owner)).find((task) => task.title === 'Report')).toMatchObject({
+        categoryName: 'Work',
+        done: true,
+        priority: 'high',
+      });
+      expect(await r.fetchTask(owner, paint)).toMatchObject({ done: true, priority: 'low' });
+    });
+
+    test('reads the activity log with its filters', async () => {
+      const start = await r.latestActivityId(owner);
+      const home = await r.createCategory(owner, 'Home');
+      const id = await r.createTask(owner, { title: 'Paint', categoryId: home });
+      await r.updateTask(owner, id, { title: 'Paint' });
+      await r.toggleTask(owner, id);
+      await r.trashTask(owner, id);
+      await r.restoreTask(owner, id);
+
+      const all = parseActivityQuery({});
+      expect(await r.countActivity(owner, all)).toBe(5);
+      expect(await r.countActivity(other, all)).toBe(0);
+      const entries = await r.fetchActivity(owner, { ...all, entity: 'task' }, 2);
+      expect(entries.map((entry) => entry.action)).toEqual(['restore', 'trash']);
+      expect(entries[0]).toMatchObject({ entityId: id, before: null, after: { title: 'Paint', category: 'Home' } });
+      expect(entries[1].after).toBeNull();
+      expect(await r.countActivity(owner, { ...all, action: 'create' })).toBe(2);
+      expect(await r.countActivity(owner, { ...all, to: '2000-01-01' })).toBe(0);
+
+      expect((await r.fetchTaskHistory(owner, id)).map((entry) => entry.action)).toEqual([
+        'restore',
+        'trash',
+        'toggle',
+        'create',
+      ]);
+      const since = await r.fetchActivitySince(owner, start, 2);
+      expect(since.map(({ entity, action }) => [entity, action])).toEqual([
+        ['category', 'create'],
+        ['task', 'create'],
+      ]);
+    });
+
+    test('creates, looks up and revokes calendar feed tokens', async () => {
+      expect(await r.hasFeedToken(owner)).toBe(false);
+      const token = await r.createFeedToken(owner);
+      expect(await r.hasFeedToken(owner)).toBe(true);
+      expect(await r.feedTokenOwner(token)).toBe(owner);
+      expect(await r.feedTokenOwner(`${token}x`)).toBeNull();
+
+      const replaced = await r.createFeedToken(owner);
+      expect(await r.feedTokenOwner(token)).toBeNull();
+      await r.revokeFeedToken(owner);
+      expect(await r.feedTokenOwner(replaced)).toBeNull();
+      expect(await r.hasFeedToken(owner)).toBe(false);
+    });
+
+    test('records every change in the activity log', async () => {
+      let latest = await r.latestActivityId(owner);
+      const changes: (() => Promise<unknown>)[] = [
+        () => r.createCategory(owner, 'Home'),
+        () => r.createTask(owner, { title: 'Paint', categoryId: null }),
+        async () => r.toggleTask(owner, (await r.fetchTaskTree(owner))[0].id),
+        async () => r.trashTask(owner, (await r.fetchTaskTree(owner))[0].id),
+        async () => r.trashCategory(owner, (await r.fetchCategories(owner))[0].id),
+      ];
+      for (const change of changes) {
+        await change();
+        const id = await r.latestActivityId(owner);
+        expect(id).toBeGreaterThan(latest);
+        latest = id;
+      }
+    });
+  });
+}
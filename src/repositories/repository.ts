@@ -0,0 +1,144 @@
+import type {
+  Task,
+  NestedTask,
+  Category,
+  Tag,
+  TaskTag,
+  TaskPriority,
+  SubtaskAction,
+  CategoryTaskAction,
+  TaskMove,
+  BulkTaskAction,
+  TaskSelection,
+  TrashedTask,
+  TrashedCategory,
+  CalendarTask,
+  ActivityEntry,
+} from '../db';
+import type { TaskQuery } from '../task-query';
+import type { ActivityQuery } from '../activity-query';
+import type { ImportPlan } from '../import';
+import type { Recurrence } from '../recurrence';
+
+/**
+ * The fields of a new task. The caller checks that the category and the parent task belong to the
+ * same user.
+ */
+export interface NewTask {
+  title: string;
+  categoryId: number | null;
+  dueAt?: string | null;
+  priority?: TaskPriority;
+  parentId?: number | null;
+  // Tag names; tags the user does not have yet are created, matching names regardless of case
+  tags?: string[];
+  recurrence?: Recurrence | null;
+}
+
+/**
+ * The fields of a task to change; those left out keep their value. The caller checks that the
+ * category and the parent task belong to the same user.
+ */
+export interface TaskChanges {
+  title?: string;
+  done?: boolean;
+  categoryId?: number | null;
+  dueAt?: string | null;
+  priority?: TaskPriority;
+  parentId?: number | null;
+  completeWithSubtasks?: boolean;
+  tags?: string[];
+  recurrence?: Recurrence | null;
+}
+
+/**
+ * Reads and writes the tasks, categories and tags of the task list, with their trash, activity log
+ * and calendar feed token. The implementations store them in Postgres through Drizzle or Bun SQL,
+ * or in memory, and all of them follow the same rules:
+ *
+ * - Every method works on the rows of one user, the owner. Ids of other users' rows are treated
+ *   like ids that do not exist.
+ * - Deleting moves to the trash. Reads leave out what is in the trash, and the methods that
+ *   change a single row return `false` when the owner has no such row outside it.
+ * - Every change to a task or category is recorded in the owner's activity log.
+ */
+export interface Repository {
+  // Tasks matching the query as a flat list, for the API and the exports; with `perPage`, one page of them
+  fetchTasks(ownerId: number, query?: TaskQuery, perPage?: number): Promise<Task[]>;
+  countTasks(ownerId: number, query?: TaskQuery): Promise<number>;
+  // Top-level tasks matching the query with their subtasks, in display order; with `perPage`, one page of them
+  fetchTaskTree(ownerId: number, query?: TaskQuery, perPage?: number): Promise<NestedTask[]>;
+  // The number of top-level tasks matching the query, which the pages are made of
+  countTaskTrees(ownerId: number, query?: TaskQuery): Promise<number>;
+  // All tasks, or those of one category, with their creation times in UTC for the calendar feed
+  fetchCalendarTasks(ownerId: number, categoryId: number | null): Promise<CalendarTask[]>;
+  fetchTask(ownerId: number, id: number): Promise<Task | undefined>;
+  // The task with its depth in the tree, for rendering its row
+  fetchNestedTask(ownerId: number, id: number): Promise<NestedTask | undefined>;
+  // Subtasks at any depth
+  countSubtasks(ownerId: number, id: number): Promise<number>;
+  // By name
+  fetchCategories(ownerId: number): Promise<Category[]>;
+  fetchCategory(ownerId: number, id: number): Promise<Category | undefined>;
+  countCategoryTasks(ownerId: number, id: number): Promise<number>;
+  // By name, with the number of tasks carrying each
+  fetchTags(ownerId: number): Promise<Tag[]>;
+  fetchTag(ownerId: number, id: number): Promise<TaskTag | undefined>;
+  createTask(ownerId: number, values: NewTask): Promise<number>;
+  // A parent that would make the task a subtask of itself throws a check violation on `tasks_parent_id_cycle`
+  updateTask(ownerId: number, id: number, values: TaskChanges): Promise<boolean>;
+  // Completing a recurring task creates its next occurrence, and completing the last open subtask
+  // completes a parent that is set to complete with its subtasks
+  toggleTask(ownerId: number, id: number): Promise<boolean>;
+  // `false` as well when the task to move in front of is not a sibling
+  moveTask(ownerId: number, id: number, move: TaskMove): Promise<boolean>;
+  // The number of tasks the action changed, including subtasks trashed with the selected tasks
+  bulkUpdateTasks(ownerId: number, selection: TaskSelection, change: BulkTaskAction): Promise<number>;
+  trashTask(ownerId: number, id: number, subtasks?: SubtaskAction): Promise<boolean>;
+  // A name the owner already uses outside the trash throws a unique violation on `categories_name_key`
+  createCategory(ownerId: number, name: string): Promise<number>;
+  updateCategory(ownerId: number, id: number, name: string): Promise<boolean>;
+  // Moves the tasks into the target and deletes the source; the number of moved tasks, or `null` without the source
+  mergeCategory(ownerId: number, sourceId: number, targetId: number): Promise<number | null>;
+  // The caller checks that the target of `reassign` belongs to the same user
+  trashCategory(ownerId: number, id: number, action?: CategoryTaskAction, targetId?: number): Promise<boolean>;
+  // A name the owner already uses, regardless of case, throws a unique violation on `tags_name_key`
+  renameTag(ownerId: number, id: number, name: string): Promise<boolean>;
+  // Takes the tag off its tasks and deletes it for good
+  deleteTag(ownerId: number, id: number): Promise<boolean>;
+  // Most recently trashed first
+  fetchTrash(ownerId: number): Promise<{ tasks: TrashedTask[]; categories: TrashedCategory[] }>;
+  // Brings back the subtasks that were trashed with the task
+  restoreTask(ownerId: number, id: number): Promise<boolean>;
+  // Brings back the tasks of the category; throws a unique violation if its name has been taken since
+  restoreCategory(ownerId: number, id: number): Promise<boolean>;
+  purgeTask(ownerId: number, id: number): Promise<boolean>;
+  purgeCategory(ownerId: number, id: number): Promise<boolean>;
+  emptyTrash(ownerId: number): Promise<void>;
+  // Deletes what every user has had in the trash for longer than the retention period
+  purgeExpiredTrash(): Promise<void>;
+  // Throws a unique violation if one of the new categories was created in the meantime
+  applyImport(ownerId: number, plan: ImportPlan): Promise<{ categories: number; created: number; updated: number }>;
+  // Newest first
+  fetchActivity(ownerId: number, query: ActivityQuery, perPage: number): Promise<ActivityEntry[]>;
+  countActivity(ownerId: number, query: ActivityQuery): Promise<number>;
+  fetchTaskHistory(ownerId: number, taskId: number): Promise<ActivityEntry[]>;
+  // Entries after the given id, oldest first, for the live updates of open pages
+  fetchActivitySince(
+    ownerId: number,
+    afterId: number,
+    limit: number
+  ): Promise<Pick<ActivityEntry, 'id' | 'entity' | 'entityId' | 'action'>[]>;
+  // The id of the newest activity entry, or 0
+  latestActivityId(ownerId: number): Promise<number>;
+  // Replaces the owner's calendar feed token, of which only a hash is kept
+  createFeedToken(ownerId: number): Promise<string>;
+  revokeFeedToken(ownerId: number): Promise<void>;
+  hasFeedToken(ownerId: number): Promise<boolean>;
+  // The owner of a calendar feed token, or `null` if it is unknown or revoked
+  feedTokenOwner(token: string): Promise<number | null>;
+  // Fails if the storage cannot be reached, for the readiness check
+  ping(): Promise<void>;
+  // Releases the connections, when the server shuts down
+  close(): Promise<void>;
+}
@@ -0,0 +1,107 @@
+import { parseArgs } from 'node:util';
+import { insertDataset } from './db';
+import { findUser, registerUser } from './auth';
+import { fixtures, generateDataset, defaultDatasetOptions } from './fixtures';
+import { resetDatabase, applyMigrations } from './migrations';
+
+const usage = `Usage: bun run seed [options]
+
+Creates categories and tasks for an account, which is created if it does not exist yet.
+
+  --reset               Drop all tables and data and migrate from scratch first (only when NODE_ENV is development)
+  --fixture <name>      Load a named fixture (${Object.keys(fixtures).join(', ')}) instead of generating data
+  --categories <n>      Number of categories (default ${defaultDatasetOptions.categories})
+  --tasks <n>           Number of tasks (default ${defaultDatasetOptions.tasks})
+  --done-ratio <0..1>   Share of the tasks that are done (default ${defaultDatasetOptions.doneRatio})
+  --days <n>            Spread the tasks' creation times over this many days (default ${defaultDatasetOptions.days})
+  --seed <n>            Random seed; the same seed gives the same data on the same day (default ${defaultDatasetOptions.seed})
+  --email <address>     Account to seed (default demo@example.com)
+  --password <text>     Password of the account if it is created (default demo-password)`;
+
+const options = {
+  reset: { type: 'boolean', default: false },
+  fixture: { type: 'string' },
+  categories: { type: 'string' },
+  tasks: { type: 'string' },
+  'done-ratio': { type: 'string' },
+  days: { type: 'string' },
+  seed: { type: 'string' },
+  email: { type: 'string', default: 'demo@example.com' },
+  password: { type: 'string', default: 'demo-password' },
+  help: { type: 'boolean', default: false },
+} as const;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${usage}`);
+  process.exit(1);
+}
+
+const { values } = (() => {
+  try {
+    return parseArgs({ options });
+  } catch (error) {
+    fail(error instanceof Error ? error.message : String(error));
+  }
+})();
+
+// Reads a numeric option, or its default when it is not given
+function numberOption(name: keyof typeof values, fallback: number, min: number, max: number, integer = true): number {
+  const value = values[name];
+  if (value === undefined) {
+    return fallback;
+  }
+  const number = Number(value);
+  if (typeof value !== 'string' || value.trim() === '' || Number.isNaN(number) || number < min || number > max) {
+    fail(`--${name} must be a number from ${min} to ${max}`);
+  }
+  if (integer && !Number.isInteger(number)) {
+    fail(`--${name} must be a whole number`);
+  }
+  return number;
+}
+
+if (values.help) {
+  console.log(usage);
+  process.exit(0);
+}
+if (values.fixture !== undefined && !(values.fixture in fixtures)) {
+  fail(`Unknown fixture "${values.fixture}"`);
+}
+
+const dataset = values.fixture
+  ? fixtures[values.fixture]()
+  : generateDataset({
+      categories: numberOption('categories', defaultDatasetOptions.categories, 0, 1000),
+      tasks: numberOption('tasks', defaultDatasetOptions.tasks, 0, 100_000),
+      doneRatio: numberOption('done-ratio', defaultDatasetOptions.doneRatio, 0, 1, false),
+      days: numberOption('days', defaultDatasetOptions.days, 0, 3650),
+      seed: numberOption('seed', defaultDatasetOptions.seed, 0, 2 ** 32 - 1),
+      now: new Date(),
+    });
+
+try {
+  if (values.reset) {
+    await resetDatabase();
+  } else {
+    await applyMigrations();
+  }
+
+  let user = await findUser(values.email);
+  const created = !user;
+  if (!user) {
+    if (values.password.length < 8) {
+      fail('--password must be at least 8 characters');
+    }
+    user = await registerUser(values.email, values.password);
+  }
+
+  const counts = await insertDataset(user.id, dataset);
+  console.log(
+    `Created ${counts.categories} categories and ${counts.tasks} tasks for ${user.email}` +
+      (created ? ` (new account, password: ${values.password})` : '')
+  );
+  process.exit(0);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+}
@@ -0,0 +1,66 @@
+import { Hono } from 'hono';
+import type { Env } from 'hono';
+import type { Server } from 'bun';
+import { config } from './config';
+import { log, serializeError } from './logging';
+
+const shutdown = new AbortController();
+
+/**
+ * Aborted when the server starts shutting down, so that long-running responses such as event
+ * streams can end and let the shutdown finish.
+ */
+export const shutdownSignal = shutdown.signal;
+
+/**
+ * `/healthz` answers as long as the process runs. `/readyz` also checks that `ping` reaches the
+ * database, and fails once a shutdown has begun so load balancers stop sending requests.
+ */
+export function healthRoutes(ping: () => Promise<void>): Hono {
+  const routes = new Hono();
+
+  routes.get('/healthz', (c) => c.json({ status: 'ok' }));
+
+  routes.get('/readyz', async (c) => {
+    if (shutdownSignal.aborted) {
+      return c.json({ status: 'shutting down' }, 503);
+    }
+    try {
+      await ping();
+      return c.json({ status: 'ready' });
+    } catch (error) {
+      log('error', 'Readiness check failed', { error: serializeError(error) });
+      return c.json({ status: 'unavailable', error: 'The database cannot be reached' }, 503);
+    }
+  });
+
+  return routes;
+}
+
+/**
+ * Serves an app on the configured port until SIGTERM or SIGINT. Then it stops accepting connections,
+ * lets the requests in flight finish and calls `close` to release the database connections. If that
+ * takes longer than `SHUTDOWN_TIMEOUT_MS`, the process exits anyway.
+ */
+export function serve<E extends Env>(app: Hono<E>, close: () => Promise<void>): Server {
+  const server = Bun.serve({ port: config.port, fetch: app.fetch });
+  log('info', 'Listening', { url: server.url.href });
+
+  const stop = async (signal: string) => {
+    if (shutdownSignal.aborted) return;
+    log('info', 'Shutting down', { signal, pendingRequests: server.pendingRequests });
+    shutdown.abort();
+    setTimeout(() => {
+      log('error', 'Shutdown timed out; exiting with requests still open');
+      process.exit(1);
+    }, config.shutdownTimeoutMs).unref();
+
+    await server.stop();
+    await close();
+    process.exit(0);
+  };
+  process.on('SIGTERM', () => stop('SIGTERM'));
+  process.on('SIGINT', () => stop('SIGINT'));
+
+  return server;
+}
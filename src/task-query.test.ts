@@ -0,0 +1,68 @@
+import { describe, expect, test } from 'bun:test';
+import { parseTaskQuery, parseTaskQueryFromPath, taskQueryString, defaultTaskQuery } from './task-query';
+
+describe('parseTaskQuery', () => {
+  test('gives the defaults without parameters', () => {
+    expect(parseTaskQuery({})).toEqual(defaultTaskQuery);
+  });
+
+  test('reads every parameter', () => {
+    expect(
+      parseTaskQuery({
+        q: '  tap ',
+        category: '3',
+        tag: '7',
+        status: 'open',
+        due: 'week',
+        sort: 'due',
+        dir: 'asc',
+        page: '2',
+      })
+    ).toEqual({
+      search: 'tap',
+      categoryId: 3,
+      tagId: 7,
+      status: 'open',
+      due: 'week',
+      sort: 'due',
+      dir: 'asc',
+      page: 2,
+    });
+    expect(parseTaskQuery({ category: 'none' }).categoryId).toBe('none');
+  });
+
+  test('falls back to the defaults for invalid values', () => {
+    expect(
+      parseTaskQuery({
+        category: '3abc',
+        tag: '-1',
+        status: 'closed',
+        due: 'tomorrow',
+        sort: 'id; drop table tasks',
+        dir: 'up',
+        page: '0',
+      })
+    ).toEqual(defaultTaskQuery);
+    expect(parseTaskQuery({ page: '1.5' }).page).toBe(1);
+    expect(parseTaskQuery({ category: '2147483648', tag: '0' })).toEqual(defaultTaskQuery);
+  });
+});
+
+describe('taskQueryString', () => {
+  test('leaves out the defaults', () => {
+    expect(taskQueryString(defaultTaskQuery)).toBe('');
+    expect(taskQueryString({ ...defaultTaskQuery, search: 'a b', status: 'done', page: 3 })).toBe(
+      '?q=a+b&status=done&page=3'
+    );
+  });
+
+  test('applies overrides, such as the page of a pagination link', () => {
+    const query = { ...defaultTaskQuery, categoryId: 'none' as const, page: 2 };
+    expect(taskQueryString(query, { page: 1 })).toBe('?category=none');
+  });
+
+  test('round-trips through parseTaskQueryFromPath', () => {
+    const query = { ...defaultTaskQuery, search: '50% off', tagId: 4, due: 'overdue' as const, sort: 'title' as const };
+    expect(parseTaskQueryFromPath(`/${taskQueryString(query)}`)).toEqual(query);
+  });
+});
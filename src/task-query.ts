@@ -0,0 +1,92 @@
+import { parseId } from './utils';
+
+export type TaskStatusFilter = 'all' | 'open' | 'done';
+export type TaskDueFilter = 'any' | 'overdue' | 'today' | 'week';
+export type TaskSortField = 'created' | 'title' | 'status' | 'category' | 'due' | 'priority' | 'position';
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Filters, sort order and page for the task list, as parsed from the query string of `/`.
+ */
+export interface TaskQuery {
+  search: string;
+  categoryId: number | 'none' | null;
+  tagId: number | null;
+  status: TaskStatusFilter;
+  due: TaskDueFilter;
+  sort: TaskSortField;
+  dir: SortDirection;
+  page: number;
+}
+
+export const TASKS_PER_PAGE = 25;
+
+export const defaultTaskQuery: TaskQuery = {
+  search: '',
+  categoryId: null,
+  tagId: null,
+  status: 'all',
+  due: 'any',
+  sort: 'created',
+  dir: 'desc',
+  page: 1,
+};
+
+const statuses: TaskStatusFilter[] = ['all', 'open', 'done'];
+const dueFilters: TaskDueFilter[] = ['any', 'overdue', 'today', 'week'];
+const sortFields: TaskSortField[] = ['created', 'title', 'status', 'category', 'due', 'priority', 'position'];
+
+/**
+ * Parses task list parameters, falling back to the defaults for anything missing or invalid.
+ *
+ * Recognised parameters: `q` (title search), `category` (an id or `none`), `tag` (an id), `status`
+ * (`all`, `open` or `done`), `due` (`any`, `overdue`, `today` or `week`), `sort` (`created`,
+ * `title`, `status`, `category`, `due`, `priority` or `position`), `dir` (`asc` or `desc`) and `page`
+ * (1-based). The manual order (`position`) always lists the first task first, whatever the direction.
+ */
+export function parseTaskQuery(params: Record<string, string | undefined>): TaskQuery {
+  const category = params.category ?? '';
+  const tag = params.tag ?? '';
+  const page = Number(params.page);
+
+  return {
+    search: (params.q ?? '').trim(),
+    categoryId: category === 'none' ? 'none' : parseId(category),
+    tagId: parseId(tag),
+    status: statuses.includes(params.status as TaskStatusFilter)
+      ? (params.status as TaskStatusFilter)
+      : defaultTaskQuery.status,
+    due: dueFilters.includes(params.due as TaskDueFilter) ? (params.due as TaskDueFilter) : defaultTaskQuery.due,
+    sort: sortFields.includes(params.sort as TaskSortField) ? (params.sort as TaskSortField) : defaultTaskQuery.sort,
+    dir: params.dir === 'asc' || params.dir === 'desc' ? params.dir : defaultTaskQuery.dir,
+    page: Number.isInteger(page) && page > 0 ? page : defaultTaskQuery.page,
+  };
+}
+
+/**
+ * Builds the query string for a task list, leaving out values that equal the defaults so that
+ * the plain list stays at `/`. Returns an empty string or a string starting with `?`.
+ */
+export function taskQueryString(query: TaskQuery, overrides: Partial<TaskQuery> = {}): string {
+  const merged = { ...query, ...overrides };
+  const params = new URLSearchParams();
+
+  if (merged.search) params.set('q', merged.search);
+  if (merged.categoryId !== null) params.set('category', String(merged.categoryId));
+  if (merged.tagId !== null) params.set('tag', String(merged.tagId));
+  if (merged.status !== defaultTaskQuery.status) params.set('status', merged.status);
+  if (merged.due !== defaultTaskQuery.due) params.set('due', merged.due);
+  if (merged.sort !== defaultTaskQuery.sort) params.set('sort', merged.sort);
+  if (merged.dir !== defaultTaskQuery.dir) params.set('dir', merged.dir);
+  if (merged.page !== defaultTaskQuery.page) params.set('page', String(merged.page));
+
+  const qs = params.toString();
+  return qs ? `?${qs}` : '';
+}
+
+/**
+ * Parses the task list parameters out of a local path such as the `return_to` field of a form.
+ */
+export function parseTaskQueryFromPath(path: string): TaskQuery {
+  return parseTaskQuery(Object.fromEntries(new URL(path, 'http://localhost').searchParams));
+}
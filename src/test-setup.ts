@@ -0,0 +1,4 @@
+// config.ts reads DB_URL when it is imported. Tests only reach a database through TEST_DB_URL, so
+// a development DB_URL is never written to; without it the URL points nowhere and is never used.
+process.env.DB_URL = process.env.TEST_DB_URL || 'postgres://localhost/unused';
+delete process.env.POSTGRES_URL;
@@ -0,0 +1,13 @@
+/**
+ * Generates a random token for a session cookie or a calendar feed URL.
+ */
+export function generateToken(): string {
+  return Buffer.from(crypto.getRandomValues(new Uint8Array(32))).toString('base64url');
+}
+
+/**
+ * Hashes a token for storage, so the stored value cannot be used in place of the token.
+ */
+export function hashToken(token: string): string {
+  return new Bun.CryptoHasher('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,70 @@
+import { describe, expect, test } from 'bun:test';
+import { parseId, isId, returnPath, withReturnTo, parseDateTime, toDateTimeLocal } from './utils';
+
+describe('parseId', () => {
+  test('accepts positive integers only', () => {
+    expect(parseId('42')).toBe(42);
+    for (const value of ['0', '-1', '1.5', 'abc', '1e3', '', null, undefined]) {
+      expect(parseId(value)).toBeNull();
+    }
+  });
+
+  test('rejects ids too large for an integer column', () => {
+    expect(parseId('2147483647')).toBe(2147483647);
+    expect(parseId('2147483648')).toBeNull();
+    expect(parseId('99999999999999999999')).toBeNull();
+  });
+});
+
+describe('isId', () => {
+  test('accepts positive integers up to the largest id', () => {
+    expect(isId(1)).toBe(true);
+    expect(isId(2147483647)).toBe(true);
+    for (const value of [0, -1, 1.5, 2147483648, '1', null]) {
+      expect(isId(value)).toBe(false);
+    }
+  });
+});
+
+describe('returnPath', () => {
+  test('keeps local paths with their query', () => {
+    expect(returnPath('/?status=open&page=2')).toBe('/?status=open&page=2');
+  });
+
+  test('falls back to the home page for other sites', () => {
+    for (const value of ['//evil.example', '/\\evil.example', 'https://evil.example/', 'tasks', null]) {
+      expect(returnPath(value)).toBe('/');
+    }
+  });
+});
+
+describe('withReturnTo', () => {
+  test('adds the page to return to unless it is the home page', () => {
+    expect(withReturnTo('/tasks/1/edit', '/')).toBe('/tasks/1/edit');
+    expect(withReturnTo('/tasks/1/edit', '/?q=a&page=2')).toBe('/tasks/1/edit?return_to=%2F%3Fq%3Da%26page%3D2');
+  });
+});
+
+describe('parseDateTime', () => {
+  test('reads dates and local times', () => {
+    expect(parseDateTime('2025-03-08T18:30')).toBe('2025-03-08 18:30:00');
+    expect(parseDateTime(' 2025-03-08 18:30:15 ')).toBe('2025-03-08 18:30:15');
+  });
+
+  test('takes a bare date as the end of that day', () => {
+    expect(parseDateTime('2025-03-08')).toBe('2025-03-08 23:59:59');
+  });
+
+  test('rejects dates that do not exist', () => {
+    for (const value of ['2025-02-30', '2025-13-01', '2025-03-08T24:00', '08/03/2025', '']) {
+      expect(parseDateTime(value)).toBeNull();
+    }
+  });
+});
+
+describe('toDateTimeLocal', () => {
+  test('formats timestamps for datetime-local inputs', () => {
+    expect(toDateTimeLocal('2025-03-08 18:30:00')).toBe('2025-03-08T18:30');
+    expect(toDateTimeLocal(null)).toBe('');
+  });
+});
@@ -0,0 +1,68 @@
+/**
+ * The largest id there can be. Ids are Postgres `integer` columns, which fail the whole query when
+ * compared with anything larger.
+ */
+export const MAX_ID = 2147483647;
+
+/**
+ * Checks whether a value, such as a number in a JSON body, can be an id.
+ */
+export function isId(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value <= MAX_ID;
+}
+
+/**
+ * Parses an id from a route parameter or form field. Returns `null` for anything that is not
+ * a positive integer up to `MAX_ID`, so that `/tasks/abc` is treated like an unknown id.
+ */
+export function parseId(value: string | null | undefined): number | null {
+  return value && /^\d+$/.test(value) && isId(Number(value)) ? Number(value) : null;
+}
+
+/**
+ * Returns the local path a form asked to be sent back to (the `return_to` field), so that list
+ * filters survive a redirect. Anything that is not a same-site path falls back to `/`.
+ */
+export function returnPath(value: unknown): string {
+  return typeof value === 'string' && /^\/(?![/\\])/.test(value) ? value : '/';
+}
+
+/**
+ * Appends a `return_to` parameter to a link, unless the page to return to is the plain home page.
+ */
+export function withReturnTo(path: string, returnTo: string): string {
+  return returnTo === '/' ? path : `${path}?return_to=${encodeURIComponent(returnTo)}`;
+}
+
+/**
+ * Media type that scripts accept to get the changed part of a page instead of a redirect, for
+ * clients that do not send `HX-Request` like htmx does.
+ */
+export const FRAGMENT_TYPE = 'text/html-fragment';
+
+/**
+ * Parses a date (`YYYY-MM-DD`) or a local date and time (`YYYY-MM-DDTHH:MM[:SS]`) as sent by
+ * `date` and `datetime-local` inputs. A bare date means the end of that day.
+ *
+ * @returns The value as a Postgres timestamp string, or `null` if it is not a valid date.
+ */
+export function parseDateTime(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2}))?)?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day, hours = '23', minutes = '59', seconds = match[4] ? '00' : '59'] = match;
+  const timestamp = `${year}-${month}-${day}T${hours}:${minutes}:${seconds}`;
+  // Out-of-range parts like February 30th roll over, so they no longer match after the round trip
+  const date = new Date(`${timestamp}Z`);
+  if (Number.isNaN(date.getTime()) || date.toISOString().slice(0, 19) !== timestamp) {
+    return null;
+  }
+  return timestamp.replace('T', ' ');
+}
+
+/**
+ * Formats a Postgres timestamp string for the value of a `datetime-local` input.
+ */
+export function toDateTimeLocal(value: string | null): string {
+  return value ? value.replace(' ', 'T').slice(0, 16) : '';
+}
@@ -0,0 +1,119 @@
+import { describe, expect, test } from 'bun:test';
+import { text, id, choice, integerList, tagList, flag, validateForm, validateRecord, fail } from './validation';
+import { taskForm } from './forms';
+
+const formData = (fields: [string, string][]) => {
+  const data = new FormData();
+  for (const [name, value] of fields) {
+    data.append(name, value);
+  }
+  return data;
+};
+
+describe('fields', () => {
+  test('text trims its value and checks it is there and short enough', () => {
+    const title = text('Title', { required: true, maxLength: 5 });
+    expect(title.parse('  Paint ')).toEqual({ value: 'Paint' });
+    expect(title.parse('   ')).toEqual({ error: 'Title is required' });
+    expect(title.parse('Painting')).toEqual({ error: 'Title must be at most 5 characters' });
+  });
+
+  test('id reads positive whole numbers, and nothing as null unless required', () => {
+    expect(id('Category').parse('')).toEqual({ value: null });
+    expect(id('Category').parse('7')).toEqual({ value: 7 });
+    expect(id('Category').parse('0')).toEqual({ error: 'Category is not valid' });
+    expect(id('Category').parse('2147483648')).toEqual({ error: 'Category is not valid' });
+    expect(id('Category', { required: true }).parse(null)).toEqual({ error: 'Category is required' });
+  });
+
+  test('choice falls back to its default, and requires a value without one', () => {
+    expect(choice('Priority', ['low', 'high'], 'low').parse('')).toEqual({ value: 'low' });
+    expect(choice('Action', ['done', 'open']).parse(null)).toEqual({ error: 'Action is required' });
+    expect(choice('Action', ['done', 'open']).parse('open')).toEqual({ value: 'open' });
+    expect(choice('Action', ['done', 'open']).parse('close')).toEqual({ error: 'Action must be one of done, open' });
+  });
+
+  test('integerList sorts and dedupes the checked values', () => {
+    const weekdays = integerList('Weekdays', { min: 0, max: 6 });
+    expect(weekdays.parse('5,1,5')).toEqual({ value: [1, 5] });
+    expect(weekdays.parse(null)).toEqual({ value: [] });
+    expect(weekdays.parse('1,7')).toEqual({ error: 'Weekdays is not valid' });
+  });
+
+  test('tagList keeps each name once, ignoring case', () => {
+    const tags = tagList('Tags', { maxLength: 5, maxCount: 2 });
+    expect(tags.parse(' home, Home ,, work')).toEqual({ value: ['home', 'work'] });
+    expect(tags.parse('a,b,c')).toEqual({ error: 'Tags can hold at most 2 names' });
+    expect(tags.parse('garden')).toEqual({ error: 'Each of the tags must be at most 5 characters' });
+  });
+
+  test('flag reads the yes and no values of imported files', () => {
+    expect(flag('Done').parse('Yes')).toEqual({ value: true });
+    expect(flag('Done').parse('')).toEqual({ value: false });
+    expect(flag('Done').parse('maybe')).toEqual({ error: 'Done must be true or false' });
+  });
+});
+
+describe('validateForm', () => {
+  test('gives typed values for a valid form', () => {
+    const form = validateForm(
+      taskForm,
+      formData([
+        ['title', ' Water plants '],
+        ['category_id', '2'],
+        ['due_at', '2025-03-08'],
+        ['tags', 'garden'],
+        ['repeat_weekdays', '3'],
+        ['repeat_weekdays', '1'],
+      ])
+    );
+    expect(form.ok).toBe(true);
+    expect(form.ok && form.values).toMatchObject({
+      title: 'Water plants',
+      category_id: 2,
+      due_at: '2025-03-08 23:59:59',
+      priority: 'normal',
+      parent_id: null,
+      tags: ['garden'],
+      repeat: 'none',
+      repeat_weekdays: [1, 3],
+    });
+  });
+
+  test('collects an error per invalid field and keeps the input', () => {
+    const form = validateForm(
+      taskForm,
+      formData([
+        ['title', ''],
+        ['priority', 'soon'],
+        ['due_at', '2025-02-30'],
+      ])
+    );
+    expect(form).toEqual({
+      ok: false,
+      errors: {
+        title: 'Title is required',
+        priority: 'Priority must be one of low, normal, high, urgent',
+        due_at: 'Due date is not a valid date',
+      },
+      input: { title: '', priority: 'soon', due_at: '2025-02-30' },
+    });
+  });
+});
+
+describe('fail', () => {
+  test('adds errors found after validation to those the form has', () => {
+    const schema = { title: text('Title', { required: true }), category_id: id('Category') };
+    const valid = validateRecord(schema, { title: 'Paint', category_id: '9' });
+    expect(fail(valid, { category_id: 'Selected category does not exist' })).toEqual({
+      ok: false,
+      errors: { category_id: 'Selected category does not exist' },
+      input: { title: 'Paint', category_id: '9' },
+    });
+
+    const invalid = validateRecord(schema, { category_id: '9' });
+    expect(fail(invalid, { category_id: 'Selected category does not exist' })).toMatchObject({
+      errors: { title: 'Title is required', category_id: 'Selected category does not exist' },
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { parseDateTime, isId } from './utils';
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * One form field: turns the raw submitted value into a typed value or an error message.
+ */
+export interface Field<T> {
+  parse(raw: string | null): { value: T } | { error: string };
+}
+
+export type FormSchema = Record<string, Field<unknown>>;
+
+export type FormValues<S extends FormSchema> = { [K in keyof S]: S[K] extends Field<infer T> ? T : never };
+
+/**
+ * Outcome of validating a form. `input` always holds the raw submitted strings, so a form that
+ * failed validation can be rendered again with what the user typed.
+ */
+export type FormResult<S extends FormSchema> =
+  | { ok: true; values: FormValues<S>; input: Record<string, string> }
+  | { ok: false; errors: FieldErrors; input: Record<string, string> };
+
+// What the user submitted in a form that failed validation, so it can be shown again
+export interface FormState {
+  input: Record<string, string>;
+  errors: FieldErrors;
+}
+
+/**
+ * A text field. Surrounding whitespace is trimmed, so a whitespace-only value counts as empty.
+ */
+export function text(label: string, options: { required?: boolean; maxLength?: number } = {}): Field<string> {
+  return {
+    parse(raw) {
+      const value = (raw ?? '').trim();
+      if (options.required && value === '') {
+        return { error: `${label} is required` };
+      }
+      if (options.maxLength !== undefined && value.length > options.maxLength) {
+        return { error: `${label} must be at most ${options.maxLength} characters` };
+      }
+      return { value };
+    },
+  };
+}
+
+/**
+ * A select or hidden field holding the id of another record.
+ */
+export function id(label: string, options: { required: true }): Field<number>;
+export function id(label: string, options?: { required?: false }): Field<number | null>;
+export function id(label: string, options: { required?: boolean } = {}): Field<number | null> {
+  return {
+    parse(raw) {
+      const value = (raw ?? '').trim();
+      if (value === '') {
+        return options.required ? { error: `${label} is required` } : { value: null };
+      }
+      if (!/^\d+$/.test(value) || !isId(Number(value))) {
+        return { error: `${label} is not valid` };
+      }
+      return { value: Number(value) };
+    },
+  };
+}
+
+/**
+ * An optional number field holding a whole number between `min` and `max`.
+ */
+export function integer(label: string, options: { min: number; max: number }): Field<number | null> {
+  return {
+    parse(raw) {
+      const value = (raw ?? '').trim();
+      if (value === '') {
+        return { value: null };
+      }
+      const number = Number(value);
+      return /^\d+$/.test(value) && number >= options.min && number <= options.max
+        ? { value: number }
+        : { error: `${label} must be a whole number from ${options.min} to ${options.max}` };
+    },
+  };
+}
+
+/**
+ * A group of checkboxes sharing a name, each holding a whole number between `min` and `max`.
+ */
+export function integerList(label: string, options: { min: number; max: number }): Field<number[]> {
+  return {
+    parse(raw) {
+      const values = (raw ?? '').split(',').filter((value) => value !== '');
+      const numbers = [...new Set(values.map(Number))];
+      return values.every((value) => /^\d+$/.test(value)) &&
+        numbers.every((number) => number >= options.min && number <= options.max)
+        ? { value: numbers.sort((a, b) => a - b) }
+        : { error: `${label} is not valid` };
+    },
+  };
+}
+
+/**
+ * A select field that must hold one of a fixed set of values. Missing values fall back to `fallback`,
+ * or are an error without one.
+ */
+export function choice<T extends string>(label: string, values: readonly T[], fallback?: T): Field<T> {
+  return {
+    parse(raw) {
+      if (raw === null || raw === '') {
+        return fallback === undefined ? { error: `${label} is required` } : { value: fallback };
+      }
+      return values.includes(raw as T)
+        ? { value: raw as T }
+        : { error: `${label} must be one of ${values.join(', ')}` };
+    },
+  };
+}
+
+/**
+ * An optional `date` or `datetime-local` field, parsed into a Postgres timestamp string.
+ */
+export function dateTime(label: string): Field<string | null> {
+  return {
+    parse(raw) {
+      const value = (raw ?? '').trim();
+      if (value === '') {
+        return { value: null };
+      }
+      const timestamp = parseDateTime(value);
+      return timestamp ? { value: timestamp } : { error: `${label} is not a valid date` };
+    },
+  };
+}
+
+/**
+ * A checkbox, which browsers only submit when it is checked.
+ */
+export function checkbox(): Field<boolean> {
+  return {
+    parse(raw) {
+      return { value: raw !== null };
+    },
+  };
+}
+
+/**
+ * A comma-separated list of tag names. Names are trimmed, empty ones are dropped and names that only
+ * differ in case are kept once.
+ */
+export function tagList(label: string, options: { maxLength: number; maxCount: number }): Field<string[]> {
+  return {
+    parse(raw) {
+      const names = new Map<string, string>();
+      for (const part of (raw ?? '').split(',')) {
+        const name = part.trim();
+        if (name.length > options.maxLength) {
+          return { error: `Each of the ${label.toLowerCase()} must be at most ${options.maxLength} characters` };
+        }
+        if (name && !names.has(name.toLowerCase())) {
+          names.set(name.toLowerCase(), name);
+        }
+      }
+      if (names.size > options.maxCount) {
+        return { error: `${label} can hold at most ${options.maxCount} names` };
+      }
+      return { value: [...names.values()] };
+    },
+  };
+}
+
+/**
+ * A yes/no value in an imported file: `true`/`false`, `yes`/`no` or `1`/`0`. Empty means no.
+ */
+export function flag(label: string): Field<boolean> {
+  return {
+    parse(raw) {
+      const value = (raw ?? '').trim().toLowerCase();
+      if (['', 'false', 'no', '0'].includes(value)) {
+        return { value: false };
+      }
+      return ['true', 'yes', '1'].includes(value) ? { value: true } : { error: `${label} must be true or false` };
+    },
+  };
+}
+
+/**
+ * Validates submitted form data against a schema, collecting an error message per invalid field.
+ * Fields submitted more than once, like a group of checkboxes, are joined with commas.
+ */
+export function validateForm<S extends FormSchema>(schema: S, formData: FormData): FormResult<S> {
+  const record: Record<string, string | null> = {};
+  for (const name of Object.keys(schema)) {
+    const raw = formData.getAll(name).filter((value) => typeof value === 'string');
+    record[name] = raw.length > 0 ? raw.join(',') : null;
+  }
+  return validateRecord(schema, record);
+}
+
+/**
+ * Validates a record of raw string values, such as a row of an imported file, against a schema.
+ */
+export function validateRecord<S extends FormSchema>(
+  schema: S,
+  record: Record<string, string | null | undefined>
+): FormResult<S> {
+  const values: Record<string, unknown> = {};
+  const errors: FieldErrors = {};
+  const input: Record<string, string> = {};
+
+  for (const [name, field] of Object.entries(schema)) {
+    const value = record[name] ?? null;
+    if (value !== null) {
+      input[name] = value;
+    }
+
+    const result = field.parse(value);
+    if ('error' in result) {
+      errors[name] = result.error;
+    } else {
+      values[name] = result.value;
+    }
+  }
+
+  return Object.keys(errors).length > 0
+    ? { ok: false, errors, input }
+    : { ok: true, values: values as FormValues<S>, input };
+}
+
+/**
+ * Fails a form with errors found after validation, such as a selected category that does not
+ * exist. Errors the form already had are kept.
+ */
+export function fail<S extends FormSchema>(form: FormResult<S>, errors: FieldErrors): FormResult<S> {
+  return { ok: false, errors: { ...(form.ok ? {} : form.errors), ...errors }, input: form.input };
+}
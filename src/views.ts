@@ -0,0 +1,1194 @@
+import { taskPriorities, TRASH_RETENTION_DAYS } from './db';
+import type { NestedTask, Category, Tag, TaskTag, TaskPriority, ActivityEntry } from './db';
+import { withReturnTo, toDateTimeLocal } from './utils';
+import { parseTaskQueryFromPath, taskQueryString, defaultTaskQuery, TASKS_PER_PAGE } from './task-query';
+import type { TaskQuery } from './task-query';
+import { activityQueryString, activityActions, describeActivity, ACTIVITY_PER_PAGE } from './activity-query';
+import type { ImportRowNote } from './import';
+import { describeRecurrence, recurrenceInput, weekdayNames } from './recurrence';
+import { isAdmin } from './auth';
+import { CSRF_FIELD } from './csrf';
+import type { CsrfFailure } from './csrf';
+import type { FieldErrors, FormState } from './validation';
+import type { MigrationMode } from './config';
+import type { PageContext, Views } from './app';
+
+// Markup that `html` puts into a page as it is, unlike plain strings
+class Html {
+  constructor(readonly value: string) {}
+}
+
+type Value = Html | string | number | false | null | undefined | Value[];
+
+const entities: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+
+function toMarkup(value: Value): string {
+  if (value instanceof Html) return value.value;
+  if (Array.isArray(value)) return value.map(toMarkup).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return String(value).replace(/[&<>"']/g, (char) => entities[char]);
+}
+
+/**
+ * Template tag for markup. Strings and numbers are escaped, markup from other `html` templates is put
+ * in as it is, lists are joined, and `null`, `undefined` and `false` leave nothing.
+ */
+function html(strings: TemplateStringsArray, ...values: Value[]): Html {
+  return new Html(strings.reduce((markup, string, i) => markup + toMarkup(values[i - 1]) + string));
+}
+
+/**
+ * A form that posts to the app. It carries the CSRF token, without which `csrfProtection` rejects it.
+ */
+function postForm(csrfToken: string, attributes: Html, content: Html): Html {
+  return html`<form ${attributes} method="post">
+    <input type="hidden" name="${CSRF_FIELD}" value="${csrfToken}" />
+    ${content}
+  </form>`;
+}
+
+// A submit button that asks before its form is sent
+function confirmButton(label: string, message: string): Html {
+  return html`<button type="submit" onclick="${`return confirm(${JSON.stringify(message)})`}">${label}</button>`;
+}
+
+function renderPage({ user, csrfToken }: PageContext, content: Html): string {
+  return html`<!DOCTYPE html>
+    <html>
+      <head>
+        <title>Task Manager</title>
+      </head>
+      <body>
+        ${
+          user &&
+          html`<div style="display: flex; gap: 8px; align-items: center; justify-content: flex-end;">
+            <a href="/">Tasks</a>
+            <a href="/trash">Trash</a>
+            <a href="/activity">Activity</a>
+            <a href="/import">Import</a>
+            <a href="/calendar">Calendar</a>
+            ${isAdmin(user) && html`<a href="/admin/migrations">Migrations</a>`}
+            <span>Signed in as ${user.email}</span>
+            ${postForm(csrfToken, html`action="/logout" style="margin: 0;"`, html`<button type="submit">Log out</button>`)}
+          </div>`
+        }
+        <div style="display: flex; gap: 40px;">${content}</div>
+      </body>
+    </html>`.value;
+}
+
+// Hidden field that tells the form routes where to redirect back to
+function returnToField(path: string): Html {
+  return html`<input type="hidden" name="return_to" value="${path}" />`;
+}
+
+function fieldError(error?: string): Html | null {
+  return error ? html`<div style="color: #b00020; font-size: 0.9em;">${error}</div>` : null;
+}
+
+function selected(condition: boolean): string {
+  return condition ? 'selected' : '';
+}
+
+function checked(condition: boolean): string {
+  return condition ? 'checked' : '';
+}
+
+const csrfMessages: Record<CsrfFailure, string> = {
+  'cross-origin': 'The form was sent from another website.',
+  'unknown-origin': 'The browser did not say which website the form was sent from.',
+  'missing-token': 'The form did not include its security token.',
+  'invalid-token':
+    'The security token of the form has expired, for example because you signed in or out since opening it.',
+};
+
+function renderAuthForm(
+  csrfToken: string,
+  { mode, email, error, returnTo }: { mode: 'login' | 'register'; email: string; error?: string; returnTo: string }
+): Html {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+      <input type="email" name="email" value="${email}" placeholder="Email" required style="padding: 4px 8px;" />
+      <input
+        type="password"
+        name="password"
+        placeholder="Password"
+        required${mode === 'register' ? ' minlength="8"' : ''}
+        style="padding: 4px 8px;" />
+      <button type="submit">${mode === 'login' ? 'Log in' : 'Register'}</button>
+    </div>`;
+  return html`<div class="auth-form">
+    <h2>${mode === 'login' ? 'Log in' : 'Create an account'}</h2>
+    ${error && html`<p style="color: #b00020;">${error}</p>`}
+    ${postForm(csrfToken, html`action="/${mode}" style="margin: 20px 0;"`, fields)}
+    ${
+      mode === 'login'
+        ? html`<p>No account yet? <a href="${withReturnTo('/register', returnTo)}">Register</a></p>`
+        : html`<p>Already registered? <a href="${withReturnTo('/login', returnTo)}">Log in</a></p>`
+    }
+  </div>`;
+}
+
+function renderCategoryForm(csrfToken: string, { returnTo, form }: { returnTo: string; form?: FormState }): Html {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="name"
+          value="${form?.input.name}"
+          placeholder="Category name"
+          required
+          maxlength="100"
+          style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.name)}
+      </div>
+      <button type="submit">Add Category</button>
+    </div>`;
+  return postForm(csrfToken, html`action="/categories" class="category-form" style="margin: 20px 0;"`, fields);
+}
+
+function renderCategoryRow({ category, returnTo }: { category: Category; returnTo: string }): Html {
+  return html`<tr data-key="${category.id}">
+    <td style="padding: 8px;">${category.id}</td>
+    <td style="padding: 8px;">${category.name}</td>
+    <td style="padding: 8px;">
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <a href="${withReturnTo(`/categories/${category.id}/edit`, returnTo)}">Edit</a>
+        <a href="${withReturnTo(`/categories/${category.id}/delete`, returnTo)}">Delete</a>
+      </div>
+    </td>
+  </tr>`;
+}
+
+// Takes the place of the rows of a table without any
+function emptyRow(colspan: number, text: string): Html {
+  return html`<tr data-key="empty">
+    <td colspan="${colspan}" style="padding: 8px; text-align: center;">${text}</td>
+  </tr>`;
+}
+
+function renderCategories(
+  csrfToken: string,
+  { categories, returnTo, form }: { categories: Category[]; returnTo: string; form?: FormState }
+): Html {
+  return html`<div class="categories-table">
+    <h2>Categories</h2>
+    ${renderCategoryForm(csrfToken, { returnTo, form })}
+    <table style="border-collapse: collapse; border: 1px solid black;">
+      <thead>
+        <tr>
+          <th style="padding: 8px;">ID</th>
+          <th style="padding: 8px;">Name</th>
+          <th style="padding: 8px;">Actions</th>
+        </tr>
+      </thead>
+      <tbody data-live="categories">
+        ${
+          categories.length === 0
+            ? emptyRow(3, 'No categories found')
+            : categories.map((category) => renderCategoryRow({ category, returnTo }))
+        }
+      </tbody>
+    </table>
+  </div>`;
+}
+
+// Links to the task list filtered by the tag
+function tagChip(tag: TaskTag): Html {
+  return html`<a
+    href="/${taskQueryString(defaultTaskQuery, { tagId: tag.id })}"
+    class="tag"
+    style="display: inline-block; padding: 0 8px; border-radius: 10px; background: #e3e8f4; color: #223; font-size: 0.85em; text-decoration: none;"
+    >${tag.name}</a
+  >`;
+}
+
+function renderTags(csrfToken: string, { tags, returnTo }: { tags: Tag[]; returnTo: string }): Html {
+  const row = (tag: Tag) =>
+    html`<tr data-key="${tag.id}">
+      <td style="padding: 8px;">${tag.id}</td>
+      <td style="padding: 8px;">${tagChip(tag)}</td>
+      <td style="padding: 8px;">${tag.taskCount}</td>
+      <td style="padding: 8px;">
+        <div style="display: flex; gap: 8px; align-items: center;">
+          <a href="${withReturnTo(`/tags/${tag.id}/edit`, returnTo)}">Rename</a>
+          ${postForm(
+            csrfToken,
+            html`action="/tags/${tag.id}/delete" style="margin: 0;"`,
+            html`${returnToField(returnTo)}
+            ${confirmButton('Delete', `Delete the tag "${tag.name}"? It is taken off every task.`)}`
+          )}
+        </div>
+      </td>
+    </tr>`;
+  return html`<div class="tags-table">
+    <h2>Tags</h2>
+    <p>Tags are created by adding them to a task.</p>
+    <table style="border-collapse: collapse; border: 1px solid black;">
+      <thead>
+        <tr>
+          <th style="padding: 8px;">ID</th>
+          <th style="padding: 8px;">Name</th>
+          <th style="padding: 8px;">Tasks</th>
+          <th style="padding: 8px;">Actions</th>
+        </tr>
+      </thead>
+      <tbody data-live="tags">
+        ${tags.length === 0 ? emptyRow(4, 'No tags found') : tags.map(row)}
+      </tbody>
+    </table>
+  </div>`;
+}
+
+// Comma-separated tag names, with the existing tags as suggestions
+function tagInput(tags: Tag[], value?: string): Html {
+  return html`<input
+      type="text"
+      name="tags"
+      value="${value}"
+      list="tag-names"
+      placeholder="Tags, comma-separated"
+      style="padding: 4px 8px;" />
+    <datalist id="tag-names">${tags.map((tag) => html`<option value="${tag.name}"></option>`)}</datalist>`;
+}
+
+function prioritySelect(value: TaskPriority): Html {
+  return html`<select name="priority" style="padding: 4px 8px;">
+    ${taskPriorities.map(
+      (priority) =>
+        html`<option value="${priority}" ${selected(priority === value)}>
+          ${priority[0].toUpperCase() + priority.slice(1)}
+        </option>`
+    )}
+  </select>`;
+}
+
+function categorySelect(categories: Category[], value: string | undefined, emptyLabel: string): Html {
+  return html`<select name="category_id" style="padding: 4px 8px;">
+    <option value="">${emptyLabel}</option>
+    ${categories.map(
+      (category) =>
+        html`<option value="${category.id}" ${selected(value === String(category.id))}>${category.name}</option>`
+    )}
+  </select>`;
+}
+
+/**
+ * Select for the parent of a task, listing the other tasks as an indented tree. When editing a task,
+ * the task itself and its subtasks are left out since they cannot become its parent.
+ */
+function parentSelect(tasks: NestedTask[], value?: string, exclude?: number): Html {
+  let skipBelow: number | null = null;
+  const options = tasks.filter((task) => {
+    if (skipBelow !== null && task.depth > skipBelow) return false;
+    skipBelow = task.id === exclude ? task.depth : null;
+    return skipBelow === null;
+  });
+  return html`<select name="parent_id" style="padding: 4px 8px;">
+    <option value="">No parent task</option>
+    ${options.map(
+      (task) =>
+        html`<option value="${task.id}" ${selected(value === String(task.id))}>
+          ${'\u00a0\u00a0'.repeat(task.depth) + task.title}
+        </option>`
+    )}
+  </select>`;
+}
+
+const repeatOptions = [
+  ['daily', 'Daily'],
+  ['weekly', 'Weekly on the days below'],
+  ['monthly', 'Monthly on the day below'],
+  ['interval', 'Every number of days below'],
+];
+
+/**
+ * The repeat fields of the task forms. Only the fields of the chosen frequency are used.
+ */
+function repeatFields(input: Record<string, string>, errors?: FieldErrors): Html {
+  const weekdays = (input.repeat_weekdays ?? '').split(',');
+  return html`<details${input.repeat && input.repeat !== 'none' ? ' open' : ''}>
+    <summary>Repeat</summary>
+    <div style="display: flex; flex-direction: column; gap: 4px; margin-top: 4px;">
+      <select name="repeat" style="padding: 4px 8px;">
+        <option value="none">Does not repeat</option>
+        ${repeatOptions.map(
+          ([value, label]) => html`<option value="${value}" ${selected(input.repeat === value)}>${label}</option>`
+        )}
+      </select>
+      <div>
+        ${weekdayNames.map(
+          (name, weekday) =>
+            html`<label style="margin-right: 6px;"
+              ><input
+                type="checkbox"
+                name="repeat_weekdays"
+                value="${weekday}"
+                ${checked(weekdays.includes(String(weekday)))} />${name}</label
+            >`
+        )}
+        ${fieldError(errors?.repeat_weekdays)}
+      </div>
+      <label>
+        Day of month
+        <input type="number" name="repeat_day" value="${input.repeat_day}" min="1" max="31" style="width: 4em;">
+        ${fieldError(errors?.repeat_day)}
+      </label>
+      <label>
+        Every
+        <input type="number" name="repeat_every" value="${input.repeat_every}" min="1" max="365" style="width: 4em;">
+        days
+        ${fieldError(errors?.repeat_every)}
+      </label>
+    </div>
+  </details>`;
+}
+
+const statusOptions = [
+  ['open', 'Open'],
+  ['done', 'Done'],
+];
+const dueOptions = [
+  ['overdue', 'Overdue'],
+  ['today', 'Due today'],
+  ['week', 'Due this week'],
+];
+const sortOptions = [
+  ['title', 'Sort by title'],
+  ['status', 'Sort by status'],
+  ['category', 'Sort by category'],
+  ['due', 'Sort by due date'],
+  ['priority', 'Sort by priority'],
+  ['position', 'Manual order'],
+];
+
+function options(choices: string[][], value: string): Html[] {
+  return choices.map(
+    ([choice, label]) => html`<option value="${choice}" ${selected(value === choice)}>${label}</option>`
+  );
+}
+
+function taskFilters(query: TaskQuery, categories: Category[], tags: Tag[]): Html {
+  return html`<form action="/" method="get" style="margin: 20px 0;">
+    <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+      <input type="search" name="q" value="${query.search}" placeholder="Search titles" style="padding: 4px 8px;" />
+      <select name="category" style="padding: 4px 8px;">
+        <option value="">All categories</option>
+        <option value="none" ${selected(query.categoryId === 'none')}>No category</option>
+        ${categories.map(
+          (category) =>
+            html`<option value="${category.id}" ${selected(query.categoryId === category.id)}>${category.name}</option>`
+        )}
+      </select>
+      <select name="tag" style="padding: 4px 8px;">
+        <option value="">All tags</option>
+        ${tags.map((tag) => html`<option value="${tag.id}" ${selected(query.tagId === tag.id)}>${tag.name}</option>`)}
+      </select>
+      <select name="status" style="padding: 4px 8px;">
+        <option value="all">All</option>
+        ${options(statusOptions, query.status)}
+      </select>
+      <select name="due" style="padding: 4px 8px;">
+        <option value="any">Any due date</option>
+        ${options(dueOptions, query.due)}
+      </select>
+      <select name="sort" style="padding: 4px 8px;">
+        <option value="created">Sort by created</option>
+        ${options(sortOptions, query.sort)}
+      </select>
+      <select name="dir" style="padding: 4px 8px;">
+        <option value="desc">Descending</option>
+        <option value="asc" ${selected(query.dir === 'asc')}>Ascending</option>
+      </select>
+      <button type="submit">Filter</button>
+      <a href="/">Reset</a>
+    </div>
+  </form>`;
+}
+
+function pagination(query: TaskQuery, total: number): Html {
+  const pages = Math.max(1, Math.ceil(total / TASKS_PER_PAGE));
+  return html`<div data-live="pagination" style="display: flex; gap: 16px; align-items: center; margin: 12px 0;">
+    ${query.page > 1 ? html`<a href="/${taskQueryString(query, { page: query.page - 1 })}">« Previous</a>` : html`<span></span>`}
+    <span>Page ${query.page} of ${pages} (${total} ${total === 1 ? 'task' : 'tasks'})</span>
+    ${query.page < pages ? html`<a href="/${taskQueryString(query, { page: query.page + 1 })}">Next »</a>` : html`<span></span>`}
+  </div>`;
+}
+
+function renderTaskForm(
+  csrfToken: string,
+  {
+    parents,
+    categories,
+    tags,
+    returnTo,
+    form,
+  }: { parents: NestedTask[]; categories: Category[]; tags: Tag[]; returnTo: string; form?: FormState }
+): Html {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="title"
+          value="${form?.input.title}"
+          placeholder="Task title"
+          required
+          style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.title)}
+      </div>
+      <div>
+        ${categorySelect(categories, form?.input.category_id, 'No category')} ${fieldError(form?.errors.category_id)}
+      </div>
+      <div>
+        <input
+          type="datetime-local"
+          name="due_at"
+          value="${form?.input.due_at}"
+          title="Due date"
+          style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.due_at)}
+      </div>
+      <div>
+        ${prioritySelect((form?.input.priority as TaskPriority) ?? 'normal')} ${fieldError(form?.errors.priority)}
+      </div>
+      <div>${parentSelect(parents, form?.input.parent_id)} ${fieldError(form?.errors.parent_id)}</div>
+      <div>${tagInput(tags, form?.input.tags)} ${fieldError(form?.errors.tags)}</div>
+      ${repeatFields(form?.input ?? {}, form?.errors)}
+      <button type="submit">Add Task</button>
+    </div>`;
+  return postForm(csrfToken, html`action="/tasks" class="task-form" style="margin: 20px 0;"`, fields);
+}
+
+/**
+ * A row of the task list. When the list is in the manual order, the row has buttons to move the
+ * task up or down.
+ */
+function renderTaskRow(csrfToken: string, { task, returnTo }: { task: NestedTask; returnTo: string }): Html {
+  const manualOrder = parseTaskQueryFromPath(returnTo).sort === 'position';
+  const toggle = html` ${returnToField(returnTo)}
+    <input type="checkbox" ${checked(task.done)} onchange="this.form.submit()" />
+    <noscript><button type="submit">${task.done ? 'Reopen' : 'Done'}</button></noscript>`;
+  const move = html` ${returnToField(returnTo)}
+    <button type="submit" name="direction" value="up" title="Move up">↑</button>
+    <button type="submit" name="direction" value="down" title="Move down">↓</button>`;
+  const post = (action: string, content: Html) =>
+    postForm(csrfToken, html`action="/tasks/${task.id}/${action}" style="margin: 0;"`, content);
+  return html`<tr
+    data-key="${task.id}"
+    data-parent="${task.parentId ?? ''}"
+    data-category="${task.categoryId ?? ''}"
+    data-depth="${task.depth}"
+    ${task.overdue ? html` class="overdue" style="background: #fde2e2;"` : ''}>
+    <td style="padding: 8px;">
+      <label
+        ><input type="checkbox" name="ids" value="${task.id}" form="bulk-tasks" title="Select for bulk actions" />
+        ${task.id}</label
+      >
+    </td>
+    <td style="padding: 8px; padding-left: ${8 + task.depth * 24}px;">
+      ${task.depth > 0 && '↳ '}${task.title}
+      ${task.subtaskCount > 0 && html`<small style="color: #555;"> (${task.subtasksDone}/${task.subtaskCount} done)</small>`}
+      ${task.tags.map((tag) => html` ${tagChip(tag)}`)}
+      ${task.recurrence && html`<div><small style="color: #555;">↻ ${describeRecurrence(task.recurrence)}</small></div>`}
+    </td>
+    <td style="padding: 8px;">${post('toggle', toggle)}</td>
+    <td style="padding: 8px;">${task.priority}</td>
+    <td style="padding: 8px;">${task.categoryName || '-'}</td>
+    <td style="padding: 8px;">
+      ${task.dueAt ? new Date(task.dueAt).toLocaleString() : '-'}
+      ${task.overdue && html`<strong style="color: #b00020;"> (overdue)</strong>`}
+    </td>
+    <td style="padding: 8px;">${new Date(task.createdAt).toLocaleString()}</td>
+    <td style="padding: 8px;">
+      <div style="display: flex; gap: 8px; align-items: center;">
+        ${manualOrder && postForm(csrfToken, html`action="/tasks/${task.id}/move" class="move-task" style="margin: 0;"`, move)}
+        <a href="${withReturnTo(`/tasks/${task.id}/edit`, returnTo)}">Edit</a>
+        ${task.recurrence && post('stop-repeating', html`${returnToField(returnTo)}<button type="submit">Stop repeating</button>`)}
+        ${
+          // Tasks with subtasks ask what should happen to them first
+          task.subtaskCount > 0
+            ? html`<a href="${withReturnTo(`/tasks/${task.id}/delete`, returnTo)}">Delete</a>`
+            : post(
+                'delete',
+                html`${returnToField(returnTo)}${confirmButton('Delete', `Move "${task.title}" to the trash?`)}`
+              )
+        }
+      </div>
+    </td>
+  </tr>`;
+}
+
+const bulkActionOptions = [
+  ['open', 'Mark open'],
+  ['move', 'Move to category'],
+  ['delete', 'Move to trash, with subtasks'],
+];
+
+/**
+ * Actions for the tasks selected with the checkboxes of the task list, or for all tasks matching its filters.
+ */
+function bulkActions(csrfToken: string, categories: Category[], returnTo: string, form?: FormState): Html {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: flex-start; flex-wrap: wrap;">
+      <span>Selected tasks:</span>
+      <div>
+        <select name="action" style="padding: 4px 8px;">
+          <option value="done">Mark done</option>
+          ${options(bulkActionOptions, form?.input.action ?? '')}
+        </select>
+        ${fieldError(form?.errors.action ?? form?.errors.ids)}
+      </div>
+      <div>
+        ${categorySelect(categories, form?.input.category_id, 'Category to move to')}
+        ${fieldError(form?.errors.category_id)}
+      </div>
+      <label><input type="checkbox" name="all" ${checked(!!form?.input.all)} /> All tasks matching the filters</label>
+      <button type="submit">Apply</button>
+    </div>`;
+  return postForm(csrfToken, html`action="/tasks/bulk" id="bulk-tasks" style="margin: 12px 0;"`, fields);
+}
+
+function renderHome(page: PageContext, data: Parameters<Views['home']>[1]): string {
+  const { tasks, total, parents, categories, tags, query, forms, notice, lastActivityId } = data;
+  const { csrfToken } = page;
+  const returnTo = `/${taskQueryString(query)}`;
+  return renderPage(
+    page,
+    html`<div>
+      ${notice && html`<p role="status">${notice}</p>`}
+      ${renderCategories(csrfToken, { categories, returnTo, form: forms.category })}
+      ${renderTags(csrfToken, { tags, returnTo })}
+      <div class="tasks-table">
+        <h2>Tasks</h2>
+        ${renderTaskForm(csrfToken, { parents, categories, tags, returnTo, form: forms.task })}
+        ${taskFilters(query, categories, tags)}
+        <p>
+          Export these tasks as <a href="/export/tasks.csv${taskQueryString(query, { page: 1 })}">CSV</a> or
+          <a href="/export/tasks.json${taskQueryString(query, { page: 1 })}">JSON</a>
+        </p>
+        ${bulkActions(csrfToken, categories, returnTo, forms.bulk)}
+        <table style="border-collapse: collapse; border: 1px solid black;">
+          <thead>
+            <tr>
+              <th style="padding: 8px;">ID</th>
+              <th style="padding: 8px;">Title</th>
+              <th style="padding: 8px;">Status</th>
+              <th style="padding: 8px;">Priority</th>
+              <th style="padding: 8px;">Category</th>
+              <th style="padding: 8px;">Due</th>
+              <th style="padding: 8px;">Created At</th>
+              <th style="padding: 8px;">Actions</th>
+            </tr>
+          </thead>
+          <tbody data-live="tasks">
+            ${
+              tasks.length === 0
+                ? emptyRow(8, 'No tasks found')
+                : tasks.map((task) => renderTaskRow(csrfToken, { task, returnTo }))
+            }
+          </tbody>
+        </table>
+        ${pagination(query, total)}
+      </div>
+      <script src="/assets/live.js" data-events="/events?after=${lastActivityId}" defer></script>
+    </div>`
+  );
+}
+
+function activityTable(entries: ActivityEntry[]): Html {
+  const row = (entry: ActivityEntry) =>
+    html`<tr>
+      <td style="padding: 8px;">${new Date(entry.createdAt).toLocaleString()}</td>
+      <td style="padding: 8px;">${entry.userEmail}</td>
+      <td style="padding: 8px;">
+        ${
+          entry.entity === 'task'
+            ? html`<a href="/tasks/${entry.entityId}/edit">Task #${entry.entityId}</a>`
+            : `Category #${entry.entityId}`
+        }
+      </td>
+      <td style="padding: 8px;">${entry.action}</td>
+      <td style="padding: 8px;">${describeActivity(entry).map((change) => html`<div>${change}</div>`)}</td>
+    </tr>`;
+  return html`<table style="border-collapse: collapse; border: 1px solid black;">
+    <thead>
+      <tr>
+        <th style="padding: 8px;">When</th>
+        <th style="padding: 8px;">Who</th>
+        <th style="padding: 8px;">Item</th>
+        <th style="padding: 8px;">Action</th>
+        <th style="padding: 8px;">Changes</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${
+        entries.length === 0
+          ? html`<tr>
+              <td colspan="5" style="padding: 8px; text-align: center;">No activity found</td>
+            </tr>`
+          : entries.map(row)
+      }
+    </tbody>
+  </table>`;
+}
+
+function renderEditTask(page: PageContext, data: Parameters<Views['editTask']>[1]): string {
+  const { task, categories, parents, tags, history, returnTo, form } = data;
+  // After a failed submit, show what the user entered rather than the stored task
+  const values: Record<string, string> = form
+    ? form.input
+    : {
+        title: task.title,
+        category_id: String(task.categoryId ?? ''),
+        due_at: toDateTimeLocal(task.dueAt),
+        priority: task.priority,
+        parent_id: String(task.parentId ?? ''),
+        tags: task.tags.map((tag) => tag.name).join(', '),
+        ...recurrenceInput(task.recurrence),
+      };
+  // Unticked checkboxes are not submitted at all
+  const done = form ? 'done' in form.input : task.done;
+  const completeWithSubtasks = form ? 'complete_with_subtasks' in form.input : task.completeWithSubtasks;
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+      <div>
+        <input type="text" name="title" value="${values.title}" required style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.title)}
+      </div>
+      <div>
+        ${categorySelect(categories, values.category_id, 'No category')} ${fieldError(form?.errors.category_id)}
+      </div>
+      <div>
+        <label
+          >Due <input type="datetime-local" name="due_at" value="${values.due_at}" style="padding: 4px 8px;"
+        /></label>
+        ${fieldError(form?.errors.due_at)}
+      </div>
+      <div>
+        <label>Priority ${prioritySelect((values.priority as TaskPriority) ?? 'normal')}</label>
+        ${fieldError(form?.errors.priority)}
+      </div>
+      <div>
+        <label>Subtask of ${parentSelect(parents, values.parent_id, task.id)}</label>
+        ${fieldError(form?.errors.parent_id)}
+      </div>
+      <div>
+        <label>Tags ${tagInput(tags, values.tags)}</label>
+        ${fieldError(form?.errors.tags)}
+      </div>
+      ${repeatFields(values, form?.errors)}
+      <label><input type="checkbox" name="done" ${checked(done)} /> Done</label>
+      <label>
+        <input type="checkbox" name="complete_with_subtasks" ${checked(completeWithSubtasks)} /> Mark as done when all
+        subtasks are done
+      </label>
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <button type="submit">Save</button>
+        <a href="${returnTo}">Cancel</a>
+      </div>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="edit-task">
+      <h2>Edit Task #${task.id}</h2>
+      ${postForm(page.csrfToken, html`action="/tasks/${task.id}/update" style="margin: 20px 0;"`, fields)}
+      <h3>History</h3>
+      ${activityTable(history)}
+    </div>`
+  );
+}
+
+function renderActivity(page: PageContext, { entries, query, total }: Parameters<Views['activity']>[1]): string {
+  const pages = Math.max(1, Math.ceil(total / ACTIVITY_PER_PAGE));
+  return renderPage(
+    page,
+    html`<div class="activity">
+      <h2>Activity</h2>
+      <form action="/activity" method="get" style="margin: 20px 0;">
+        <div style="display: flex; gap: 8px; align-items: center; flex-wrap: wrap;">
+          <select name="entity" style="padding: 4px 8px;">
+            <option value="">Tasks and categories</option>
+            <option value="task" ${selected(query.entity === 'task')}>Tasks</option>
+            <option value="category" ${selected(query.entity === 'category')}>Categories</option>
+          </select>
+          <select name="action" style="padding: 4px 8px;">
+            <option value="">All actions</option>
+            ${activityActions.map(
+              (action) => html`<option value="${action}" ${selected(query.action === action)}>${action}</option>`
+            )}
+          </select>
+          <label>From <input type="date" name="from" value="${query.from ?? ''}" style="padding: 4px 8px;" /></label>
+          <label>To <input type="date" name="to" value="${query.to ?? ''}" style="padding: 4px 8px;" /></label>
+          <button type="submit">Filter</button>
+          <a href="/activity">Reset</a>
+        </div>
+      </form>
+      ${activityTable(entries)}
+      <div style="display: flex; gap: 16px; align-items: center; margin: 12px 0;">
+        ${
+          query.page > 1
+            ? html`<a href="/activity${activityQueryString(query, { page: query.page - 1 })}">« Previous</a>`
+            : html`<span></span>`
+        }
+        <span>Page ${query.page} of ${pages} (${total} ${total === 1 ? 'entry' : 'entries'})</span>
+        ${
+          query.page < pages
+            ? html`<a href="/activity${activityQueryString(query, { page: query.page + 1 })}">Next »</a>`
+            : html`<span></span>`
+        }
+      </div>
+    </div>`
+  );
+}
+
+function renderEditCategory(page: PageContext, data: Parameters<Views['editCategory']>[1]): string {
+  const { category, categories, returnTo, form } = data;
+  const rename = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="name"
+          value="${form ? form.input.name : category.name}"
+          required
+          maxlength="100"
+          style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.name)}
+      </div>
+      <button type="submit">Rename</button>
+    </div>`;
+  const merge = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: center;">
+      <select name="target_id" required style="padding: 4px 8px;">
+        <option value="">Select a category</option>
+        ${categories
+          .filter((other) => other.id !== category.id)
+          .map((other) => html`<option value="${other.id}">${other.name}</option>`)}
+      </select>
+      <button type="submit">Merge</button>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="edit-category">
+      <h2>Edit Category #${category.id}</h2>
+      ${postForm(page.csrfToken, html`action="/categories/${category.id}/rename" style="margin: 20px 0;"`, rename)}
+      <h3>Merge into another category</h3>
+      <p>All tasks of "${category.name}" move to the chosen category, then "${category.name}" is removed.</p>
+      ${postForm(page.csrfToken, html`action="/categories/${category.id}/merge" style="margin: 20px 0;"`, merge)}
+      <a href="${returnTo}">Back</a>
+    </div>`
+  );
+}
+
+function renderDeleteCategory(page: PageContext, data: Parameters<Views['deleteCategory']>[1]): string {
+  const { category, categories, taskCount, returnTo } = data;
+  const others = categories.filter((other) => other.id !== category.id);
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+      ${
+        others.length > 0 &&
+        html`<label>
+          <input type="radio" name="tasks" value="reassign" checked /> Move them to
+          <select name="target_id" style="padding: 4px 8px;">
+            ${others.map((other) => html`<option value="${other.id}">${other.name}</option>`)}
+          </select>
+        </label>`
+      }
+      <label>
+        <input type="radio" name="tasks" value="uncategorise" ${checked(others.length === 0)} /> Keep them without a
+        category
+      </label>
+      <label><input type="radio" name="tasks" value="delete" /> Move them to the trash as well</label>
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <button type="submit">Delete Category</button>
+        <a href="${returnTo}">Cancel</a>
+      </div>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="delete-category">
+      <h2>Delete Category "${category.name}"</h2>
+      <p>
+        The category goes to the <a href="/trash">trash</a>, where it can be restored for ${TRASH_RETENTION_DAYS} days.
+      </p>
+      <p>
+        ${taskCount === 1 ? '1 task is' : `${taskCount} tasks are`} assigned to this category. What should happen to
+        ${taskCount === 1 ? 'it' : 'them'}?
+      </p>
+      ${postForm(page.csrfToken, html`action="/categories/${category.id}/delete" style="margin: 20px 0;"`, fields)}
+    </div>`
+  );
+}
+
+function renderEditTag(page: PageContext, { tag, returnTo, form }: Parameters<Views['editTag']>[1]): string {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; gap: 8px; align-items: flex-start;">
+      <div>
+        <input
+          type="text"
+          name="name"
+          value="${form ? form.input.name : tag.name}"
+          required
+          maxlength="50"
+          style="padding: 4px 8px;" />
+        ${fieldError(form?.errors.name)}
+      </div>
+      <button type="submit">Rename</button>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="edit-tag">
+      <h2>Rename Tag #${tag.id}</h2>
+      ${postForm(page.csrfToken, html`action="/tags/${tag.id}/rename" style="margin: 20px 0;"`, fields)}
+      <a href="${returnTo}">Back</a>
+    </div>`
+  );
+}
+
+function renderDeleteTask(
+  page: PageContext,
+  { task, subtaskCount, returnTo }: Parameters<Views['deleteTask']>[1]
+): string {
+  const fields = html` ${returnToField(returnTo)}
+    <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+      <label>
+        <input type="radio" name="subtasks" value="promote" checked />
+        ${task.parentId ? 'Move them up to the parent task' : 'Keep them as top-level tasks'}
+      </label>
+      <label><input type="radio" name="subtasks" value="delete" /> Move them to the trash as well</label>
+      <div style="display: flex; gap: 8px; align-items: center;">
+        <button type="submit">Delete Task</button>
+        <a href="${returnTo}">Cancel</a>
+      </div>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="delete-task">
+      <h2>Delete Task "${task.title}"</h2>
+      <p>The task goes to the <a href="/trash">trash</a>, where it can be restored for ${TRASH_RETENTION_DAYS} days.</p>
+      <p>
+        It has ${subtaskCount === 1 ? '1 subtask' : `${subtaskCount} subtasks`}. What should happen to
+        ${subtaskCount === 1 ? 'it' : 'them'}?
+      </p>
+      ${postForm(page.csrfToken, html`action="/tasks/${task.id}/delete" style="margin: 20px 0;"`, fields)}
+    </div>`
+  );
+}
+
+function trashActions(csrfToken: string, path: string): Html {
+  return html`<div style="display: flex; gap: 8px; align-items: center;">
+    ${postForm(csrfToken, html`action="${path}/restore" style="margin: 0;"`, html`<button type="submit">Restore</button>`)}
+    ${postForm(
+      csrfToken,
+      html`action="${path}/purge" style="margin: 0;"`,
+      confirmButton('Delete Permanently', 'Permanently delete this item? This cannot be undone.')
+    )}
+  </div>`;
+}
+
+function renderTrash(page: PageContext, { tasks, categories, error }: Parameters<Views['trash']>[1]): string {
+  const { csrfToken } = page;
+  const emptyButton = confirmButton(
+    'Empty Trash',
+    'Permanently delete everything in the trash? This cannot be undone.'
+  );
+  return renderPage(
+    page,
+    html`<div class="trash">
+      <h2>Trash</h2>
+      <p>
+        Deleted tasks and categories are kept here for ${TRASH_RETENTION_DAYS} days before they are removed for good.
+      </p>
+      ${fieldError(error)}
+      ${
+        tasks.length === 0 && categories.length === 0
+          ? html`<p>The trash is empty.</p>`
+          : postForm(csrfToken, html`action="/trash/empty" style="margin: 20px 0;"`, emptyButton)
+      }
+      ${
+        categories.length > 0 &&
+        html`<table style="border-collapse: collapse; border: 1px solid black; margin-bottom: 20px;">
+          <thead>
+            <tr>
+              <th style="padding: 8px;">Category</th>
+              <th style="padding: 8px;">Tasks</th>
+              <th style="padding: 8px;">Deleted At</th>
+              <th style="padding: 8px;">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${categories.map(
+              (category) =>
+                html`<tr>
+                  <td style="padding: 8px;">${category.name}</td>
+                  <td style="padding: 8px;">${category.taskCount}</td>
+                  <td style="padding: 8px;">${new Date(category.deletedAt).toLocaleString()}</td>
+                  <td style="padding: 8px;">${trashActions(csrfToken, `/trash/categories/${category.id}`)}</td>
+                </tr>`
+            )}
+          </tbody>
+        </table>`
+      }
+      ${
+        tasks.length > 0 &&
+        html`<table style="border-collapse: collapse; border: 1px solid black;">
+          <thead>
+            <tr>
+              <th style="padding: 8px;">Task</th>
+              <th style="padding: 8px;">Category</th>
+              <th style="padding: 8px;">Deleted At</th>
+              <th style="padding: 8px;">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            ${tasks.map(
+              (task) =>
+                html`<tr>
+                  <td style="padding: 8px;">${task.title}</td>
+                  <td style="padding: 8px;">${task.categoryName || '-'}</td>
+                  <td style="padding: 8px;">${new Date(task.deletedAt).toLocaleString()}</td>
+                  <td style="padding: 8px;">${trashActions(csrfToken, `/trash/tasks/${task.id}`)}</td>
+                </tr>`
+            )}
+          </tbody>
+        </table>`
+      }
+    </div>`
+  );
+}
+
+function renderImportForm(page: PageContext, { error }: { error?: string }): string {
+  const fields = html` <div style="display: flex; flex-direction: column; gap: 8px; align-items: flex-start;">
+    <input type="file" name="file" accept=".csv,.json,text/csv,application/json" required />
+    <span>Tasks that already exist (same title in the same category):</span>
+    <label><input type="radio" name="mode" value="skip" checked /> Skip them</label>
+    <label><input type="radio" name="mode" value="update" /> Update their status, due date and priority</label>
+    <button type="submit">Preview Import</button>
+  </div>`;
+  return renderPage(
+    page,
+    html`<div class="import">
+      <h2>Import</h2>
+      <p>
+        Upload a CSV or JSON file in the format of the exports. Files with a <code>title</code> field import tasks and
+        create missing categories by name; files with only a <code>name</code> field import categories. You will see a
+        preview before anything is saved.
+      </p>
+      ${fieldError(error)}
+      ${postForm(page.csrfToken, html`action="/import" enctype="multipart/form-data" style="margin: 20px 0;"`, fields)}
+      <h2>Export</h2>
+      <ul>
+        <li>Tasks: <a href="/export/tasks.csv">CSV</a> or <a href="/export/tasks.json">JSON</a></li>
+        <li>Categories: <a href="/export/categories.csv">CSV</a> or <a href="/export/categories.json">JSON</a></li>
+      </ul>
+    </div>`
+  );
+}
+
+function importRowNotes(title: string, notes: ImportRowNote[]): Html | null {
+  if (notes.length === 0) return null;
+  return html`<div>
+    <h3>${title}</h3>
+    <table style="border-collapse: collapse; border: 1px solid black;">
+      <thead>
+        <tr>
+          <th style="padding: 8px;">Row</th>
+          <th style="padding: 8px;">Reason</th>
+        </tr>
+      </thead>
+      <tbody>
+        ${notes.map(
+          (note) =>
+            html`<tr>
+              <td style="padding: 8px;">${note.row}</td>
+              <td style="padding: 8px;">${note.reason}</td>
+            </tr>`
+        )}
+      </tbody>
+    </table>
+  </div>`;
+}
+
+function renderImportPreview(page: PageContext, data: Parameters<Views['importPreview']>[1]): string {
+  const { plan, fileName, content, mode } = data;
+  const changes = plan.newCategories.length + plan.createTasks.length + plan.updateTasks.length;
+  const plural = (count: number, one: string, many: string) => `${count} ${count === 1 ? one : many}`;
+  // Base64, because browsers rewrite the line breaks of submitted text fields
+  const fields = html` <input type="hidden" name="file_name" value="${fileName}" />
+    <input type="hidden" name="content" value="${Buffer.from(content).toString('base64')}" />
+    <input type="hidden" name="mode" value="${mode}" />
+    <input type="hidden" name="confirm" value="1" />
+    <div style="display: flex; gap: 8px; align-items: center;">
+      <button type="submit" ${changes === 0 && 'disabled'}>Import</button>
+      <a href="/import">Cancel</a>
+    </div>`;
+  return renderPage(
+    page,
+    html`<div class="import-preview">
+      <h2>Import Preview: ${fileName}</h2>
+      <p>Nothing has been saved yet. Importing will:</p>
+      <ul>
+        <li>
+          create
+          ${plural(plan.newCategories.length, 'category', 'categories')}${plan.newCategories.length > 0 && ` (${plan.newCategories.join(', ')})`}
+        </li>
+        ${plan.kind === 'tasks' && html`<li>create ${plural(plan.createTasks.length, 'task', 'tasks')}</li>`}
+        ${plan.kind === 'tasks' && html`<li>update ${plural(plan.updateTasks.length, 'task', 'tasks')}</li>`}
+        <li>
+          skip ${plural(plan.skipped.length, 'row', 'rows')} and reject ${plural(plan.rejected.length, 'row', 'rows')}
+        </li>
+      </ul>
+      ${importRowNotes('Rejected rows', plan.rejected)} ${importRowNotes('Skipped rows', plan.skipped)}
+      ${postForm(page.csrfToken, html`action="/import" style="margin: 20px 0;"`, fields)}
+    </div>`
+  );
+}
+
+function renderImportResult(page: PageContext, data: Parameters<Views['importResult']>[1]): string {
+  const { categories, created, updated, ignored } = data;
+  return renderPage(
+    page,
+    html`<div>
+      <h2>Import Finished</h2>
+      <p>
+        Created ${categories} ${categories === 1 ? 'category' : 'categories'} and ${created}
+        ${created === 1 ? 'task' : 'tasks'}, updated ${updated} ${updated === 1 ? 'task' : 'tasks'}. ${ignored} rows
+        were skipped or rejected.
+      </p>
+      <a href="/">Back to your tasks</a>
+    </div>`
+  );
+}
+
+function renderCalendar(page: PageContext, { hasToken, feedUrls }: Parameters<Views['calendar']>[1]): string {
+  const { csrfToken } = page;
+  return renderPage(
+    page,
+    html`<div class="calendar">
+      <h2>Calendar Feeds</h2>
+      <p>
+        Subscribe to your tasks in a calendar app. The feed links contain a secret token, so anyone with a link can read
+        the tasks in it.
+      </p>
+      ${
+        feedUrls
+          ? html`<div>
+              <p>
+                <strong>Copy your links now.</strong> They will not be shown again; reset the token to get new ones.
+              </p>
+              <ul>
+                ${feedUrls.map(
+                  (feed) =>
+                    html`<li>
+                      ${feed.name}:
+                      <input type="text" value="${feed.url}" readonly size="90" style="padding: 4px 8px;" />
+                    </li>`
+                )}
+              </ul>
+            </div>`
+          : hasToken &&
+            html`<p>You have a feed token. Reset it to see your links again; the old links stop working.</p>`
+      }
+      <div style="display: flex; gap: 8px; align-items: center;">
+        ${postForm(
+          csrfToken,
+          html`action="/calendar/token" style="margin: 0;"`,
+          html`<button type="submit">${hasToken ? 'Reset Feed Token' : 'Create Feed Links'}</button>`
+        )}
+        ${
+          hasToken &&
+          postForm(
+            csrfToken,
+            html`action="/calendar/token/revoke" style="margin: 0;"`,
+            html`<button type="submit">Revoke Feed Token</button>`
+          )
+        }
+      </div>
+    </div>`
+  );
+}
+
+const migrationModeNotes: Record<MigrationMode, string> = {
+  apply: 'Pending migrations are applied when the server starts.',
+  check: 'The server refuses to start while migrations are pending; run them with bun run migrate.',
+  off: 'Migrations are not checked when the server starts; run them with bun run migrate.',
+};
+
+function renderMigrations(page: PageContext, { migrations, mode }: Parameters<Views['migrations']>[1]): string {
+  const pending = migrations.filter((migration) => !migration.applied).length;
+  return renderPage(
+    page,
+    html`<div>
+      <h2>Migrations</h2>
+      <p>
+        ${pending === 0 ? 'The database is up to date.' : `${pending} of ${migrations.length} migrations are pending.`}
+        ${migrationModeNotes[mode]} (<code>MIGRATIONS=${mode}</code>)
+      </p>
+      <table style="border-collapse: collapse; border: 1px solid black;">
+        <thead>
+          <tr>
+            <th style="padding: 8px;">Migration</th>
+            <th style="padding: 8px;">Generated</th>
+            <th style="padding: 8px;">Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          ${migrations.map(
+            (migration) =>
+              html`<tr>
+                <td style="padding: 8px;">${migration.name}</td>
+                <td style="padding: 8px;">${migration.createdAt.toLocaleString()}</td>
+                <td style="padding: 8px;">${migration.applied ? 'Applied' : 'Pending'}</td>
+              </tr>`
+          )}
+        </tbody>
+      </table>
+    </div>`
+  );
+}
+
+/**
+ * The template string pages of `index.ts`. They work without JavaScript; where the Preact pages have
+ * islands, they have plain buttons and inline confirmations.
+ */
+export const views: Views = {
+  home: renderHome,
+  auth: (page, data) => renderPage(page, renderAuthForm(page.csrfToken, data)),
+  editTask: renderEditTask,
+  deleteTask: renderDeleteTask,
+  editCategory: renderEditCategory,
+  deleteCategory: renderDeleteCategory,
+  editTag: renderEditTag,
+  activity: renderActivity,
+  importForm: renderImportForm,
+  importPreview: renderImportPreview,
+  importResult: renderImportResult,
+  calendar: renderCalendar,
+  trash: renderTrash,
+  migrations: renderMigrations,
+  forbidden: (page, failure) =>
+    renderPage(
+      page,
+      html`<div>
+        <h1>Request blocked</h1>
+        <p>${csrfMessages[failure]}</p>
+        <p>Nothing was changed. <a href="/">Go back to your tasks</a>, reload the page and try again.</p>
+      </div>`
+    ),
+  error: (page, error) =>
+    renderPage(
+      page,
+      html`<div>
+        <h1>${error.title}</h1>
+        <p>${error.message}</p>
+        ${error.requestId && html`<p style="color: #666;">Reference: ${error.requestId}</p>`}
+        <a href="/">Go back to your tasks</a>
+      </div>`
+    ),
+  categoryForm: (page, data) => renderCategoryForm(page.csrfToken, data).value,
+  categoryRow: (page, data) => renderCategoryRow(data).value,
+  taskForm: (page, data) => renderTaskForm(page.csrfToken, data).value,
+  taskRow: (page, data) => renderTaskRow(page.csrfToken, data).value,
+};